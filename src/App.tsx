@@ -9,6 +9,7 @@
  * 3) ✂️ Editar (crop/rotate/historial)
  * 4) 👁️ Previsualizar (original/editada/mejorada)
  * 5) 🔍 Procesar OCR (anverso o reverso)
+ * 6) 🔁 Sesión opcional de dos lados (anverso + reverso -> registro único)
  *
  * 🧠 Arquitectura:
  * - Este componente actúa como "orquestador" (coordinador de estados)
@@ -31,7 +32,7 @@
  * =========================================================
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   Box,
   Container,
@@ -61,6 +62,7 @@ import {
   Preview,
   Assignment,
   Info,
+  History as HistoryIcon,
   Logout as LogoutIcon  // 🆕 Icono para logout
 } from '@mui/icons-material';
 import { toast, ToastContainer } from 'react-toastify';
@@ -72,28 +74,72 @@ import CameraCapture from './components/CameraCapture';
 import ImageEditor from './components/ImageEditor';
 import PreviewPanel from './components/PreviewPanel';
 import OCRResults from './components/OCRResults';
+import IdentityRecord from './components/IdentityRecord';
+import ExportMenu from './components/ExportMenu';
+import HistoryDialog from './components/HistoryDialog';
+import BatchQueue from './components/BatchQueue';
+import QualityGateDialog from './components/QualityGateDialog';
+import SessionExpiryBanner from './components/SessionExpiryBanner';
 
 // 🌐 Servicios
-import { ocrService, authService } from './services/api';
+import { ocrService, authService, isCancelError } from './services/api';
+import { ApiError, API_ERROR_INFO, toApiError } from './services/errors';
+import { historyService } from './services/history';
+import { draftService } from './services/draft';
+import { preprocessService } from './services/preprocess';
+
+// 🧰 Utilidades
+import { mergeIdentity } from './utils/identity';
+import { resolveReferenceDate } from './utils/vigencia';
+import { applyCorrection } from './utils/corrections';
+import { buildExportRecord } from './utils/export';
+import { fieldValue, isReversoData } from './utils/fields';
+import { createThumbnail } from './utils/image';
+import { findPreset } from './utils/preprocess';
+import { analyzeImageQuality } from './utils/quality';
+import { formatBytes } from './utils/upload';
+import { useBatchQueue } from './hooks/useBatchQueue';
+import { useImageQuality } from './hooks/useImageQuality';
+import { useSessionExpiry } from './hooks/useSessionExpiry';
+import type { AuthUser, BatchItem, CaptureFrame, CorrectableField, DocumentPage, ExportRecord, FieldCorrection, HistoryEntry, INEData, INESession, PreprocessCandidate, QualityReport, RequestProgress, ReversoData, UploadPreparation } from './types';
+
+/**
+ * 📆 VIGENCIA_REFERENCE_DATE
+ * ---------------------------------------------------------
+ * Fecha contra la que se evalúa la vigencia de la credencial.
+ * - `VITE_VIGENCIA_FECHA_REFERENCIA` (YYYY-MM-DD) si está definida
+ * - Si no, la fecha actual
+ * ---------------------------------------------------------
+ */
+const VIGENCIA_REFERENCE_DATE = resolveReferenceDate(import.meta.env.VITE_VIGENCIA_FECHA_REFERENCIA);
 
 // 📋 Pasos del proceso
 /**
- * 🧭 steps
+ * 🧭 getSteps
  * ---------------------------------------------------------
  * Lista de etiquetas para el Stepper (wizard).
  * Se renderiza como "pasos" en la UI y define el camino del usuario.
  *
+ * 🔙 Lado de la credencial:
+ * - Las etiquetas incluyen el lado elegido (Anverso / Reverso)
+ *   para que el usuario sepa qué está capturando en todo momento.
+ *
  * ✅ Importante:
  * - El Stepper usa `activeStep` para resaltar el paso actual.
  * - El contenido de cada paso se controla por `renderStepContent(step)`.
+ *
+ * @param isReverso true si se está trabajando con el reverso
  * ---------------------------------------------------------
  */
-const steps = [
-  '📸 Capturar Imagen',
-  '✂️ Editar Imagen',
-  '👁️ Previsualizar',
-  '🔍 Procesar OCR'
-];
+const getSteps = (isReverso: boolean) => {
+  const lado = isReverso ? 'Reverso' : 'Anverso';
+  return [
+    `📸 Capturar ${lado}`,
+    `✂️ Editar ${lado}`,
+    `👁️ Previsualizar ${lado}`,
+    `🔍 Procesar ${lado}`
+  ];
+};
 
 // 📐 Importar tipo PixelCrop desde react-image-crop
 /**
@@ -161,26 +207,81 @@ const App: React.FC = () => {
    */
   const [enhancedImage, setEnhancedImage] = useState<string>(''); // Imagen mejorada por IA
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  /**
+   * 🧪 preprocessed
+   * - Candidatas generadas por presets locales (PreviewPanel).
+   * - Una por preset; se descartan al cambiar de imagen o editarla.
+   */
+  const [preprocessed, setPreprocessed] = useState<PreprocessCandidate[]>([]);
+
+  /**
+   * 🎞️ captureFrames
+   * - Tomas de la última ráfaga de la cámara (de mejor a peor).
+   * - Se conservan al editar para poder elegir otra toma en el preview.
+   */
+  const [captureFrames, setCaptureFrames] = useState<CaptureFrame[]>([]);
+
+  /**
+   * 📄 documentPages
+   * - Páginas del último PDF de varias páginas (selector en ImageUploader).
+   * - Se conservan entre anverso y reverso; se limpian al reiniciar.
+   */
+  const [documentPages, setDocumentPages] = useState<DocumentPage[]>([]);
+
   /**
    * 📦 ocrData
-   * - Resultado del OCR (JSON) devuelto por el backend.
-   * - Puede contener estructura de anverso o reverso.
-   *
-   * ⚠️ Se usa `any` (temporalmente) por flexibilidad.
-   * 💡 Ideal futuro:
-   * - Tipar esto con `INEData | ReversoData` para máxima seguridad.
+   * - Resultado del OCR devuelto por el backend.
+   * - Estructura de anverso o reverso, ya validada por `ocrService`.
    */
-  const [ocrData, setOcrData] = useState<any>(null);
+  const [ocrData, setOcrData] = useState<INEData | ReversoData | null>(null);
 
   /**
    * 🔙 isReverso
    * - Selector de modo:
    *   - false -> Anverso (POST /ocr)
    *   - true  -> Reverso (POST /ocrreverso)
+   * - Lo elige el usuario en ImageUploader (paso 0) y se conserva
+   *   durante edición, previsualización y procesamiento.
    */
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const [isReverso, _setIsReverso] = useState(false); // 🔧 Cambio: agregar prefijo _ para indicar que no se usa
+  const [isReverso, setIsReverso] = useState(false);
+
+  /**
+   * 🔁 sessionMode
+   * - Sesión de dos lados: primero anverso, luego reverso.
+   * - Al terminar ambos se muestra un registro de identidad único.
+   */
+  const [sessionMode, setSessionMode] = useState(false);
+
+  /**
+   * 🧬 session
+   * - Resultados acumulados de la sesión de dos lados.
+   * - Sobrevive al cambio de lado (no se limpia al pasar al reverso).
+   */
+  const [session, setSession] = useState<INESession>({ anverso: null, reverso: null });
+
+  /**
+   * 📚 batchMode
+   * - Modo lote: varios archivos encolados directo al OCR
+   *   (sin pasar por editor ni vista previa).
+   * - Es excluyente con el modo sesión.
+   */
+  const [batchMode, setBatchMode] = useState(false);
+
+  /**
+   * ✏️ corrections
+   * - Bitácora de correcciones manuales (ambos lados).
+   * - Se descartan las de un lado cuando ese lado se vuelve a procesar.
+   */
+  const [corrections, setCorrections] = useState<FieldCorrection[]>([]);
+
+  /**
+   * 🗂️ historyOpen / historyId
+   * - historyOpen: visibilidad del modal de historial
+   * - historyId: escaneo del historial que se está mostrando
+   *   (para guardar ahí las correcciones)
+   */
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [historyId, setHistoryId] = useState<number | null>(null);
 
   // ⚙️ Estados de proceso
   /**
@@ -195,6 +296,46 @@ const App: React.FC = () => {
    */
   const [enhancing, setEnhancing] = useState(false);
 
+  /**
+   * 📶 ocrProgress / enhanceProgress
+   * - Fase y porcentaje de la petición en curso (`ocrService`),
+   *   que PreviewPanel / OCRResults muestran con barra y "Cancelar".
+   */
+  const [ocrProgress, setOcrProgress] = useState<RequestProgress | null>(null);
+  const [enhanceProgress, setEnhanceProgress] = useState<RequestProgress | null>(null);
+
+  /**
+   * 🚨 ocrError
+   * - Falla del último OCR (`ApiError`); OCRResults la muestra
+   *   según su código, con "Reintentar" si es reintentable.
+   */
+  const [ocrError, setOcrError] = useState<ApiError | null>(null);
+
+  /**
+   * 🛑 ocrAbortRef / enhanceAbortRef
+   * - AbortController de la petición en curso (para "Cancelar").
+   */
+  const ocrAbortRef = useRef<AbortController | null>(null);
+  const enhanceAbortRef = useRef<AbortController | null>(null);
+
+  /**
+   * 🧪 preprocessing
+   * - Id del preset local que se está generando (null = ninguno).
+   */
+  const [preprocessing, setPreprocessing] = useState<string | null>(null);
+
+  /**
+   * 🚦 qualityGate
+   * - Reporte de calidad que frenó el OCR (abre QualityGateDialog).
+   */
+  const [qualityGate, setQualityGate] = useState<QualityReport | null>(null);
+
+  /**
+   * 🔎 quality
+   * - Calidad de la imagen actual, analizada en Previsualizar (paso 2).
+   */
+  const quality = useImageQuality(activeStep === 2 ? imageSrc : '');
+
   /**
    * 📷 cameraOpen
    * - Controla la apertura/cierre del modal de cámara (CameraCapture).
@@ -219,7 +360,7 @@ const App: React.FC = () => {
    * - Información del usuario autenticado.
    * - Se carga desde localStorage al iniciar el componente.
    */
-  const [user, setUser] = useState<any>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
 
 
   // 🔍 Cargar información del usuario al inicio
@@ -238,6 +379,41 @@ const App: React.FC = () => {
     console.log('👤 Usuario cargado en App.tsx:', currentUser);
   }, []);
 
+  // ♻️ Restaurar trabajo guardado al vencer la sesión
+  /**
+   * ♻️ useEffect (restaurar borrador)
+   * ---------------------------------------------------------
+   * Si la sesión anterior venció a media captura
+   * (`handleSessionExpired`), al volver a entrar se restaura el
+   * wizard tal como estaba: paso, lado, imágenes, resultados y
+   * correcciones. Solo para el mismo usuario.
+   * ---------------------------------------------------------
+   */
+  useEffect(() => {
+    const currentUser = authService.getCurrentUser();
+    if (!currentUser) return;
+
+    draftService
+      .take(currentUser.username)
+      .then((draft) => {
+        if (!draft) return;
+        console.log('♻️ Restaurando borrador del wizard:', { paso: draft.activeStep, guardado: draft.guardado });
+        setIsReverso(draft.isReverso);
+        setSessionMode(draft.sessionMode);
+        setSession(draft.session);
+        setImageSrc(draft.imageSrc);
+        setOriginalImage(draft.originalImage);
+        setEditedImage(draft.editedImage);
+        setEnhancedImage(draft.enhancedImage);
+        setOcrData(draft.ocrData);
+        setCorrections(draft.corrections);
+        setHistoryId(draft.historyId);
+        setActiveStep(draft.activeStep);
+        toast.info('♻️ Se restauró el trabajo que tenías cuando venció la sesión');
+      })
+      .catch((error) => console.error('❌ Error restaurando borrador:', error));
+  }, []);
+
   // 🔍 Debug: Ver estado actual
   /**
    * 🧪 useEffect (debug)
@@ -281,8 +457,9 @@ const App: React.FC = () => {
   const handleLogout = () => {
     console.log('🚪 Cerrando sesión...');
 
-    // 🧹 Limpiar tokens
+    // 🧹 Limpiar tokens (y un borrador pendiente: salir es a propósito)
     authService.logout();
+    draftService.clear().catch((error) => console.error('❌ Error borrando borrador:', error));
 
     // ✅ Toast de confirmación
     toast.success('👋 Sesión cerrada correctamente');
@@ -293,6 +470,145 @@ const App: React.FC = () => {
     }, 1000);
   };
 
+  // 🔐 Sesión vencida
+  /**
+   * 🔐 handleSessionExpired
+   * ---------------------------------------------------------
+   * La sesión venció (cuenta regresiva en 0, o un 401 del API):
+   * 1. Cancela peticiones en curso
+   * 2. Guarda el wizard en `draftService` (si hay algo que guardar)
+   * 3. Limpia tokens y va a /login
+   *
+   * 🧠 Se ejecuta una sola vez (`expiringRef`).
+   * ---------------------------------------------------------
+   */
+  const expiringRef = useRef(false);
+  const handleSessionExpired = async () => {
+    if (expiringRef.current) return;
+    expiringRef.current = true;
+    console.warn('🔐 Sesión vencida, guardando trabajo en curso...');
+
+    ocrAbortRef.current?.abort();
+    enhanceAbortRef.current?.abort();
+
+    if (user && (originalImage || imageSrc || ocrData)) {
+      try {
+        await draftService.save({
+          usuario: user.username,
+          guardado: new Date().toISOString(),
+          activeStep,
+          isReverso,
+          sessionMode,
+          session,
+          imageSrc,
+          originalImage,
+          editedImage,
+          enhancedImage,
+          ocrData,
+          corrections,
+          historyId
+        });
+      } catch (error) {
+        console.error('❌ No se pudo guardar el trabajo en curso:', error);
+      }
+    }
+
+    authService.logout();
+    window.location.href = '/login?sesion=expirada';
+  };
+
+  /**
+   * ⏳ sessionExpiry
+   * - Cuenta regresiva + renovación del JWT (`useSessionExpiry`).
+   */
+  const sessionExpiry = useSessionExpiry(handleSessionExpired);
+
+  /**
+   * 🔐 useEffect (handler de 401)
+   * ---------------------------------------------------------
+   * Un 401 del API pasa por `handleSessionExpired` en lugar de
+   * redirigir directo (y perder el trabajo). Se usa un ref para
+   * registrar el handler una sola vez.
+   * ---------------------------------------------------------
+   */
+  const sessionExpiredRef = useRef(handleSessionExpired);
+  useEffect(() => {
+    sessionExpiredRef.current = handleSessionExpired;
+  });
+  useEffect(() => {
+    authService.setSessionExpiredHandler(() => {
+      sessionExpiredRef.current();
+    });
+    return () => authService.setSessionExpiredHandler(null);
+  }, []);
+
+  // 🔙 Cambiar lado de la credencial
+  /**
+   * 🔙 handleSideChange
+   * ---------------------------------------------------------
+   * Cambia el lado de la credencial que se va a procesar.
+   *
+   * 🧹 Si ya había resultados de OCR, se descartan:
+   * - Pertenecen al lado anterior y no deben mostrarse
+   *   con el formato del nuevo lado.
+   *
+   * @param reverso true -> Reverso, false -> Anverso
+   * ---------------------------------------------------------
+   */
+  const handleSideChange = (reverso: boolean) => {
+    console.log('🔙 Lado seleccionado:', reverso ? 'Reverso' : 'Anverso');
+    setIsReverso(reverso);
+    setOcrData(null);
+    setOcrError(null);
+    setCorrections([]);
+  };
+
+  // 🔁 Activar/desactivar sesión de dos lados
+  /**
+   * 🔁 handleSessionModeChange
+   * ---------------------------------------------------------
+   * Activa o desactiva el modo sesión (anverso + reverso).
+   *
+   * ✅ Siempre:
+   * - Limpia la sesión acumulada
+   * - Regresa al anverso (la sesión siempre inicia por el frente)
+   * ---------------------------------------------------------
+   */
+  const handleSessionModeChange = (enabled: boolean) => {
+    console.log('🔁 Modo sesión:', enabled);
+    setSessionMode(enabled);
+    if (enabled) setBatchMode(false);
+    setSession({ anverso: null, reverso: null });
+    setIsReverso(false);
+    setOcrData(null);
+    setOcrError(null);
+    setCorrections([]);
+  };
+
+  /**
+   * ➡️ handleContinueSession
+   * ---------------------------------------------------------
+   * Pasa del anverso (ya procesado) a la captura del reverso.
+   *
+   * ✅ Conserva `session.anverso` y limpia todo lo relativo a la
+   * imagen para empezar el wizard de nuevo con el reverso.
+   * ---------------------------------------------------------
+   */
+  const handleContinueSession = () => {
+    console.log('➡️ Continuando sesión con el reverso');
+    setImageSrc('');
+    setOriginalImage('');
+    setEditedImage('');
+    setEnhancedImage('');
+    setPreprocessed([]);
+    setCaptureFrames([]);
+    setOcrData(null);
+    setOcrError(null);
+    setIsReverso(true);
+    setActiveStep(0);
+    toast.info('🔙 Ahora captura el reverso de la credencial');
+  };
+
   // 📁 Manejar selección de imagen
   /**
    * 📁 handleImageSelect
@@ -366,6 +682,8 @@ const App: React.FC = () => {
       setOriginalImage(result);
       setEditedImage(result); // Inicialmente es igual a la original
       setEnhancedImage(''); // Resetear imagen mejorada
+      setPreprocessed([]);
+      setCaptureFrames([]);
       setIsImageLoading(false);
       setActiveStep(1);
 
@@ -408,10 +726,11 @@ const App: React.FC = () => {
    * 🎯 Resultado:
    * - Se asigna como original + editada + actual
    * - Se resetea la mejorada
+   * - Se guardan las tomas de la ráfaga (si las hay)
    * - Se avanza al paso 1 (edición)
    * ---------------------------------------------------------
    */
-  const handleCameraCapture = (capturedImageSrc: string) => {
+  const handleCameraCapture = (capturedImageSrc: string, frames: CaptureFrame[] = []) => {
     console.log('📸 Imagen capturada desde cámara:', {
       longitud: capturedImageSrc?.length || 0,
       esDataUrl: capturedImageSrc?.startsWith('data:image')
@@ -426,9 +745,11 @@ const App: React.FC = () => {
     setOriginalImage(capturedImageSrc);
     setEditedImage(capturedImageSrc);
     setEnhancedImage('');
+    setPreprocessed([]);
+    setCaptureFrames(frames);
     setIsImageLoading(false);
     setActiveStep(1);
-    toast.success('📸 Foto capturada correctamente');
+    toast.success(frames.length > 1 ? `🎞️ Mejor toma de ${frames.length} seleccionada` : '📸 Foto capturada correctamente');
   };
 
   // ✂️ Manejar cambios en la edición de imagen
@@ -461,6 +782,7 @@ const App: React.FC = () => {
     // Actualizar tanto imageSrc como editedImage
     setImageSrc(editedImageSrc);
     setEditedImage(editedImageSrc);
+    setPreprocessed([]); // 🧪 Las candidatas eran de la versión anterior
     console.log('✅ Imagen editada actualizada en estado global');
   };
 
@@ -509,6 +831,17 @@ const App: React.FC = () => {
     }
   };
 
+  /**
+   * 📦 notifyUploadSavings
+   * - Avisa cuánto se redujo la imagen antes de subirla
+   *   (`ocrService` la comprime con `uploadService`).
+   */
+  const notifyUploadSavings = (upload: UploadPreparation) => {
+    if (upload.ahorro <= 0) return;
+    const percent = Math.round((upload.ahorro / upload.bytesOriginales) * 100);
+    toast.info(`📦 Imagen optimizada: ${formatBytes(upload.bytesOriginales)} → ${formatBytes(upload.bytesFinales)} (-${percent}%)`);
+  };
+
   // ⚡ Mejorar imagen
   /**
    * ⚡ handleEnhanceImage
@@ -518,6 +851,7 @@ const App: React.FC = () => {
    * 🔁 Conversión:
    * - imageSrc (DataURL) -> fetch -> Blob -> File
    * - Ese File se envía a ocrService.enhanceImage(file)
+   *   (que lo reduce / comprime antes de subirlo)
    *
    * 📥 Respuesta:
    * - Viene como `blob` (PNG)
@@ -535,6 +869,9 @@ const App: React.FC = () => {
     }
 
     setEnhancing(true);
+    setEnhanceProgress(null);
+    const controller = new AbortController();
+    enhanceAbortRef.current = controller;
     console.log('⚡ Iniciando mejora de imagen...');
 
     try {
@@ -542,7 +879,11 @@ const App: React.FC = () => {
       const blob = await response.blob();
       const file = new File([blob], 'image.jpg', { type: 'image/jpeg' });
 
-      const result = await ocrService.enhanceImage(file);
+      const result = await ocrService.enhanceImage(file, {
+        onProgress: setEnhanceProgress,
+        onPrepared: notifyUploadSavings,
+        signal: controller.signal
+      });
 
       const reader = new FileReader();
       reader.onload = (e) => {
@@ -554,15 +895,83 @@ const App: React.FC = () => {
           toast.error('❌ La imagen mejorada no es válida');
         }
       };
-      reader.readAsDataURL(result.data);
+      reader.readAsDataURL(result);
     } catch (error) {
+      if (isCancelError(error)) {
+        toast.info('🛑 Mejora cancelada');
+        return;
+      }
       console.error('❌ Error al mejorar la imagen:', error);
-      toast.error('❌ Error al mejorar la imagen');
+      const apiError = toApiError(error);
+      toast.error(`❌ Error al mejorar la imagen: ${API_ERROR_INFO[apiError.code].titulo}`);
     } finally {
+      enhanceAbortRef.current = null;
+      setEnhanceProgress(null);
       setEnhancing(false);
     }
   };
 
+  // 🧪 Preprocesamiento local
+  /**
+   * 🧪 handlePreprocess
+   * ---------------------------------------------------------
+   * Genera la candidata de un preset local (Web Worker) a partir
+   * de la imagen editada (o la original si no hay edición).
+   *
+   * 🎯 Resultado:
+   * - Agrega/reemplaza la candidata del preset en `preprocessed`
+   * - No cambia `imageSrc`: el usuario elige en PreviewPanel
+   * ---------------------------------------------------------
+   */
+  const handlePreprocess = async (presetId: string) => {
+    const base = editedImage || originalImage;
+    const preset = findPreset(presetId);
+    if (!base || !preset) {
+      toast.error('❌ No hay imagen para preprocesar');
+      return;
+    }
+
+    setPreprocessing(presetId);
+    try {
+      const imagen = await preprocessService.apply(base, presetId);
+      setPreprocessed((prev) => [
+        ...prev.filter((candidate) => candidate.preset !== presetId),
+        { preset: presetId, nombre: preset.nombre, imagen }
+      ]);
+      toast.success(`${preset.nombre}: candidata lista`);
+    } catch (error) {
+      console.error('❌ Error al preprocesar la imagen:', error);
+      toast.error('❌ Error al preprocesar la imagen');
+    } finally {
+      setPreprocessing(null);
+    }
+  };
+
+  /**
+   * 🧪 handleSelectCandidate
+   * - Usa una candidata de preprocesamiento como imagen actual.
+   */
+  const handleSelectCandidate = (candidate: PreprocessCandidate) => {
+    setImageSrc(candidate.imagen);
+    toast.info(`🧪 Usando ${candidate.nombre}`);
+  };
+
+  /**
+   * 🎞️ handleSelectFrame
+   * ---------------------------------------------------------
+   * Cambia a otra toma de la ráfaga. La toma pasa a ser la
+   * nueva original (las ediciones eran de la toma anterior).
+   * ---------------------------------------------------------
+   */
+  const handleSelectFrame = (frame: CaptureFrame) => {
+    setImageSrc(frame.imagen);
+    setOriginalImage(frame.imagen);
+    setEditedImage(frame.imagen);
+    setEnhancedImage('');
+    setPreprocessed([]);
+    toast.info(`🎞️ Usando toma con puntaje ${frame.puntaje}`);
+  };
+
   // 🔍 Procesar OCR
   /**
    * 🔍 handleProcessOCR
@@ -590,6 +999,10 @@ const App: React.FC = () => {
     }
 
     setLoading(true);
+    setOcrProgress(null);
+    setOcrError(null);
+    const controller = new AbortController();
+    ocrAbortRef.current = controller;
     console.log('🔍 Iniciando procesamiento OCR...');
 
     try {
@@ -598,28 +1011,285 @@ const App: React.FC = () => {
       const file = new File([blob], 'ine.jpg', { type: 'image/jpeg' });
 
       const endpoint = isReverso ? ocrService.processReverso : ocrService.processAnverso;
-      const result = await endpoint(file);
+      const result = await endpoint(file, {
+        onProgress: setOcrProgress,
+        onPrepared: notifyUploadSavings,
+        signal: controller.signal
+      });
+
+      console.log('✅ OCR completado:', result);
+      setOcrData(result);
+      setCorrections((prev) => prev.filter((c) => c.lado !== (isReverso ? 'reverso' : 'anverso')));
+      saveToHistory(result, imageSrc, isReverso ? 'reverso' : 'anverso').then(setHistoryId);
 
-      console.log('✅ OCR completado:', result.data);
-      setOcrData(result.data);
+      // 🔁 En modo sesión, acumular el resultado del lado procesado
+      if (sessionMode) {
+        setSession((prev) => isReversoData(result)
+          ? { ...prev, reverso: result }
+          : { ...prev, anverso: result });
+      }
       setActiveStep(3);
-      toast.success('✅ OCR procesado correctamente');
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    } catch (error: any) {
+      toast.success(`✅ OCR del ${isReverso ? 'reverso' : 'anverso'} procesado correctamente`);
+    } catch (error) {
+      if (isCancelError(error)) {
+        toast.info('🛑 Procesamiento cancelado');
+        return;
+      }
       console.error('❌ Error en OCR:', error);
 
-      if (error.name === 'TimeoutError') {
-        // 🕒 Error específico de timeout (ya viene formateado del interceptor)
-        toast.error(`❌ ${error.message}`);
-      } else {
-        // 🔧 Otros tipos de error
-        toast.error(`❌ Error en OCR: ${error.message || 'Error desconocido'}`);
+      // 🚨 Se muestra por código en OCRResults (paso 3); `auth` ya
+      // redirige a /login desde el interceptor
+      const apiError = toApiError(error);
+      toast.error(API_ERROR_INFO[apiError.code].titulo);
+      if (apiError.code !== 'auth') {
+        setOcrError(apiError);
+        setOcrData(null);
+        setActiveStep(3);
       }
     } finally {
+      ocrAbortRef.current = null;
+      setOcrProgress(null);
       setLoading(false);
     }
   };
 
+  /**
+   * 🛑 handleCancelOCR / handleCancelEnhance
+   * - Cancelan la petición en curso (cualquier fase, incluso
+   *   la espera entre reintentos).
+   */
+  const handleCancelOCR = () => ocrAbortRef.current?.abort();
+  const handleCancelEnhance = () => enhanceAbortRef.current?.abort();
+
+  // 🚦 Revisar calidad antes del OCR
+  /**
+   * 🚦 handleRequestOCR
+   * ---------------------------------------------------------
+   * Punto de entrada del botón “Procesar”: revisa la calidad de
+   * `imageSrc` y solo llama `handleProcessOCR` si está bien.
+   *
+   * ✅ Flujo:
+   * - ok          -> OCR directo
+   * - advertencia -> QualityGateDialog (puede procesar de todos modos)
+   * - bloqueo     -> QualityGateDialog (solo volver al editor)
+   *
+   * 🧠 Reutiliza el reporte de PreviewPanel si ya está listo.
+   * ---------------------------------------------------------
+   */
+  const handleRequestOCR = async () => {
+    if (!imageSrc) {
+      handleProcessOCR();
+      return;
+    }
+
+    let report = quality.report;
+    if (!report) {
+      try {
+        report = await analyzeImageQuality(imageSrc);
+      } catch (error) {
+        // ⚠️ Si el análisis falla no se bloquea el OCR
+        console.warn('⚠️ No se pudo analizar la calidad:', error);
+      }
+    }
+
+    if (report && report.nivel !== 'ok') {
+      console.log('🚦 OCR detenido por calidad:', report.nivel, report.puntaje);
+      setQualityGate(report);
+      return;
+    }
+
+    handleProcessOCR();
+  };
+
+  // 💾 Guardar en historial
+  /**
+   * 💾 saveToHistory
+   * ---------------------------------------------------------
+   * Guarda el resultado recién procesado en el historial local.
+   *
+   * ⚠️ No bloquea el flujo: si IndexedDB falla, solo se avisa.
+   *
+   * @param data  Resultado del OCR
+   * @param image Imagen procesada (DataURL u object URL) para la miniatura
+   * @param lado  Lado procesado
+   * @returns Id del escaneo guardado (null si falló)
+   * ---------------------------------------------------------
+   */
+  const saveToHistory = async (
+    data: HistoryEntry['data'],
+    image: string,
+    lado: HistoryEntry['lado']
+  ): Promise<number | null> => {
+    try {
+      const saved = await historyService.save({
+        fecha: new Date().toISOString(),
+        lado,
+        usuario: user?.username || 'desconocido',
+        thumbnail: await createThumbnail(image),
+        data,
+        correcciones: []
+      });
+      return saved.id ?? null;
+    } catch (error) {
+      console.error('❌ Error guardando en historial:', error);
+      toast.warning('⚠️ No se pudo guardar el escaneo en el historial');
+      return null;
+    }
+  };
+
+  // 📂 Reabrir escaneo del historial
+  /**
+   * 📂 handleReopenHistory
+   * ---------------------------------------------------------
+   * Muestra un escaneo guardado en el paso de resultados.
+   *
+   * ✅ Sale del modo sesión: el escaneo es de un solo lado.
+   * ✅ La miniatura se usa como imagen procesada.
+   * ---------------------------------------------------------
+   */
+  const handleReopenHistory = (entry: HistoryEntry) => {
+    console.log('📂 Reabriendo escaneo del historial:', entry.id);
+    setSessionMode(false);
+    setSession({ anverso: null, reverso: null });
+    setIsReverso(entry.lado === 'reverso');
+    setOcrData(entry.data);
+    setOcrError(null);
+    setCorrections(entry.correcciones);
+    setImageSrc(entry.thumbnail);
+    setOriginalImage('');
+    setEditedImage('');
+    setEnhancedImage('');
+    setPreprocessed([]);
+    setCaptureFrames([]);
+    setHistoryId(entry.id ?? null);
+    setActiveStep(3);
+    setHistoryOpen(false);
+    toast.info('📂 Escaneo del historial abierto');
+  };
+
+  // 📚 Cola de procesamiento por lote
+  /**
+   * 📚 batch
+   * ---------------------------------------------------------
+   * Cola con concurrencia limitada que envía cada archivo directo
+   * a `ocrService.processAnverso` / `processReverso` según su lado.
+   *
+   * ✅ Cada resultado correcto se guarda en el historial.
+   * ---------------------------------------------------------
+   */
+  const batch = useBatchQueue({
+    process: async (item: BatchItem, onProgress) => {
+      const endpoint = item.lado === 'reverso' ? ocrService.processReverso : ocrService.processAnverso;
+      return endpoint(item.file, {
+        onProgress: (progress) => {
+          if (progress.fase === 'subiendo' && progress.porcentaje !== null) onProgress(progress.porcentaje);
+          if (progress.fase === 'procesando') onProgress(100);
+        }
+      });
+    },
+    onSuccess: (item) => {
+      if (item.data) saveToHistory(item.data, item.preview, item.lado);
+    }
+  });
+
+  /**
+   * 📚 handleBatchModeChange
+   * ---------------------------------------------------------
+   * Activa o desactiva el modo lote. Al activarlo se sale del
+   * modo sesión (son excluyentes).
+   * ---------------------------------------------------------
+   */
+  const handleBatchModeChange = (enabled: boolean) => {
+    console.log('📚 Modo lote:', enabled);
+    if (enabled && sessionMode) handleSessionModeChange(false);
+    setBatchMode(enabled);
+  };
+
+  /**
+   * ➕ handleBatchFiles
+   * ---------------------------------------------------------
+   * Encola los archivos validados por ImageUploader con el lado
+   * seleccionado.
+   * ---------------------------------------------------------
+   */
+  const handleBatchFiles = (files: File[]) => {
+    batch.enqueue(files, isReverso ? 'reverso' : 'anverso');
+    toast.info(`📚 ${files.length} archivo(s) agregados al lote`);
+  };
+
+  // ✏️ Corregir un campo del resultado
+  /**
+   * ✏️ handleCorrectField
+   * ---------------------------------------------------------
+   * Aplica una corrección manual al resultado OCR actual.
+   *
+   * ✅ Efectos:
+   * - Actualiza `ocrData` (OCRResults vuelve a validar)
+   * - Registra original/corregido/usuario en `corrections`
+   * - En modo sesión, actualiza también el lado acumulado para
+   *   que el registro fusionado use el valor corregido
+   *
+   * @param campo Campo corregido
+   * @param valor Nuevo valor
+   * ---------------------------------------------------------
+   */
+  const handleCorrectField = (campo: CorrectableField, valor: string) => {
+    if (!ocrData) return;
+
+    const lado = isReverso ? 'reverso' : 'anverso';
+    console.log(`✏️ Corrección en ${lado}.${campo}:`, valor);
+
+    const nextCorrections = applyCorrection(corrections, {
+      lado,
+      campo,
+      valorActual: fieldValue(ocrData, campo),
+      corregido: valor,
+      usuario: user?.username || 'desconocido'
+    });
+    setCorrections(nextCorrections);
+
+    const updated = { ...ocrData, [campo]: valor };
+    setOcrData(updated);
+    if (sessionMode) {
+      setSession((prev) => isReversoData(updated) ? { ...prev, reverso: updated } : { ...prev, anverso: updated });
+    }
+
+    // 🗂️ Mantener el historial al día con la corrección
+    if (historyId !== null) {
+      historyService
+        .update(historyId, { data: updated, correcciones: nextCorrections.filter((c) => c.lado === lado) })
+        .catch((error) => console.error('❌ Error actualizando historial:', error));
+    }
+  };
+
+  // 🚨 Error a mostrar en resultados
+  /**
+   * 🚨 resultError
+   * ---------------------------------------------------------
+   * La falla del último OCR o, si el OCR respondió pero con
+   * `es_ine = false`, un aviso `not_ine` (los datos se muestran).
+   * ---------------------------------------------------------
+   */
+  const resultError = ocrError ?? (ocrData && !ocrData.es_ine
+    ? new ApiError('not_ine', `El OCR del ${isReverso ? 'reverso' : 'anverso'} indicó es_ine = false`)
+    : null);
+
+  // ⬇️ Registro a exportar
+  /**
+   * ⬇️ getExportRecord
+   * ---------------------------------------------------------
+   * Arma el registro exportable con lo que haya disponible:
+   * - Modo sesión: ambos lados acumulados
+   * - Modo simple: solo el lado procesado
+   * ---------------------------------------------------------
+   */
+  const getExportRecord = (): ExportRecord => buildExportRecord({
+    anverso: sessionMode ? session.anverso : ocrData && !isReversoData(ocrData) ? ocrData : null,
+    reverso: sessionMode ? session.reverso : ocrData && isReversoData(ocrData) ? ocrData : null,
+    correcciones: corrections,
+    referenceDate: VIGENCIA_REFERENCE_DATE
+  });
+
   // 🔄 Cambiar paso
   /**
    * ➡️ handleNext
@@ -652,7 +1322,7 @@ const App: React.FC = () => {
     }
 
     if (activeStep === 2) {
-      handleProcessOCR();
+      handleRequestOCR();
     }
   };
 
@@ -679,6 +1349,7 @@ const App: React.FC = () => {
       setImageSrc(originalImage);
       setEditedImage(originalImage);
       setEnhancedImage('');
+      setPreprocessed([]);
       toast.success('🔄 Imagen restablecida a la versión original');
 
       console.log('✅ Imagen restablecida:', {
@@ -708,8 +1379,10 @@ const App: React.FC = () => {
    *
    * ✅ Limpia:
    * - Paso activo
-   * - Imágenes (original/editada/mejorada/actual)
+   * - Imágenes (original/editada/mejorada/actual) y páginas del PDF
    * - Datos OCR
+   * - Sesión de dos lados (vuelve al anverso si está activa)
+   * - Correcciones (el escaneo ya quedó guardado en el historial)
    * - Estados de loading
    * ---------------------------------------------------------
    */
@@ -720,7 +1393,17 @@ const App: React.FC = () => {
     setOriginalImage('');
     setEditedImage('');
     setEnhancedImage('');
+    setPreprocessed([]);
+    setCaptureFrames([]);
+    setDocumentPages([]);
     setOcrData(null);
+    setOcrError(null);
+    setSession({ anverso: null, reverso: null });
+    setCorrections([]);
+    setHistoryId(null);
+    if (sessionMode) {
+      setIsReverso(false);
+    }
     setIsImageLoading(false);
     toast.info('🔄 Aplicación reiniciada');
   };
@@ -733,6 +1416,7 @@ const App: React.FC = () => {
    *
    * Paso 0: ImageUploader
    * - Seleccionar imagen desde archivo o abrir cámara
+   * - En modo lote, debajo se muestra la cola (BatchQueue)
    *
    * Paso 1: ImageEditor
    * - Editar imagen (crop/rotate/historial)
@@ -758,11 +1442,30 @@ const App: React.FC = () => {
     switch (step) {
       case 0:
         return (
-          <ImageUploader
-            onImageSelect={handleImageSelect}
-            onCameraOpen={() => setCameraOpen(true)}
-          // 🔧 Cambio: Eliminar la prop isMobile que no existe en ImageUploaderProps
-          />
+          <>
+            <ImageUploader
+              onImageSelect={handleImageSelect}
+              onCameraOpen={() => setCameraOpen(true)}
+              isReverso={isReverso}
+              onSideChange={handleSideChange}
+              sessionMode={sessionMode}
+              onSessionModeChange={handleSessionModeChange}
+              batchMode={batchMode}
+              onBatchModeChange={handleBatchModeChange}
+              onFilesSelect={handleBatchFiles}
+              documentPages={documentPages}
+              onDocumentPagesChange={setDocumentPages}
+            // 🔧 Cambio: Eliminar la prop isMobile que no existe en ImageUploaderProps
+            />
+            {/* 📚 Cola del lote (sigue visible aunque se apague el modo) */}
+            <BatchQueue
+              items={batch.items}
+              onRetry={batch.retry}
+              onRemove={batch.remove}
+              onClearCompleted={batch.clearCompleted}
+              referenceDate={VIGENCIA_REFERENCE_DATE}
+            />
+          </>
         );
 
       case 1:
@@ -852,10 +1555,23 @@ const App: React.FC = () => {
             enhancedImage={enhancedImage}
             currentImage={imageSrc}
             isProcessing={enhancing}
+            enhanceProgress={enhanceProgress}
+            onCancelEnhance={handleCancelEnhance}
+            ocrLoading={loading}
+            ocrProgress={ocrProgress}
+            onCancelOCR={handleCancelOCR}
             onUseOriginal={() => handleSelectImage('original')}
             onUseEdited={() => handleSelectImage('edited')}
             onUseEnhanced={() => handleSelectImage('enhanced')}
             onEnhance={handleEnhanceImage}
+            candidates={preprocessed}
+            preprocessing={preprocessing}
+            onPreprocess={handlePreprocess}
+            onUseCandidate={handleSelectCandidate}
+            frames={captureFrames}
+            onUseFrame={handleSelectFrame}
+            quality={quality.report}
+            analyzingQuality={quality.analyzing}
           // 🔧 Cambio: Eliminar la prop isMobile que no existe en PreviewPanelProps
           />
         );
@@ -866,20 +1582,35 @@ const App: React.FC = () => {
          * - Recibe data (ocrData)
          * - Recibe loading y modo reverso
          * - Se le pasa la imagen actual como procesada (para comparación)
+         *
+         * 🧬 IdentityRecord
+         * - Solo en modo sesión, cuando ya se procesaron ambos lados
          */
         return (
-          <OCRResults
-            data={ocrData}
-            isReverso={isReverso}
-            loading={loading}
-            processedImage={imageSrc} // 🖼️ Pasar la imagen actual como procesada
-            imageComparison={{
-              originalImage: originalImage, // Imagen original sin editar
-              processedImage: imageSrc, // Imagen que se procesó (puede estar editada)
-              // confidence: ocrData?.confidence // Si tu API devuelve confianza
-            }}
-          // 🔧 Cambio: Eliminar la prop isMobile que no existe en OCRResultsProps
-          />
+          <Box sx={{ width: '100%' }}>
+            <OCRResults
+              data={ocrData}
+              isReverso={isReverso}
+              loading={loading}
+              progress={ocrProgress}
+              onCancel={handleCancelOCR}
+              error={resultError}
+              onRetry={imageSrc ? handleProcessOCR : undefined}
+              referenceDate={VIGENCIA_REFERENCE_DATE}
+              corrections={corrections.filter((c) => c.lado === (isReverso ? 'reverso' : 'anverso'))}
+              onCorrectField={handleCorrectField}
+              processedImage={imageSrc} // 🖼️ Pasar la imagen actual como procesada
+              imageComparison={{
+                originalImage: originalImage, // Imagen original sin editar
+                processedImage: imageSrc, // Imagen que se procesó (puede estar editada)
+                // confidence: ocrData?.confidence // Si tu API devuelve confianza
+              }}
+            // 🔧 Cambio: Eliminar la prop isMobile que no existe en OCRResultsProps
+            />
+            {sessionMode && session.anverso && session.reverso && (
+              <IdentityRecord identity={mergeIdentity(session.anverso, session.reverso, VIGENCIA_REFERENCE_DATE)} />
+            )}
+          </Box>
         );
 
       default:
@@ -1122,6 +1853,24 @@ const App: React.FC = () => {
             />
           </ListItem>
 
+          {/* 🗂️ Historial de escaneos (IndexedDB) */}
+          <ListItem
+            button
+            onClick={() => {
+              setHistoryOpen(true);
+              setDrawerOpen(false);
+            }}
+            sx={{ py: isMobile ? 1 : 1.5 }}
+          >
+            <ListItemIcon sx={{ minWidth: isMobile ? 40 : 56 }}>
+              <HistoryIcon fontSize={isMobile ? "small" : "medium"} />
+            </ListItemIcon>
+            <ListItemText
+              primary="Historial"
+              primaryTypographyProps={{ fontSize: isMobile ? '0.9rem' : '1rem' }}
+            />
+          </ListItem>
+
           {/* 🚪 Cerrar sesión (siempre visible) */}
           <ListItem
             button
@@ -1150,6 +1899,30 @@ const App: React.FC = () => {
         </List>
       </Drawer>
 
+      {/* 🗂️ Historial de escaneos */}
+      <HistoryDialog
+        open={historyOpen}
+        onClose={() => setHistoryOpen(false)}
+        onReopen={handleReopenHistory}
+        onDeleted={(id) => {
+          if (id === historyId) setHistoryId(null);
+        }}
+      />
+
+      {/* 🚦 Aviso de calidad antes del OCR */}
+      <QualityGateDialog
+        report={qualityGate}
+        onClose={() => setQualityGate(null)}
+        onEdit={() => {
+          setQualityGate(null);
+          setActiveStep(1);
+        }}
+        onConfirm={() => {
+          setQualityGate(null);
+          handleProcessOCR();
+        }}
+      />
+
       {/* 🎯 Contenido principal responsivo */}
       <Box component="main" sx={{
         flexGrow: 1,
@@ -1168,6 +1941,16 @@ const App: React.FC = () => {
           // 📱 Sin máximo en móviles
           maxWidth: { xs: '100%', sm: 'lg' }
         }}>
+          {/* ⏳ Aviso de sesión por vencer */}
+          {sessionExpiry.warning && sessionExpiry.remainingMs !== null && (
+            <SessionExpiryBanner
+              remainingMs={sessionExpiry.remainingMs}
+              refreshing={sessionExpiry.refreshing}
+              error={sessionExpiry.error}
+              onContinue={sessionExpiry.refresh}
+            />
+          )}
+
           {/* 📊 Stepper responsivo */}
           <Paper elevation={2} sx={{
             p: { xs: 1.5, sm: 3 },
@@ -1191,7 +1974,7 @@ const App: React.FC = () => {
                 }
               }}
             >
-              {steps.map((label) => (
+              {getSteps(isReverso).map((label) => (
                 <Step key={label}>
                   <StepLabel
                     sx={{
@@ -1271,7 +2054,7 @@ const App: React.FC = () => {
                 <Button
                   variant="contained"
                   color="success"
-                  onClick={handleProcessOCR}
+                  onClick={handleRequestOCR}
                   disabled={loading || !imageSrc}
                   startIcon={loading ? <CircularProgress size={20} /> : <>🔍</>}
                   fullWidth={isMobile}
@@ -1281,9 +2064,32 @@ const App: React.FC = () => {
                   }}
                   size={isMobile ? "small" : "medium"}
                 >
-                  {loading ? 'Procesando...' : 'Procesar OCR'}
+                  {loading ? 'Procesando...' : `Procesar ${isReverso ? 'Reverso' : 'Anverso'}`}
+                </Button>
+              )}
+
+              {/* 🔁 Continuar sesión con el reverso */}
+              {activeStep === 3 && sessionMode && !isReverso && session.anverso && (
+                <Button
+                  variant="contained"
+                  color="secondary"
+                  onClick={handleContinueSession}
+                  endIcon={<>→</>}
+                  fullWidth={isMobile}
+                  sx={{
+                    fontSize: { xs: '0.875rem', sm: '1rem' },
+                    py: { xs: 1, sm: 1.5 }
+                  }}
+                  size={isMobile ? "small" : "medium"}
+                >
+                  🔙 Capturar Reverso
                 </Button>
               )}
+
+              {/* ⬇️ Exportar resultados */}
+              {activeStep === 3 && ocrData && (
+                <ExportMenu getRecord={getExportRecord} disabled={loading} isMobile={isMobile} />
+              )}
             </Box>
           </Box>
 
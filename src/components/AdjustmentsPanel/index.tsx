@@ -0,0 +1,108 @@
+/**
+ * 🎛️ AdjustmentsPanel.tsx
+ * =========================================================
+ * 🎯 Panel de sliders para los ajustes de imagen del editor
+ *
+ * ✅ Controles (`ADJUSTMENT_CONTROLS`):
+ * - ☀️ Brillo, 🌓 Contraste, 🌈 Saturación
+ * - 🌫️ Desenfoque, 🔪 Nitidez, 🔍 Escala
+ *
+ * 🧠 Integración con ImageEditor:
+ * - El editor guarda los ajustes y dibuja la vista previa
+ * - Este panel solo edita los valores y dispara aplicar/restablecer
+ *
+ * 📘 Estilo de documentación:
+ * - AngularDoc/JSDoc + emojis 😄
+ * =========================================================
+ */
+
+import React from 'react';
+import Slider from 'rc-slider';
+import 'rc-slider/assets/index.css';
+import { Box, Button, Card, Typography } from '@mui/material';
+import type { ImageAdjustments } from '../../types';
+import { ADJUSTMENT_CONTROLS, DEFAULT_ADJUSTMENTS, isNeutralAdjustments } from '../../utils/adjustments';
+
+/**
+ * 🧩 AdjustmentsPanelProps
+ * ---------------------------------------------------------
+ * ✅ value / onChange: ajustes actuales (controlados por el editor)
+ * ✅ onApply: hornea los ajustes en la imagen
+ * ✅ outputSize: tamaño final con la escala aplicada
+ * ✅ disabled: bloquea el panel mientras se procesa
+ * ---------------------------------------------------------
+ */
+interface AdjustmentsPanelProps {
+  value: ImageAdjustments;
+  onChange: (value: ImageAdjustments) => void;
+  onApply: () => void;
+  outputSize: { width: number; height: number };
+  disabled?: boolean;
+}
+
+/**
+ * 🎛️ AdjustmentsPanel
+ * =========================================================
+ * Un slider por ajuste + botones Restablecer / Aplicar.
+ * =========================================================
+ */
+const AdjustmentsPanel: React.FC<AdjustmentsPanelProps> = ({ value, onChange, onApply, outputSize, disabled = false }) => {
+  const neutral = isNeutralAdjustments(value);
+
+  return (
+    <Card variant="outlined" sx={{ p: 2, mt: 2 }}>
+      <Typography variant="subtitle2" gutterBottom>
+        🎛️ Ajustes de imagen
+      </Typography>
+
+      {ADJUSTMENT_CONTROLS.map((control) => (
+        <Box key={control.campo} sx={{ mb: 1.5 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+            <Typography variant="caption">{control.etiqueta}</Typography>
+            <Typography variant="caption" color="text.secondary">
+              {value[control.campo]}{control.unidad}
+            </Typography>
+          </Box>
+          <Box
+            sx={{ px: 1 }}
+            onDoubleClick={() => !disabled && onChange({ ...value, [control.campo]: DEFAULT_ADJUSTMENTS[control.campo] })}
+          >
+            <Slider
+              min={control.min}
+              max={control.max}
+              step={control.step}
+              value={value[control.campo]}
+              disabled={disabled}
+              onChange={(v) => onChange({ ...value, [control.campo]: Array.isArray(v) ? v[0] : v })}
+            />
+          </Box>
+        </Box>
+      ))}
+
+      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+        📐 Resultado: {outputSize.width} × {outputSize.height}px · doble clic en un slider lo restablece
+      </Typography>
+
+      <Box sx={{ display: 'flex', gap: 1, justifyContent: 'flex-end' }}>
+        <Button
+          size="small"
+          onClick={() => onChange(DEFAULT_ADJUSTMENTS)}
+          disabled={disabled || neutral}
+        >
+          Restablecer
+        </Button>
+        <Button
+          size="small"
+          variant="contained"
+          color="success"
+          onClick={onApply}
+          disabled={disabled || neutral}
+        >
+          ✅ Aplicar ajustes
+        </Button>
+      </Box>
+    </Card>
+  );
+};
+
+export default AdjustmentsPanel;
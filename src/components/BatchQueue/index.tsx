@@ -0,0 +1,265 @@
+/**
+ * 📚 BatchQueue.tsx
+ * =========================================================
+ * 🎯 Lista de la cola de procesamiento por lote
+ *
+ * ✅ Muestra por archivo:
+ * - 🖼️ Miniatura, nombre y lado
+ * - 🚦 Estado + 📊 progreso de subida
+ * - ❌ Motivo del fallo (si lo hubo)
+ *
+ * ✅ Acciones:
+ * - 👁️ Revisar el resultado (OCRResults en modo lectura)
+ * - 🔁 Reintentar uno o todos los fallidos
+ * - 🗑️ Quitar un archivo / 🧹 limpiar completados
+ *
+ * 🧠 Integración con App.tsx:
+ * - La cola vive en `useBatchQueue`; este componente solo la pinta
+ *   y dispara sus acciones.
+ *
+ * 📘 Estilo de documentación:
+ * - AngularDoc/JSDoc + emojis 😄
+ * =========================================================
+ */
+
+import React, { useState } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Button,
+  Chip,
+  IconButton,
+  Tooltip,
+  LinearProgress,
+  List,
+  ListItem,
+  ListItemAvatar,
+  ListItemText,
+  Avatar,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  useTheme,
+  useMediaQuery
+} from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import VisibilityIcon from '@mui/icons-material/Visibility';
+import ReplayIcon from '@mui/icons-material/Replay';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import type { BatchItem, BatchItemEstado } from '../../types';
+import OCRResults from '../OCRResults';
+
+/**
+ * 🧩 BatchQueueProps
+ * ---------------------------------------------------------
+ * ✅ items: elementos de la cola
+ * ✅ onRetry: reintenta uno (id) o todos los fallidos (sin id)
+ * ✅ onRemove: quita un elemento
+ * ✅ onClearCompleted: quita los completados
+ * ✅ referenceDate: fecha de referencia para la vigencia
+ * ---------------------------------------------------------
+ */
+interface BatchQueueProps {
+  items: BatchItem[];
+  onRetry: (id?: string) => void;
+  onRemove: (id: string) => void;
+  onClearCompleted: () => void;
+  referenceDate?: Date;
+}
+
+/**
+ * 🚦 estadoChip
+ * - Etiqueta y color de cada estado.
+ */
+const estadoChip: Record<BatchItemEstado, { label: string; color: 'default' | 'info' | 'success' | 'error' }> = {
+  pendiente: { label: '⏳ Pendiente', color: 'default' },
+  procesando: { label: '🔄 Procesando', color: 'info' },
+  completado: { label: '✅ Completado', color: 'success' },
+  error: { label: '❌ Error', color: 'error' }
+};
+
+/**
+ * 📚 BatchQueue
+ * =========================================================
+ * Resumen del lote + lista de archivos + modal de revisión.
+ * =========================================================
+ */
+const BatchQueue: React.FC<BatchQueueProps> = ({ items, onRetry, onRemove, onClearCompleted, referenceDate }) => {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+
+  /**
+   * 👁️ reviewId
+   * - Elemento abierto en el modal de revisión (null = cerrado).
+   * - Se guarda el id para que el modal refleje la cola actual.
+   */
+  const [reviewId, setReviewId] = useState<string | null>(null);
+  const reviewItem = items.find((item) => item.id === reviewId);
+
+  if (items.length === 0) return null;
+
+  /** 📊 Conteo por estado */
+  const count = (estado: BatchItemEstado) => items.filter((item) => item.estado === estado).length;
+  const completed = count('completado');
+  const failed = count('error');
+  const finished = completed + failed;
+
+  return (
+    <Paper elevation={3} sx={{ p: { xs: 2, sm: 3 }, mt: 3, borderRadius: 3 }}>
+      {/* 📊 Resumen */}
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1, mb: 1 }}>
+        <Typography variant="h6" sx={{ flexGrow: 1 }}>
+          📚 Lote ({finished}/{items.length})
+        </Typography>
+        <Chip size="small" label={`⏳ ${count('pendiente')}`} />
+        <Chip size="small" color="info" label={`🔄 ${count('procesando')}`} />
+        <Chip size="small" color="success" label={`✅ ${completed}`} />
+        <Chip size="small" color="error" label={`❌ ${failed}`} />
+      </Box>
+
+      <LinearProgress
+        variant="determinate"
+        value={(finished / items.length) * 100}
+        color={failed > 0 ? 'warning' : 'primary'}
+        sx={{ mb: 2, height: 8, borderRadius: 4 }}
+      />
+
+      <Box sx={{ display: 'flex', flexDirection: isMobile ? 'column' : 'row', gap: 1, mb: 1 }}>
+        <Button
+          variant="outlined"
+          color="warning"
+          startIcon={<ReplayIcon />}
+          onClick={() => onRetry()}
+          disabled={failed === 0}
+          size="small"
+        >
+          Reintentar fallidos
+        </Button>
+        <Button
+          variant="outlined"
+          startIcon={<DeleteOutlineIcon />}
+          onClick={onClearCompleted}
+          disabled={completed === 0}
+          size="small"
+        >
+          Limpiar completados
+        </Button>
+      </Box>
+
+      {/* 📋 Archivos */}
+      <List disablePadding>
+        {items.map((item) => (
+          <ListItem
+            key={item.id}
+            divider
+            secondaryAction={
+              <Box>
+                {item.estado === 'completado' && (
+                  <Tooltip title="Revisar resultado">
+                    <IconButton edge="end" onClick={() => setReviewId(item.id)} sx={{ mr: 0.5 }}>
+                      <VisibilityIcon />
+                    </IconButton>
+                  </Tooltip>
+                )}
+                {item.estado === 'error' && (
+                  <Tooltip title="Reintentar">
+                    <IconButton edge="end" color="warning" onClick={() => onRetry(item.id)} sx={{ mr: 0.5 }}>
+                      <ReplayIcon />
+                    </IconButton>
+                  </Tooltip>
+                )}
+                <Tooltip title="Quitar">
+                  <span>
+                    <IconButton
+                      edge="end"
+                      onClick={() => onRemove(item.id)}
+                      disabled={item.estado === 'procesando'}
+                    >
+                      <DeleteOutlineIcon />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+              </Box>
+            }
+            sx={{ pr: 12 }}
+          >
+            <ListItemAvatar>
+              <Avatar
+                variant="rounded"
+                src={item.preview}
+                alt={item.file.name}
+                sx={{ width: 72, height: 48, mr: 2 }}
+              />
+            </ListItemAvatar>
+            <ListItemText
+              primary={item.file.name}
+              primaryTypographyProps={{ noWrap: true }}
+              secondaryTypographyProps={{ component: 'div' }}
+              secondary={
+                <>
+                  <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 0.5, mt: 0.5 }}>
+                    <Chip
+                      size="small"
+                      label={item.lado === 'reverso' ? '🔙 Reverso' : '🪪 Anverso'}
+                      color={item.lado === 'reverso' ? 'secondary' : 'primary'}
+                      variant="outlined"
+                    />
+                    <Chip size="small" label={estadoChip[item.estado].label} color={estadoChip[item.estado].color} />
+                    {item.intentos > 1 && (
+                      <Typography component="span" variant="caption">
+                        🔁 Intento {item.intentos}
+                      </Typography>
+                    )}
+                  </Box>
+                  {item.estado === 'procesando' && (
+                    <LinearProgress variant="determinate" value={item.progreso} sx={{ mt: 1 }} />
+                  )}
+                  {item.estado === 'error' && item.error && (
+                    <Typography variant="caption" color="error" sx={{ display: 'block', mt: 0.5 }}>
+                      {item.error}
+                    </Typography>
+                  )}
+                </>
+              }
+            />
+          </ListItem>
+        ))}
+      </List>
+
+      {/* 👁️ Revisión de un resultado */}
+      <Dialog
+        open={Boolean(reviewItem?.data)}
+        onClose={() => setReviewId(null)}
+        maxWidth="md"
+        fullWidth
+        fullScreen={isMobile}
+      >
+        <DialogTitle sx={{ pr: 6 }}>
+          👁️ {reviewItem?.file.name}
+          <IconButton
+            aria-label="close"
+            onClick={() => setReviewId(null)}
+            sx={{ position: 'absolute', right: 8, top: 8 }}
+          >
+            <CloseIcon />
+          </IconButton>
+        </DialogTitle>
+        <DialogContent dividers>
+          {reviewItem?.data && (
+            <OCRResults
+              data={reviewItem.data}
+              isReverso={reviewItem.lado === 'reverso'}
+              loading={false}
+              processedImage={reviewItem.preview}
+              isMobile={isMobile}
+              referenceDate={referenceDate}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </Paper>
+  );
+};
+
+export default BatchQueue;
@@ -7,12 +7,20 @@
  * de la cámara del dispositivo y permite:
  *
  * ✅ Capturar una foto en formato `image/jpeg` (como DataURL)
+ * 🪪 Encuadrar la credencial con un marco en forma ID-1
+ * 🎯 Ver indicaciones en vivo (distancia, inclinación, nitidez, reflejos)
+ * ⚡ Disparo automático cuando la credencial está lista y quieta
+ * 🔎 Revisar la calidad de la foto antes de usarla (o repetirla)
  * 🔄 Cambiar entre cámara **frontal** y **trasera**
+ * 🎥 Elegir una cámara conectada (se recuerda la última) y su resolución
+ * 🔦 Encender la linterna si la cámara la soporta
+ * 🎞️ Ráfaga: varias tomas ordenadas por nitidez y reflejos (se usa la mejor)
  * ❌ Cerrar el modal (cancelar)
  *
  * 🧠 Integración:
  * - El padre (App.tsx) controla `open`
- * - Al capturar:
+ * - Al capturar se muestra la foto con su reporte de calidad
+ * - Al confirmar “Usar foto”:
  *   - Se llama `onCapture(imageSrc)`
  *   - Se cierra el modal con `onClose()`
  *
@@ -29,10 +37,38 @@
 
 import React, { useRef, useState, useCallback } from 'react';
 import Webcam from 'react-webcam';
-import { Box, Button, Dialog, DialogTitle, DialogContent, IconButton } from '@mui/material';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  IconButton,
+  Alert,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  Tooltip,
+  LinearProgress,
+  Switch,
+  Typography
+} from '@mui/material';
 import CloseIcon from '@mui/icons-material/Close';
 import CameraAltIcon from '@mui/icons-material/CameraAlt';
 import FlipCameraIosIcon from '@mui/icons-material/FlipCameraIos';
+import ReplayIcon from '@mui/icons-material/Replay';
+import CheckCircleIcon from '@mui/icons-material/CheckCircle';
+import FlashOnIcon from '@mui/icons-material/FlashOn';
+import FlashOffIcon from '@mui/icons-material/FlashOff';
+import QualityIndicator from '../QualityIndicator';
+import { useImageQuality } from '../../hooks/useImageQuality';
+import { useLiveFrameFeedback } from '../../hooks/useLiveFrameFeedback';
+import { FRAME_MESSAGES, guideRect } from '../../utils/liveCapture';
+import { CAMERA_PRESETS, cameraService } from '../../services/camera';
+import { BURST_FRAMES, BURST_INTERVAL_MS, rankFrames } from '../../utils/burst';
+import type { CaptureFrame } from '../../types';
 
 /**
  * 🧩 CameraCaptureProps
@@ -48,12 +84,13 @@ import FlipCameraIosIcon from '@mui/icons-material/FlipCameraIos';
  * ✅ onCapture:
  * - Callback que entrega la imagen capturada al componente padre.
  * - `imageSrc` viene como DataURL (ej: "data:image/jpeg;base64,...")
+ * - `frames` (solo en ráfaga): todas las tomas, de mejor a peor
  * ---------------------------------------------------------
  */
 interface CameraCaptureProps {
   open: boolean;
   onClose: () => void;
-  onCapture: (imageSrc: string) => void;
+  onCapture: (imageSrc: string, frames?: CaptureFrame[]) => void;
 }
 
 /**
@@ -97,6 +134,75 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ open, onClose, onCapture
    */
   const [facingMode, setFacingMode] = useState<'user' | 'environment'>('environment');
 
+  /**
+   * 🎥 devices / deviceId
+   * ---------------------------------------------------------
+   * Cámaras conectadas y la elegida ('' = automática por
+   * `facingMode`). La elección se guarda en localStorage.
+   * ---------------------------------------------------------
+   */
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState(cameraService.getSavedDeviceId);
+
+  /**
+   * 📐 presetId
+   * - Resolución / proporción pedida (`CAMERA_PRESETS`).
+   */
+  const [presetId, setPresetId] = useState(cameraService.getSavedPresetId);
+
+  /**
+   * 🔦 torch
+   * - available: la pista actual soporta linterna
+   * - on: linterna encendida
+   */
+  const [torch, setTorch] = useState({ available: false, on: false });
+
+  /**
+   * ❌ cameraError
+   * - Mensaje si el navegador no pudo abrir la cámara.
+   */
+  const [cameraError, setCameraError] = useState('');
+
+  /** 🎥 Stream activo (para la linterna) */
+  const streamRef = useRef<MediaStream | null>(null);
+
+  /**
+   * 🖼️ captured
+   * ---------------------------------------------------------
+   * Foto recién tomada, en revisión (vacío = cámara en vivo).
+   * Su calidad se analiza con `useImageQuality`.
+   * ---------------------------------------------------------
+   */
+  const [captured, setCaptured] = useState('');
+  const quality = useImageQuality(captured);
+
+  /**
+   * 🎞️ burst / frames / capturing
+   * ---------------------------------------------------------
+   * - burst: toma `BURST_FRAMES` fotos y se queda con la mejor
+   * - frames: tomas de la última ráfaga, de mejor a peor
+   * - capturing: ráfaga en curso (pausa el análisis en vivo)
+   * ---------------------------------------------------------
+   */
+  const [burst, setBurst] = useState(false);
+  const [frames, setFrames] = useState<CaptureFrame[]>([]);
+  const [capturing, setCapturing] = useState(false);
+
+  /**
+   * ⚡ autoShutter
+   * - Dispara solo cuando la credencial está lista y quieta.
+   */
+  const [autoShutter, setAutoShutter] = useState(true);
+
+  /**
+   * 📐 videoAspect
+   * ---------------------------------------------------------
+   * Proporción real del video (ancho / alto). El contenedor la
+   * copia para que el marco guía coincida con el cuadro analizado.
+   * ---------------------------------------------------------
+   */
+  const [videoAspect, setVideoAspect] = useState(16 / 9);
+
   // 📸 Capturar foto
   /**
    * 📸 capture
@@ -108,21 +214,90 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ open, onClose, onCapture
    * - DataURL (string) o `null` si no hay captura
    *
    * ✅ Si hay imagen:
-   * - Llama `onCapture(imageSrc)` para enviarla al padre
-   * - Llama `onClose()` para cerrar el modal
+   * - La guarda en `captured` para revisar su calidad
+   * - El envío al padre ocurre en `confirmCapture`
+   *
+   * 🎞️ En ráfaga toma varias fotos seguidas, las ordena con
+   * `rankFrames` y deja en revisión la mejor.
    *
    * 🧠 useCallback:
    * - Evita recrear la función en cada render
    * - Útil por performance y estabilidad de referencias
    * ---------------------------------------------------------
    */
-  const capture = useCallback(() => {
-    const imageSrc = webcamRef.current?.getScreenshot();
-    if (imageSrc) {
-      onCapture(imageSrc);
-      onClose();
+  const capture = useCallback(async () => {
+    if (!burst) {
+      const imageSrc = webcamRef.current?.getScreenshot();
+      if (imageSrc) {
+        setFrames([]);
+        setCaptured(imageSrc);
+      }
+      return;
+    }
+
+    setCapturing(true);
+    try {
+      const shots: string[] = [];
+      for (let i = 0; i < BURST_FRAMES; i++) {
+        const shot = webcamRef.current?.getScreenshot();
+        if (shot) shots.push(shot);
+        if (i < BURST_FRAMES - 1) await new Promise((resolve) => setTimeout(resolve, BURST_INTERVAL_MS));
+      }
+      if (shots.length === 0) return;
+
+      const ranked = await rankFrames(shots);
+      console.log('🎞️ Ráfaga ordenada:', ranked.map((frame) => frame.puntaje));
+      setFrames(ranked);
+      setCaptured(ranked[0].imagen);
+    } catch (error) {
+      console.error('❌ Error en la ráfaga:', error);
+    } finally {
+      setCapturing(false);
     }
-  }, [webcamRef, onCapture, onClose]);
+  }, [webcamRef, burst]);
+
+  /**
+   * 🎯 Retroalimentación en vivo (solo con la cámara a la vista)
+   */
+  const getVideo = useCallback(() => webcamRef.current?.video ?? null, []);
+  const live = useLiveFrameFeedback({
+    getVideo,
+    enabled: open && !captured && !capturing,
+    autoShutter,
+    onAutoCapture: capture
+  });
+
+  /**
+   * 🔲 guide
+   * - Marco ID-1 en porcentaje del contenedor.
+   */
+  const guide = guideRect(videoAspect, 1);
+  const guideColor = live.feedback?.estado === 'lista' ? 'success.main' : live.feedback?.quad ? 'warning.main' : 'common.white';
+
+  /**
+   * ❌ handleClose
+   * - Cierra el modal y descarta la foto en revisión.
+   */
+  const handleClose = () => {
+    setCaptured('');
+    setFrames([]);
+    onClose();
+  };
+
+  /**
+   * ✅ confirmCapture
+   * ---------------------------------------------------------
+   * Usa la foto revisada:
+   * - Llama `onCapture(imageSrc, frames)` para enviarla al padre
+   *   (con la ráfaga, si la hubo, para elegir otra toma después)
+   * - Llama `onClose()` para cerrar el modal
+   * ---------------------------------------------------------
+   */
+  const confirmCapture = () => {
+    if (!captured) return;
+    onCapture(captured, frames.length > 0 ? frames : undefined);
+    handleClose();
+  };
 
   // 🔄 Cambiar cámara (frontal/trasera)
   /**
@@ -140,14 +315,80 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ open, onClose, onCapture
     setFacingMode(prev => prev === 'user' ? 'environment' : 'user');
   };
 
+  /**
+   * 🎥 changeDevice / changePreset
+   * - Cambian la cámara o la resolución y las recuerdan.
+   */
+  const changeDevice = (id: string) => {
+    setDeviceId(id);
+    cameraService.saveDeviceId(id);
+  };
+  const changePreset = (id: string) => {
+    setPresetId(id);
+    cameraService.savePresetId(id);
+  };
+
+  /**
+   * 🎥 handleUserMedia
+   * ---------------------------------------------------------
+   * La cámara abrió: guarda el stream, revisa la linterna y
+   * lista las cámaras (los nombres ya están disponibles).
+   * Si la cámara guardada ya no existe, vuelve a automática.
+   * ---------------------------------------------------------
+   */
+  const handleUserMedia = (stream: MediaStream) => {
+    streamRef.current = stream;
+    setTorch({ available: cameraService.supportsTorch(stream), on: false });
+
+    cameraService.listDevices()
+      .then((list) => {
+        setDevices(list);
+        if (deviceId && !list.some((device) => device.deviceId === deviceId)) {
+          console.warn('⚠️ La cámara guardada ya no está conectada');
+          changeDevice('');
+        }
+      })
+      .catch((error) => console.warn('⚠️ No se pudieron listar las cámaras:', error));
+  };
+
+  /**
+   * ❌ handleUserMediaError
+   * - Si falló una cámara elegida, se regresa a la automática.
+   */
+  const handleUserMediaError = (error: string | DOMException) => {
+    console.error('❌ Error al abrir la cámara:', error);
+    streamRef.current = null;
+    setTorch({ available: false, on: false });
+    if (deviceId) {
+      changeDevice('');
+      setCameraError('⚠️ No se pudo abrir la cámara elegida; se usa la automática.');
+    } else {
+      setCameraError('❌ No se pudo abrir la cámara. Revisa los permisos del navegador.');
+    }
+  };
+
+  /**
+   * 🔦 toggleTorch
+   * - Enciende / apaga la linterna de la pista actual.
+   */
+  const toggleTorch = () => {
+    const next = !torch.on;
+    cameraService.setTorch(streamRef.current, next)
+      .then(() => setTorch({ available: true, on: next }))
+      .catch((error) => {
+        console.warn('⚠️ La cámara rechazó la linterna:', error);
+        setTorch({ available: false, on: false });
+      });
+  };
+
   /**
    * 🧩 Render del modal
    * =========================================================
    * UI principal:
    * - <Dialog> (MUI) controlado por `open`
    * - <Webcam> con constraints:
-   *   - facingMode
-   *   - width/height ideal
+   *   - deviceId (o facingMode si es automática)
+   *   - width/height/aspectRatio del preset
    *
    * Controles:
    * - Botón para cambiar cámara
@@ -155,7 +396,7 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ open, onClose, onCapture
    * =========================================================
    */
   return (
-    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+    <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
       <DialogTitle>
         📸 Tomar Foto
 
@@ -165,7 +406,7 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ open, onClose, onCapture
          */}
         <IconButton
           aria-label="close"
-          onClick={onClose}
+          onClick={handleClose}
           sx={{ position: 'absolute', right: 8, top: 8 }}
         >
           <CloseIcon />
@@ -175,49 +416,221 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ open, onClose, onCapture
       <DialogContent>
         {/**
          * 🎥 Contenedor de cámara
-         * - Mantiene una altura fija (400px) para layout consistente
+         * - Copia la proporción del video (el marco guía coincide con
+         *   el cuadro que se analiza)
          * - <Webcam> ocupa todo el contenedor (cover)
          */}
-        <Box sx={{ position: 'relative', width: '100%', height: 400 }}>
-          <Webcam
-            audio={false}
-            ref={webcamRef}
-            screenshotFormat="image/jpeg"
-            videoConstraints={{
-              facingMode: facingMode,
-              width: { ideal: 1280 },
-              height: { ideal: 720 }
-            }}
-            style={{ width: '100%', height: '100%', objectFit: 'cover', borderRadius: 8 }}
-          />
-        </Box>
+        {captured ? (
+          <>
+            {/* 🖼️ Foto en revisión + reporte de calidad */}
+            <Box
+              component="img"
+              src={captured}
+              alt="Foto capturada"
+              sx={{ width: '100%', height: 400, objectFit: 'contain', borderRadius: 2, bgcolor: 'grey.900' }}
+            />
+            {/* 🎞️ Tomas de la ráfaga (de mejor a peor) */}
+            {frames.length > 1 && (
+              <Box sx={{ display: 'flex', gap: 1, mt: 1, overflowX: 'auto' }}>
+                {frames.map((frame, i) => (
+                  <Tooltip key={i} title={`Nitidez ${Math.round(frame.nitidez)} · reflejos ${(frame.reflejos * 100).toFixed(1)}%`}>
+                    <Box
+                      onClick={() => setCaptured(frame.imagen)}
+                      sx={{
+                        position: 'relative',
+                        flex: '0 0 auto',
+                        cursor: 'pointer',
+                        border: '3px solid',
+                        borderColor: frame.imagen === captured ? 'primary.main' : 'transparent',
+                        borderRadius: 1
+                      }}
+                    >
+                      <Box component="img" src={frame.imagen} alt={`Toma ${i + 1}`} sx={{ height: 64, display: 'block', borderRadius: 0.5 }} />
+                      <Typography
+                        variant="caption"
+                        sx={{ position: 'absolute', left: 2, bottom: 0, px: 0.5, color: 'common.white', bgcolor: 'rgba(0, 0, 0, 0.6)', borderRadius: 0.5 }}
+                      >
+                        {i === 0 ? '🏆 ' : ''}{frame.puntaje}
+                      </Typography>
+                    </Box>
+                  </Tooltip>
+                ))}
+              </Box>
+            )}
 
-        {/**
-         * 🎛️ Controles de acciones
-         * - Cambiar cámara
-         * - Capturar foto
-         */}
-        <Box sx={{ mt: 3, display: 'flex', justifyContent: 'center', gap: 2 }}>
-          {/* 🔄 Cambiar cámara */}
-          <Button
-            variant="outlined"
-            startIcon={<FlipCameraIosIcon />}
-            onClick={switchCamera}
-          >
-            {facingMode === 'user' ? '📱 Frontal' : '📷 Trasera'}
-          </Button>
-
-          {/* 📸 Tomar foto */}
-          <Button
-            variant="contained"
-            color="primary"
-            startIcon={<CameraAltIcon />}
-            onClick={capture}
-            size="large"
-          >
-            Capturar
-          </Button>
-        </Box>
+            <QualityIndicator report={quality.report} analyzing={quality.analyzing} />
+
+            <Box sx={{ display: 'flex', justifyContent: 'center', gap: 2 }}>
+              {/* 🔄 Repetir */}
+              <Button variant="outlined" startIcon={<ReplayIcon />} onClick={() => setCaptured('')}>
+                Repetir
+              </Button>
+
+              {/* ✅ Usar foto */}
+              <Button
+                variant="contained"
+                color={quality.report && quality.report.nivel !== 'ok' ? 'warning' : 'primary'}
+                startIcon={<CheckCircleIcon />}
+                onClick={confirmCapture}
+                disabled={quality.analyzing}
+                size="large"
+              >
+                Usar foto
+              </Button>
+            </Box>
+          </>
+        ) : (
+          <>
+            {cameraError && (
+              <Alert severity="warning" sx={{ mb: 2 }} onClose={() => setCameraError('')}>
+                {cameraError}
+              </Alert>
+            )}
+
+            <Box
+              sx={{
+                position: 'relative',
+                width: '100%',
+                maxWidth: 480 * videoAspect,
+                aspectRatio: `${videoAspect}`,
+                mx: 'auto',
+                overflow: 'hidden',
+                borderRadius: 2
+              }}
+            >
+              <Webcam
+                audio={false}
+                ref={webcamRef}
+                screenshotFormat="image/jpeg"
+                screenshotQuality={0.95}
+                forceScreenshotSourceSize
+                videoConstraints={cameraService.buildConstraints(deviceId, presetId, facingMode)}
+                onUserMedia={handleUserMedia}
+                onUserMediaError={handleUserMediaError}
+                onLoadedMetadata={(e) => {
+                  const video = e.currentTarget;
+                  if (video.videoWidth && video.videoHeight) setVideoAspect(video.videoWidth / video.videoHeight);
+                }}
+                style={{ width: '100%', height: '100%', objectFit: 'cover' }}
+              />
+
+              {/* 🪪 Marco guía ID-1 (lo de afuera se oscurece) */}
+              <Box
+                sx={{
+                  position: 'absolute',
+                  left: `${(guide.x / videoAspect) * 100}%`,
+                  top: `${guide.y * 100}%`,
+                  width: `${(guide.width / videoAspect) * 100}%`,
+                  height: `${guide.height * 100}%`,
+                  border: '3px solid',
+                  borderColor: guideColor,
+                  borderRadius: 2,
+                  boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.45)',
+                  transition: 'border-color 0.2s ease',
+                  pointerEvents: 'none'
+                }}
+              />
+
+              {/* 💬 Indicación en vivo + avance del disparo automático */}
+              <Box sx={{ position: 'absolute', left: 0, right: 0, bottom: 0, p: 1, bgcolor: 'rgba(0, 0, 0, 0.6)' }}>
+                <Typography variant="body2" sx={{ color: 'common.white', textAlign: 'center' }}>
+                  {live.feedback ? FRAME_MESSAGES[live.feedback.estado] : '⏳ Iniciando cámara...'}
+                </Typography>
+                {autoShutter && live.steadiness > 0 && (
+                  <LinearProgress variant="determinate" value={live.steadiness * 100} color="success" sx={{ mt: 0.5 }} />
+                )}
+              </Box>
+            </Box>
+
+            {/**
+             * 🎛️ Ajustes de cámara
+             * - Cámara conectada (o automática)
+             * - Resolución / proporción
+             * - Linterna (si existe)
+             */}
+            <Box sx={{ mt: 2, display: 'flex', flexWrap: 'wrap', justifyContent: 'center', alignItems: 'center', gap: 2 }}>
+              <FormControl size="small" sx={{ minWidth: 220 }}>
+                <InputLabel id="camera-device-label">🎥 Cámara</InputLabel>
+                <Select
+                  labelId="camera-device-label"
+                  label="🎥 Cámara"
+                  value={devices.some((device) => device.deviceId === deviceId) ? deviceId : ''}
+                  onChange={(e) => changeDevice(e.target.value)}
+                >
+                  <MenuItem value="">Automática (frontal / trasera)</MenuItem>
+                  {devices.map((device, i) => (
+                    <MenuItem key={device.deviceId || i} value={device.deviceId}>
+                      {device.label || `Cámara ${i + 1}`}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+
+              <FormControl size="small" sx={{ minWidth: 220 }}>
+                <InputLabel id="camera-preset-label">📐 Resolución</InputLabel>
+                <Select
+                  labelId="camera-preset-label"
+                  label="📐 Resolución"
+                  value={presetId}
+                  onChange={(e) => changePreset(e.target.value)}
+                >
+                  {CAMERA_PRESETS.map((preset) => (
+                    <MenuItem key={preset.id} value={preset.id}>{preset.nombre}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+
+              {torch.available && (
+                <Tooltip title={torch.on ? 'Apagar linterna' : 'Encender linterna'}>
+                  <IconButton color={torch.on ? 'warning' : 'default'} onClick={toggleTorch}>
+                    {torch.on ? <FlashOnIcon /> : <FlashOffIcon />}
+                  </IconButton>
+                </Tooltip>
+              )}
+            </Box>
+
+            {/**
+             * 🎛️ Controles de acciones
+             * - Cambiar cámara
+             * - Capturar foto
+             */}
+            <Box sx={{ mt: 2, display: 'flex', flexWrap: 'wrap', justifyContent: 'center', alignItems: 'center', gap: 2 }}>
+              {/* 🔄 Cambiar cámara (solo en automática) */}
+              <Button
+                variant="outlined"
+                startIcon={<FlipCameraIosIcon />}
+                onClick={switchCamera}
+                disabled={!!deviceId}
+              >
+                {facingMode === 'user' ? '📱 Frontal' : '📷 Trasera'}
+              </Button>
+
+              {/* 🎞️ Ráfaga */}
+              <FormControlLabel
+                control={<Switch checked={burst} onChange={(e) => setBurst(e.target.checked)} />}
+                label={`🎞️ Ráfaga (${BURST_FRAMES})`}
+              />
+
+              {/* ⚡ Disparo automático */}
+              <FormControlLabel
+                control={<Switch checked={autoShutter} onChange={(e) => setAutoShutter(e.target.checked)} />}
+                label="⚡ Automático"
+              />
+
+              {/* 📸 Tomar foto */}
+              <Button
+                variant="contained"
+                color="primary"
+                startIcon={<CameraAltIcon />}
+                onClick={capture}
+                disabled={capturing}
+                size="large"
+              >
+                {capturing ? '🎞️ Tomando ráfaga...' : 'Capturar'}
+              </Button>
+            </Box>
+          </>
+        )}
       </DialogContent>
     </Dialog>
   );
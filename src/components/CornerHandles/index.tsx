@@ -0,0 +1,114 @@
+/**
+ * 🔲 CornerHandles.tsx
+ * =========================================================
+ * 🎯 Capa SVG con 4 esquinas arrastrables sobre una imagen
+ *
+ * ✅ Se usa en ImageEditor para ajustar los bordes detectados
+ * de la credencial antes de corregir la perspectiva.
+ *
+ * 🧠 Coordenadas:
+ * - `quad` está en píxeles NATURALES de la imagen
+ * - El SVG usa `viewBox` con el tamaño natural, así que se
+ *   adapta solo al tamaño con el que se muestra la imagen
+ *
+ * 📘 Estilo de documentación:
+ * - AngularDoc/JSDoc + emojis 😄
+ * =========================================================
+ */
+
+import React, { useRef, useState } from 'react';
+import type { Point, Quad } from '../../utils/perspective';
+
+/**
+ * 🧩 CornerHandlesProps
+ * ---------------------------------------------------------
+ * ✅ quad: esquinas actuales (tl, tr, br, bl)
+ * ✅ width / height: tamaño natural de la imagen
+ * ✅ onChange: nuevas esquinas mientras se arrastra
+ * ---------------------------------------------------------
+ */
+interface CornerHandlesProps {
+  quad: Quad;
+  width: number;
+  height: number;
+  onChange: (quad: Quad) => void;
+}
+
+/**
+ * 🔲 CornerHandles
+ * =========================================================
+ * Se posiciona en absoluto sobre el contenedor de la imagen.
+ * =========================================================
+ */
+const CornerHandles: React.FC<CornerHandlesProps> = ({ quad, width, height, onChange }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  /**
+   * ✋ dragging
+   * - Índice de la esquina que se está arrastrando (null = ninguna).
+   */
+  const [dragging, setDragging] = useState<number | null>(null);
+
+  /** 📏 Radio del handle proporcional a la imagen */
+  const radius = Math.max(width, height) * 0.015;
+
+  /**
+   * 📍 toImagePoint
+   * - Convierte la posición del puntero a píxeles naturales,
+   *   limitada a los bordes de la imagen.
+   */
+  const toImagePoint = (event: React.PointerEvent): Point => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(Math.max(((event.clientX - rect.left) / rect.width) * width, 0), width),
+      y: Math.min(Math.max(((event.clientY - rect.top) / rect.height) * height, 0), height)
+    };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (dragging === null) return;
+    const next = [...quad] as Quad;
+    next[dragging] = toImagePoint(event);
+    onChange(next);
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="none"
+      style={{ position: 'absolute', inset: 0, width: '100%', height: '100%', touchAction: 'none' }}
+      onPointerMove={handlePointerMove}
+      onPointerUp={() => setDragging(null)}
+      onPointerCancel={() => setDragging(null)}
+    >
+      {/* 🔲 Contorno de la tarjeta */}
+      <polygon
+        points={quad.map((p) => `${p.x},${p.y}`).join(' ')}
+        fill="rgba(25, 118, 210, 0.15)"
+        stroke="#1976d2"
+        strokeWidth={radius / 3}
+      />
+
+      {/* ✋ Esquinas */}
+      {quad.map((p, i) => (
+        <circle
+          key={i}
+          cx={p.x}
+          cy={p.y}
+          r={radius}
+          fill={dragging === i ? '#1976d2' : 'white'}
+          stroke="#1976d2"
+          strokeWidth={radius / 3}
+          style={{ cursor: 'grab' }}
+          onPointerDown={(event) => {
+            event.currentTarget.ownerSVGElement?.setPointerCapture(event.pointerId);
+            setDragging(i);
+          }}
+        />
+      ))}
+    </svg>
+  );
+};
+
+export default CornerHandles;
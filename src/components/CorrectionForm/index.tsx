@@ -0,0 +1,174 @@
+/**
+ * ✏️ CorrectionForm.tsx
+ * =========================================================
+ * 🎯 Formulario para corregir en línea el resultado del OCR
+ *
+ * ✅ Cada campo de `INEData` / `ReversoData` se puede editar:
+ * - El cambio se confirma al salir del campo (blur) o con Enter
+ * - Escape descarta lo escrito
+ *
+ * 🧠 Validación:
+ * - OCRResults vuelve a correr los validadores (CURP, clave,
+ *   MRZ, vigencia) con los datos corregidos y manda el
+ *   resultado en `feedback` para mostrarlo bajo cada campo.
+ *
+ * 📝 Auditoría:
+ * - Si el campo ya fue corregido, se muestra el valor original
+ *   del OCR y quién lo cambió.
+ *
+ * 📘 Estilo de documentación:
+ * - AngularDoc/JSDoc + emojis 😄
+ * =========================================================
+ */
+
+import React, { useState } from 'react';
+import {
+  Grid,
+  TextField,
+  InputAdornment,
+  Tooltip,
+  IconButton
+} from '@mui/material';
+import UndoIcon from '@mui/icons-material/Undo';
+import type { CorrectableField, FieldCorrection, INEData, ReversoData } from '../../types';
+import { ANVERSO_FIELDS, REVERSO_FIELDS, fieldValue } from '../../utils/fields';
+
+/**
+ * 💬 FieldFeedback
+ * ---------------------------------------------------------
+ * Resultado de validación que se muestra bajo un campo.
+ * ---------------------------------------------------------
+ */
+export interface FieldFeedback {
+  severity: 'error' | 'warning';
+  mensaje: string;
+}
+
+/**
+ * 🧩 CorrectionFormProps
+ * ---------------------------------------------------------
+ * ✅ data: datos actuales (ya con correcciones aplicadas)
+ * ✅ isReverso: define qué campos se muestran
+ * ✅ corrections: correcciones del lado mostrado
+ * ✅ feedback: validaciones por campo
+ * ✅ onCorrectField: confirma un valor nuevo
+ * ---------------------------------------------------------
+ */
+interface CorrectionFormProps {
+  data: INEData | ReversoData;
+  isReverso: boolean;
+  corrections: FieldCorrection[];
+  feedback: Partial<Record<CorrectableField, FieldFeedback>>;
+  onCorrectField: (campo: CorrectableField, valor: string) => void;
+  isMobile?: boolean;
+}
+
+/**
+ * ✏️ CorrectionForm
+ * =========================================================
+ * Renderiza un `TextField` por campo con su estado de validación.
+ * =========================================================
+ */
+const CorrectionForm: React.FC<CorrectionFormProps> = ({
+  data,
+  isReverso,
+  corrections,
+  feedback,
+  onCorrectField,
+  isMobile = false
+}) => {
+  /**
+   * 📝 drafts
+   * - Texto en edición por campo (aún no confirmado).
+   */
+  const [drafts, setDrafts] = useState<Partial<Record<CorrectableField, string>>>({});
+
+  const fields = isReverso ? REVERSO_FIELDS : ANVERSO_FIELDS;
+
+  /**
+   * 🔍 currentValue
+   * - Valor confirmado del campo en `data`.
+   */
+  const currentValue = (campo: CorrectableField): string => fieldValue(data, campo);
+
+  /**
+   * 🧹 clearDraft
+   * - Quita el borrador de un campo.
+   */
+  const clearDraft = (campo: CorrectableField) => {
+    setDrafts((prev) => {
+      const next = { ...prev };
+      delete next[campo];
+      return next;
+    });
+  };
+
+  /**
+   * ✅ commit
+   * ---------------------------------------------------------
+   * Confirma el borrador si cambió respecto al valor actual.
+   * ---------------------------------------------------------
+   */
+  const commit = (campo: CorrectableField) => {
+    const draft = drafts[campo];
+    if (draft !== undefined && draft.trim() !== currentValue(campo)) {
+      onCorrectField(campo, draft.trim());
+    }
+    clearDraft(campo);
+  };
+
+  return (
+    <Grid container spacing={isMobile ? 1.5 : 2}>
+      {fields.map(({ campo, etiqueta, monoespaciado }) => {
+        const correction = corrections.find((c) => c.campo === campo);
+        const fieldFeedback = feedback[campo];
+        const helper = [
+          fieldFeedback ? `${fieldFeedback.severity === 'error' ? '❌' : '⚠️'} ${fieldFeedback.mensaje}` : '',
+          correction ? `✏️ OCR: "${correction.original || '—'}" · ${correction.usuario}` : ''
+        ].filter(Boolean).join(' · ');
+
+        return (
+          <Grid item xs={12} md={monoespaciado ? 12 : 6} key={campo}>
+            <TextField
+              fullWidth
+              label={etiqueta}
+              size={isMobile ? 'small' : 'medium'}
+              value={drafts[campo] ?? currentValue(campo)}
+              onChange={(e) => setDrafts((prev) => ({ ...prev, [campo]: e.target.value }))}
+              onBlur={() => commit(campo)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commit(campo);
+                if (e.key === 'Escape') clearDraft(campo);
+              }}
+              error={fieldFeedback?.severity === 'error'}
+              sx={correction && fieldFeedback?.severity !== 'error'
+                ? { '& .MuiOutlinedInput-notchedOutline': { borderColor: 'warning.main' } }
+                : undefined}
+              helperText={helper || ' '}
+              inputProps={{ style: monoespaciado ? { fontFamily: 'monospace' } : undefined }}
+              InputProps={{
+                endAdornment: correction ? (
+                  <InputAdornment position="end">
+                    <Tooltip title="Restaurar valor del OCR">
+                      <IconButton
+                        size="small"
+                        onClick={() => {
+                          clearDraft(campo);
+                          onCorrectField(campo, correction.original);
+                        }}
+                      >
+                        <UndoIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </InputAdornment>
+                ) : undefined
+              }}
+            />
+          </Grid>
+        );
+      })}
+    </Grid>
+  );
+};
+
+export default CorrectionForm;
@@ -0,0 +1,109 @@
+/**
+ * ⬇️ ExportMenu.tsx
+ * =========================================================
+ * 🎯 Botón + menú para descargar el registro OCR actual
+ *
+ * ✅ Formatos:
+ * - 🧾 JSON  (esquema versionado)
+ * - 📊 CSV   (columnas en orden fijo)
+ * - 👤 vCard (nombre y domicilio)
+ *
+ * 🧠 Integración con App.tsx:
+ * - App entrega `getRecord()`, que arma el registro al momento
+ *   de exportar (con correcciones y vigencia actualizadas).
+ *
+ * 📘 Estilo de documentación:
+ * - AngularDoc/JSDoc + emojis 😄
+ * =========================================================
+ */
+
+import React, { useState } from 'react';
+import { Button, Menu, MenuItem, ListItemText } from '@mui/material';
+import type { ExportRecord } from '../../types';
+import { downloadText, toCSV, toJSON, toVCard } from '../../utils/export';
+
+/**
+ * 🧩 ExportMenuProps
+ * ---------------------------------------------------------
+ * ✅ getRecord: construye el registro a exportar
+ * ✅ disabled: deshabilita el botón (ej. mientras procesa)
+ * ✅ isMobile: botón a lo ancho en móvil
+ * ---------------------------------------------------------
+ */
+interface ExportMenuProps {
+  getRecord: () => ExportRecord;
+  disabled?: boolean;
+  isMobile?: boolean;
+}
+
+/**
+ * 🏷️ baseFilename
+ * - "ine_<CURP o fecha>" para nombrar el archivo.
+ */
+const baseFilename = (record: ExportRecord): string => {
+  const id = record.anverso?.curp || record.exportado.slice(0, 10);
+  return `ine_${id.replace(/[^A-Za-z0-9-]/g, '')}`;
+};
+
+/**
+ * ⬇️ ExportMenu
+ * =========================================================
+ * Muestra el menú y descarga el formato elegido.
+ * =========================================================
+ */
+const ExportMenu: React.FC<ExportMenuProps> = ({ getRecord, disabled = false, isMobile = false }) => {
+  /**
+   * 📍 anchorEl
+   * - Elemento donde se ancla el menú (null = cerrado).
+   */
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+
+  /**
+   * ⬇️ handleExport
+   * ---------------------------------------------------------
+   * Serializa el registro en el formato elegido y lo descarga.
+   * ---------------------------------------------------------
+   */
+  const handleExport = (format: 'json' | 'csv' | 'vcf') => {
+    setAnchorEl(null);
+    const record = getRecord();
+    const filename = `${baseFilename(record)}.${format}`;
+    console.log('⬇️ Exportando registro:', filename);
+
+    if (format === 'json') downloadText(toJSON(record), filename, 'application/json');
+    if (format === 'csv') downloadText(toCSV(record), filename, 'text/csv');
+    if (format === 'vcf') downloadText(toVCard(record), filename, 'text/vcard');
+  };
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        color="primary"
+        onClick={(e) => setAnchorEl(e.currentTarget)}
+        disabled={disabled}
+        fullWidth={isMobile}
+        sx={{
+          fontSize: { xs: '0.875rem', sm: '1rem' },
+          py: { xs: 1, sm: 1.5 }
+        }}
+        size={isMobile ? 'small' : 'medium'}
+      >
+        ⬇️ Exportar
+      </Button>
+      <Menu anchorEl={anchorEl} open={Boolean(anchorEl)} onClose={() => setAnchorEl(null)}>
+        <MenuItem onClick={() => handleExport('json')}>
+          <ListItemText primary="🧾 JSON" secondary="Registro completo (esquema versionado)" />
+        </MenuItem>
+        <MenuItem onClick={() => handleExport('csv')}>
+          <ListItemText primary="📊 CSV" secondary="Una fila, columnas en orden fijo" />
+        </MenuItem>
+        <MenuItem onClick={() => handleExport('vcf')}>
+          <ListItemText primary="👤 vCard" secondary="Contacto con nombre y domicilio" />
+        </MenuItem>
+      </Menu>
+    </>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,236 @@
+/**
+ * 🗂️ HistoryDialog.tsx
+ * =========================================================
+ * 🎯 Historial local de escaneos (IndexedDB)
+ *
+ * ✅ Permite:
+ * - 🔍 Buscar por nombre, CURP o clave de elector
+ * - 📂 Reabrir un escaneo en OCRResults
+ * - 🗑️ Eliminar un escaneo
+ *
+ * 🧠 Integración con App.tsx:
+ * - El padre controla `open`
+ * - Al reabrir se llama `onReopen(entry)` y App restaura el estado
+ * - Al eliminar se llama `onDeleted(id)` para que App olvide el
+ *   escaneo si era el que estaba abierto
+ *
+ * 📘 Estilo de documentación:
+ * - AngularDoc/JSDoc + emojis 😄
+ * =========================================================
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  IconButton,
+  TextField,
+  InputAdornment,
+  List,
+  ListItem,
+  ListItemAvatar,
+  ListItemText,
+  Avatar,
+  Chip,
+  Tooltip,
+  Typography,
+  CircularProgress,
+  Alert,
+  useTheme,
+  useMediaQuery
+} from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import SearchIcon from '@mui/icons-material/Search';
+import OpenInNewIcon from '@mui/icons-material/OpenInNew';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import type { HistoryEntry } from '../../types';
+import { historyService } from '../../services/history';
+import { isReversoData } from '../../utils/fields';
+
+/**
+ * 🧩 HistoryDialogProps
+ * ---------------------------------------------------------
+ * ✅ open / onClose: visibilidad del modal
+ * ✅ onReopen: abre el escaneo elegido en resultados
+ * ✅ onDeleted: avisa qué escaneo se eliminó
+ * ---------------------------------------------------------
+ */
+interface HistoryDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onReopen: (entry: HistoryEntry) => void;
+  onDeleted?: (id: number) => void;
+}
+
+/**
+ * 🏷️ entryTitle
+ * - Nombre a mostrar según el lado del escaneo.
+ */
+const entryTitle = (entry: HistoryEntry): string => {
+  const { data } = entry;
+  if (!isReversoData(data)) return data.nombre || 'Sin nombre';
+  return [data.nombre_reverso, data.apellido_paterno, data.apellido_materno]
+    .filter(Boolean).join(' ') || 'Sin nombre';
+};
+
+/**
+ * 🗂️ HistoryDialog
+ * =========================================================
+ * Lista los escaneos guardados con búsqueda en vivo.
+ * =========================================================
+ */
+const HistoryDialog: React.FC<HistoryDialogProps> = ({ open, onClose, onReopen, onDeleted }) => {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+
+  const [query, setQuery] = useState('');
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  /**
+   * 🔄 loadEntries
+   * - Consulta IndexedDB con el texto de búsqueda actual.
+   */
+  const loadEntries = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      setEntries(await historyService.list(query));
+    } catch (err) {
+      console.error('❌ Error leyendo historial:', err);
+      setError(err instanceof Error ? err.message : 'No se pudo leer el historial');
+    } finally {
+      setLoading(false);
+    }
+  }, [query]);
+
+  /**
+   * 👀 useEffect
+   * - Recarga al abrir el modal y cada vez que cambia la búsqueda.
+   */
+  useEffect(() => {
+    if (open) loadEntries();
+  }, [open, loadEntries]);
+
+  /**
+   * 🗑️ handleDelete
+   * - Pide confirmación, elimina y recarga la lista.
+   */
+  const handleDelete = async (entry: HistoryEntry) => {
+    if (entry.id === undefined) return;
+    if (!window.confirm(`¿Eliminar el escaneo de "${entryTitle(entry)}"?`)) return;
+
+    try {
+      await historyService.remove(entry.id);
+      onDeleted?.(entry.id);
+      await loadEntries();
+    } catch (err) {
+      console.error('❌ Error eliminando escaneo:', err);
+      setError('No se pudo eliminar el escaneo');
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth fullScreen={isMobile}>
+      <DialogTitle>
+        🗂️ Historial de escaneos
+        <IconButton
+          aria-label="close"
+          onClick={onClose}
+          sx={{ position: 'absolute', right: 8, top: 8 }}
+        >
+          <CloseIcon />
+        </IconButton>
+      </DialogTitle>
+
+      <DialogContent dividers>
+        {/* 🔍 Búsqueda */}
+        <TextField
+          fullWidth
+          size="small"
+          placeholder="Buscar por nombre, CURP o clave de elector"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          InputProps={{
+            startAdornment: (
+              <InputAdornment position="start">
+                <SearchIcon />
+              </InputAdornment>
+            )
+          }}
+          sx={{ mb: 2 }}
+        />
+
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : entries.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', p: 4 }}>
+            {query ? '🔍 Sin resultados para la búsqueda' : '📭 Aún no hay escaneos guardados'}
+          </Typography>
+        ) : (
+          <List disablePadding>
+            {entries.map((entry) => (
+              <ListItem
+                key={entry.id}
+                divider
+                secondaryAction={
+                  <Box>
+                    <Tooltip title="Abrir en resultados">
+                      <IconButton edge="end" onClick={() => onReopen(entry)} sx={{ mr: 0.5 }}>
+                        <OpenInNewIcon />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Eliminar">
+                      <IconButton edge="end" color="error" onClick={() => handleDelete(entry)}>
+                        <DeleteOutlineIcon />
+                      </IconButton>
+                    </Tooltip>
+                  </Box>
+                }
+                sx={{ pr: 12 }}
+              >
+                <ListItemAvatar>
+                  <Avatar
+                    variant="rounded"
+                    src={entry.thumbnail}
+                    alt={entryTitle(entry)}
+                    sx={{ width: 72, height: 48, mr: 2 }}
+                  />
+                </ListItemAvatar>
+                <ListItemText
+                  primary={entryTitle(entry)}
+                  secondary={
+                    <Box component="span" sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 0.5 }}>
+                      <Chip
+                        component="span"
+                        size="small"
+                        label={entry.lado === 'reverso' ? '🔙 Reverso' : '🪪 Anverso'}
+                        color={entry.lado === 'reverso' ? 'secondary' : 'primary'}
+                      />
+                      {entry.correcciones.length > 0 && (
+                        <Chip component="span" size="small" color="warning" label={`✏️ ${entry.correcciones.length}`} />
+                      )}
+                      <Typography component="span" variant="caption">
+                        🕒 {new Date(entry.fecha).toLocaleString()} · 👤 {entry.usuario}
+                        {!isReversoData(entry.data) && entry.data.curp && ` · ${entry.data.curp}`}
+                      </Typography>
+                    </Box>
+                  }
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default HistoryDialog;
@@ -0,0 +1,180 @@
+/**
+ * 🧬 IdentityRecord.tsx
+ * =========================================================
+ * 🎯 Registro de identidad fusionado (anverso + reverso)
+ *
+ * Se muestra al final de una **sesión de dos lados**:
+ * - 🪪 El anverso aporta CURP, clave, domicilio, vigencia...
+ * - 🔙 El reverso aporta apellidos, nombre(s) y líneas MRZ
+ *
+ * ⚠️ Discrepancias:
+ * - Si el `nombre` del anverso no coincide con las partes
+ *   del reverso, se resalta la fila y se listan las diferencias.
+ *
+ * 🧠 Integración con App.tsx:
+ * - App construye el registro con `mergeIdentity()` y lo pasa
+ *   como `identity`. Este componente solo renderiza.
+ *
+ * 📘 Estilo de documentación:
+ * - AngularDoc/JSDoc + emojis 😄
+ * =========================================================
+ */
+
+import React from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableRow,
+  Alert,
+  Chip,
+  useTheme,
+  useMediaQuery
+} from '@mui/material';
+import WarningIcon from '@mui/icons-material/Warning';
+import type { MergedIdentity, NameDiscrepancy } from '../../types';
+
+/**
+ * 🧩 IdentityRecordProps
+ * ---------------------------------------------------------
+ * ✅ identity:
+ * - Registro fusionado generado por `mergeIdentity()`.
+ * ---------------------------------------------------------
+ */
+interface IdentityRecordProps {
+  identity: MergedIdentity;
+}
+
+/**
+ * 🏷️ campoLabels
+ * ---------------------------------------------------------
+ * Etiquetas legibles para cada parte del nombre.
+ * ---------------------------------------------------------
+ */
+const campoLabels: Record<NameDiscrepancy['campo'], string> = {
+  apellido_paterno: 'Apellido Paterno',
+  apellido_materno: 'Apellido Materno',
+  nombre: 'Nombre(s)'
+};
+
+/**
+ * 🧬 IdentityRecord
+ * =========================================================
+ * Tabla con el registro completo + alertas de discrepancia.
+ * =========================================================
+ */
+const IdentityRecord: React.FC<IdentityRecordProps> = ({ identity }) => {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('md'));
+
+  /**
+   * 🔍 findDiscrepancy
+   * - Regresa la discrepancia de una parte del nombre (si existe).
+   */
+  const findDiscrepancy = (campo: NameDiscrepancy['campo']) =>
+    identity.discrepancias.find((d) => d.campo === campo);
+
+  /**
+   * 📋 rows
+   * - Filas de la tabla: [etiqueta, valor, parte del nombre asociada]
+   */
+  const rows: Array<[string, string, NameDiscrepancy['campo'] | null]> = [
+    ['Apellido Paterno', identity.apellido_paterno, 'apellido_paterno'],
+    ['Apellido Materno', identity.apellido_materno, 'apellido_materno'],
+    ['Nombre(s)', identity.nombres, 'nombre'],
+    ['CURP', identity.curp, null],
+    ['Clave Elector', identity.clave_elector, null],
+    ['Fecha Nacimiento', identity.fecha_nacimiento, null],
+    ['Sexo', identity.sexo, null],
+    ['Sección', identity.seccion, null],
+    ['Vigencia', `${identity.vigencia || '—'} · ${identity.estado_vigencia.etiqueta}`, null],
+    ['Domicilio', [identity.calle, identity.numero, identity.colonia, identity.codigo_postal, identity.estado].filter(Boolean).join(', '), null],
+    ['Línea MRZ 1', identity.linea1, null],
+    ['Línea MRZ 2', identity.linea2, null]
+  ];
+
+  return (
+    <Paper elevation={3} sx={{ p: isMobile ? 2 : 3, borderRadius: 2, mt: 3, overflow: 'hidden' }}>
+      {/* 🧾 Encabezado */}
+      <Box sx={{
+        display: 'flex',
+        flexDirection: isMobile ? 'column' : 'row',
+        alignItems: isMobile ? 'flex-start' : 'center',
+        justifyContent: 'space-between',
+        mb: 2,
+        gap: 1
+      }}>
+        <Typography variant={isMobile ? 'h6' : 'h5'} sx={{ fontWeight: 'bold' }}>
+          🧬 Registro de Identidad
+        </Typography>
+        <Chip
+          label={identity.es_ine ? '✅ Anverso + Reverso' : '⚠️ Validación INE incompleta'}
+          color={identity.es_ine ? 'success' : 'warning'}
+          size={isMobile ? 'small' : 'medium'}
+        />
+      </Box>
+
+      {/* ⚠️ Discrepancias de nombre */}
+      {identity.discrepancias.length > 0 ? (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          <Typography variant="subtitle2" gutterBottom>
+            ⚠️ El nombre del anverso no coincide con el reverso:
+          </Typography>
+          <Box component="ul" sx={{ pl: 2, mb: 0 }}>
+            {identity.discrepancias.map((d) => (
+              <Typography component="li" variant="body2" key={d.campo}>
+                <strong>{campoLabels[d.campo]}:</strong> anverso "{d.anverso || '—'}" vs reverso "{d.reverso || '—'}"
+              </Typography>
+            ))}
+          </Box>
+        </Alert>
+      ) : (
+        <Alert severity="success" sx={{ mb: 2 }}>
+          ✅ El nombre coincide en ambos lados de la credencial
+        </Alert>
+      )}
+
+      {/* 📋 Registro completo */}
+      <TableContainer>
+        <Table size={isMobile ? 'small' : 'medium'}>
+          <TableBody>
+            {rows.map(([label, value, campo]) => {
+              const discrepancy = campo ? findDiscrepancy(campo) : undefined;
+              return (
+                <TableRow
+                  key={label}
+                  sx={discrepancy ? { backgroundColor: 'warning.light' } : undefined}
+                >
+                  <TableCell sx={{ minWidth: isMobile ? 120 : 150, padding: isMobile ? '8px' : '16px' }}>
+                    <strong>{label}</strong>
+                  </TableCell>
+                  <TableCell sx={{ padding: isMobile ? '8px' : '16px' }}>
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                      <Typography variant="body2" sx={{ wordBreak: 'break-word' }}>
+                        {value || '—'}
+                      </Typography>
+                      {discrepancy && (
+                        <Chip
+                          icon={<WarningIcon />}
+                          label={`Anverso: ${discrepancy.anverso || '—'}`}
+                          color="warning"
+                          size="small"
+                        />
+                      )}
+                    </Box>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Paper>
+  );
+};
+
+export default IdentityRecord;
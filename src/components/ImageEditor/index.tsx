@@ -9,6 +9,12 @@
  * ✅ Funcionalidades clave:
  * - ✂️ Recorte (crop) con `react-image-crop` (proporción de tarjeta ID)
  * - 🔄 Rotación visual (preview) + “Aplicar rotación” (commit al DataURL)
+ *   - pasos de 90° o ajuste fino de 0.1° (el canvas crece, no recorta)
+ *   - enderezado automático según la inclinación del texto
+ * - 📐 Perspectiva: detección automática de esquinas + ajuste manual
+ *   + enderezado a rectángulo ID-1 (commit al DataURL)
+ * - 🎛️ Ajustes (brillo, contraste, saturación, desenfoque, nitidez, escala)
+ *   con vista previa en vivo + “Aplicar ajustes” (commit al DataURL)
  * - 📜 Historial de cambios (Undo/Redo)
  * - 🔄 Restablecer cambios (con confirmación) -> llama al padre para volver a original
  * - 🧪 Validación de DataURL y precarga de imagen (Image()) para detectar errores
@@ -61,8 +67,27 @@ import {
   CheckCircle,
   Error as ErrorIcon,
   Save,
-  Warning
+  Warning,
+  CropFree,
+  Tune,
+  Straighten,
+  Remove,
+  Add
 } from '@mui/icons-material';
+import Slider from 'rc-slider';
+import 'rc-slider/assets/index.css';
+import CornerHandles from '../CornerHandles';
+import AdjustmentsPanel from '../AdjustmentsPanel';
+import type { ImageAdjustments } from '../../types';
+import { DEFAULT_ADJUSTMENTS, renderAdjusted } from '../../utils/adjustments';
+import { detectSkew, normalizeAngle, rotateImage } from '../../utils/rotation';
+import { defaultQuad, detectDocumentCorners, isConvexQuad, warpPerspective, type Quad } from '../../utils/perspective';
+
+/** 👁️ Lado mayor de la vista previa de ajustes (px) */
+const ADJUSTMENTS_PREVIEW_SIZE = 800;
+
+/** 🎚️ Rango (±grados) del slider de rotación fina */
+const FINE_ROTATION_RANGE = 30;
 
 /**
  * 🧩 ImageEditorProps
@@ -76,6 +101,8 @@ import {
  * - Emite la nueva imagen (DataURL) cuando:
  *   - se aplica rotación (commit)
  *   - se aplica recorte (commit)
+ *   - se corrige la perspectiva (commit)
+ *   - se aplican ajustes de imagen (commit)
  *   - se hace undo/redo
  *
  * ✅ onCropComplete:
@@ -134,10 +161,25 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
   /**
    * 🔄 rotate
    * - Grados de rotación SOLO para vista previa.
+   * - Rango (-180, 180], con pasos de 0.1°.
    * - Se “aplica” realmente con `applyRotation()`.
    */
   const [rotate, setRotate] = useState<number>(0);
 
+  /**
+   * 📐 perspectiveQuad
+   * - Esquinas de la tarjeta (píxeles naturales) en modo perspectiva.
+   * - null -> modo perspectiva desactivado.
+   */
+  const [perspectiveQuad, setPerspectiveQuad] = useState<Quad | null>(null);
+
+  /**
+   * 🎛️ adjustments
+   * - Ajustes en edición (vista previa en vivo).
+   * - null -> panel de ajustes cerrado.
+   */
+  const [adjustments, setAdjustments] = useState<ImageAdjustments | null>(null);
+
   /**
    * ✅ imageLoaded
    * - Indica que la imagen fue precargada y está lista para editar.
@@ -197,18 +239,26 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
    */
   const imgRef = useRef<HTMLImageElement>(null);
 
-  /**
-   * 🎨 canvasRef
-   * - Canvas oculto usado para aplicar rotación y generar DataURL.
-   */
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-
   /**
    * ✂️ cropCanvasRef
    * - Canvas oculto usado para aplicar recorte y generar DataURL recortado.
    */
   const cropCanvasRef = useRef<HTMLCanvasElement>(null);
 
+  /**
+   * 📤 emittedRef
+   * - Última imagen enviada al padre con `onImageChange`.
+   * - App la devuelve como `imageSrc`; al reconocerla no se
+   *   reinicia el historial (si no, Deshacer nunca tendría pasos).
+   */
+  const emittedRef = useRef<string>('');
+
+  /**
+   * 👁️ previewCanvasRef
+   * - Canvas visible sobre la imagen con la vista previa de ajustes.
+   */
+  const previewCanvasRef = useRef<HTMLCanvasElement>(null);
+
   // 🔔 Notificaciones
   /**
    * 🔔 snackbar
@@ -240,6 +290,9 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
    * ---------------------------------------------------------
    */
   useEffect(() => {
+    // 📤 La imagen viene de este mismo editor: conservar historial
+    if (imageSrc && imageSrc === emittedRef.current) return;
+
     console.log('🖼️ ImageEditor - Imagen recibida del padre:', {
       tieneSrc: !!imageSrc,
       longitud: imageSrc?.length || 0,
@@ -259,6 +312,8 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
     setRotate(0);
     setCrop(undefined);
     setIsCropping(false);
+    setPerspectiveQuad(null);
+    setAdjustments(null);
 
     // Reiniciar historial con la nueva imagen
     setHistory([imageSrc]);
@@ -296,22 +351,57 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
     return () => clearTimeout(timeout);
   }, [imageSrc]); // Solo dependemos de imageSrc del padre
 
+  // 👁️ Vista previa en vivo de los ajustes
+  /**
+   * 👁️ useEffect(adjustments)
+   * ---------------------------------------------------------
+   * Redibuja la vista previa (reducida) cada vez que cambia un
+   * slider. Se agenda con `requestAnimationFrame` para no
+   * recalcular más de una vez por cuadro.
+   * ---------------------------------------------------------
+   */
+  useEffect(() => {
+    if (!adjustments) return;
+
+    const frame = requestAnimationFrame(() => {
+      const img = imgRef.current;
+      const canvas = previewCanvasRef.current;
+      if (!img || !canvas) return;
+
+      const rendered = renderAdjusted(img, adjustments, ADJUSTMENTS_PREVIEW_SIZE);
+      canvas.width = rendered.width;
+      canvas.height = rendered.height;
+      canvas.getContext('2d')?.drawImage(rendered, 0, 0);
+    });
+
+    return () => cancelAnimationFrame(frame);
+  }, [adjustments]);
+
+  // 📤 Enviar imagen al padre
+  /**
+   * 📤 emitImage
+   * ---------------------------------------------------------
+   * Notifica al padre la nueva imagen y la recuerda en
+   * `emittedRef` para no reiniciar el historial al recibirla.
+   * ---------------------------------------------------------
+   */
+  const emitImage = (imageData: string) => {
+    emittedRef.current = imageData;
+    onImageChange(imageData);
+  };
+
   // 🔄 Aplicar rotación a la imagen actual
   /**
-   * 🔄 applyRotation
+   * 🔄 commitRotation
    * ---------------------------------------------------------
-   * “Commitea” la rotación al DataURL (la vuelve parte real de la imagen).
+   * “Commitea” una rotación al DataURL (la vuelve parte real de la imagen).
    *
    * ✅ Requisitos:
    * - imgRef listo
-   * - canvasRef listo
    *
    * 🔁 Flujo:
-   * - Configura canvas con dimensiones naturales del img
-   * - Limpia canvas
-   * - ctx.save() -> translate center -> rotate -> translate back
-   * - drawImage
-   * - ctx.restore()
+   * - rotateImage(img, grados): el canvas crece hasta contener la
+   *   imagen rotada (no se recortan esquinas con ángulos finos)
    * - canvas.toDataURL('image/jpeg', 0.9)
    * - onImageChange(newDataURL) (actualiza estado global en App)
    * - push al historial + mueve historyIndex
@@ -319,12 +409,15 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
    *
    * ⏳ setTimeout(100):
    * - Da tiempo al render/estado antes de procesar (UI/UX suave)
+   *
+   * @param degrees Ángulo a aplicar (horario)
+   * @param message Mensaje del snackbar al terminar
    * ---------------------------------------------------------
    */
-  const applyRotation = () => {
-    console.log('🎨 Aplicando rotación:', { rotate });
+  const commitRotation = (degrees: number, message: string) => {
+    console.log('🎨 Aplicando rotación:', { degrees });
 
-    if (!imgRef.current || !canvasRef.current) {
+    if (!imgRef.current) {
       console.warn('⚠️ Recursos no listos');
       showSnackbar('⚠️ Imagen no está lista aún', 'error');
       return;
@@ -334,44 +427,13 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
 
     setTimeout(() => {
       try {
-        const img = imgRef.current!;
-        const canvas = canvasRef.current!;
-        const ctx = canvas.getContext('2d');
-
-        if (!ctx) {
-          throw new Error('No se pudo obtener contexto 2D');
-        }
-
-        // 📐 Tamaño del canvas
-        canvas.width = img.naturalWidth || img.width;
-        canvas.height = img.naturalHeight || img.height;
-
-        // 🎨 Limpiar canvas
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-        // 🏁 Guardar estado
-        ctx.save();
-
-        // 🔄 Mover al centro para rotación
-        ctx.translate(canvas.width / 2, canvas.height / 2);
-
-        // 🔄 Aplicar rotación
-        ctx.rotate((rotate * Math.PI) / 180);
-
-        // 🔙 Mover de vuelta
-        ctx.translate(-canvas.width / 2, -canvas.height / 2);
-
-        // 🖼️ Dibujar imagen
-        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-
-        // 🔙 Restaurar contexto
-        ctx.restore();
+        const canvas = rotateImage(imgRef.current!, degrees);
 
         // 💾 Generar nueva imagen
         const newImageData = canvas.toDataURL('image/jpeg', 0.9);
 
         // 📤 Notificar al padre del cambio
-        onImageChange(newImageData);
+        emitImage(newImageData);
 
         // 📜 Guardar en historial
         const newHistory = history.slice(0, historyIndex + 1);
@@ -382,8 +444,8 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
         // 🔄 Resetear rotación después de aplicar
         setRotate(0);
 
-        showSnackbar('✅ Rotación aplicada', 'success');
-        console.log('✅ Rotación aplicada correctamente');
+        showSnackbar(message, 'success');
+        console.log('✅ Rotación aplicada correctamente:', { ancho: canvas.width, alto: canvas.height });
 
       } catch (error) {
         console.error('❌ Error aplicando rotación:', error);
@@ -394,6 +456,49 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
     }, 100);
   };
 
+  /**
+   * 🔄 applyRotation
+   * ---------------------------------------------------------
+   * Aplica la rotación de la vista previa (`rotate`).
+   * ---------------------------------------------------------
+   */
+  const applyRotation = () => {
+    commitRotation(rotate, '✅ Rotación aplicada');
+  };
+
+  // 📐 Enderezar automáticamente
+  /**
+   * 📐 autoDeskew
+   * ---------------------------------------------------------
+   * Estima la inclinación de las líneas de texto (±15°) y
+   * rota la imagen para dejarlas horizontales.
+   *
+   * ✅ Es un paso más del historial (se puede deshacer).
+   * ---------------------------------------------------------
+   */
+  const autoDeskew = () => {
+    if (!imgRef.current) {
+      showSnackbar('⚠️ Imagen no está lista aún', 'error');
+      return;
+    }
+
+    let angle = 0;
+    try {
+      angle = detectSkew(imgRef.current);
+    } catch (error) {
+      console.error('❌ Error estimando inclinación:', error);
+      showSnackbar('❌ No se pudo estimar la inclinación', 'error');
+      return;
+    }
+
+    console.log('📐 Inclinación estimada:', angle);
+    if (Math.abs(angle) < 0.1) {
+      showSnackbar('✅ La imagen ya está derecha', 'info');
+      return;
+    }
+    commitRotation(angle, `📐 Imagen enderezada (${angle > 0 ? '+' : ''}${angle}°)`);
+  };
+
   // ✂️ Aplicar recorte
   /**
    * ✂️ applyCrop
@@ -471,7 +576,7 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
         const croppedImageData = canvas.toDataURL('image/jpeg', 0.9);
 
         // 📤 Notificar al padre del cambio
-        onImageChange(croppedImageData);
+        emitImage(croppedImageData);
 
         // 📜 Guardar en historial
         const newHistory = history.slice(0, historyIndex + 1);
@@ -504,6 +609,167 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
     }, 100);
   };
 
+  // 📐 Activar/Desactivar modo perspectiva
+  /**
+   * 📐 togglePerspective
+   * ---------------------------------------------------------
+   * Al activar:
+   * - Detecta automáticamente las 4 esquinas de la tarjeta
+   * - Si no las encuentra, propone la imagen completa (margen 5%)
+   *   para que el usuario las ajuste a mano
+   *
+   * Al desactivar:
+   * - Descarta las esquinas sin cambiar la imagen
+   * ---------------------------------------------------------
+   */
+  const togglePerspective = () => {
+    if (perspectiveQuad) {
+      setPerspectiveQuad(null);
+      showSnackbar('📐 Modo perspectiva desactivado', 'info');
+      return;
+    }
+
+    if (!imgRef.current) {
+      showSnackbar('⚠️ Imagen no está lista aún', 'error');
+      return;
+    }
+
+    setIsProcessing(true);
+
+    setTimeout(() => {
+      const img = imgRef.current!;
+      try {
+        const detected = detectDocumentCorners(img);
+        console.log('🔍 Esquinas detectadas:', detected);
+        setPerspectiveQuad(detected ?? defaultQuad(img.naturalWidth, img.naturalHeight));
+        showSnackbar(
+          detected
+            ? '🔍 Bordes detectados - ajusta las esquinas si hace falta'
+            : '⚠️ No se detectaron bordes - arrastra las esquinas a la tarjeta',
+          detected ? 'success' : 'info'
+        );
+      } catch (error) {
+        console.error('❌ Error detectando bordes:', error);
+        setPerspectiveQuad(defaultQuad(img.naturalWidth, img.naturalHeight));
+        showSnackbar('⚠️ No se pudo detectar - ajusta las esquinas a mano', 'error');
+      } finally {
+        setIsProcessing(false);
+      }
+    }, 100);
+  };
+
+  // 📐 Aplicar corrección de perspectiva
+  /**
+   * 📐 applyPerspective
+   * ---------------------------------------------------------
+   * “Commitea” la corrección de perspectiva: endereza el área
+   * marcada por las esquinas a un rectángulo ID-1.
+   *
+   * 🔁 Flujo (igual que rotación/recorte):
+   * - warpPerspective(img, esquinas) -> canvas
+   * - canvas.toDataURL('image/jpeg', 0.9)
+   * - emitImage(newDataURL)
+   * - push historial + index
+   * ---------------------------------------------------------
+   */
+  const applyPerspective = () => {
+    if (!perspectiveQuad || !imgRef.current) return;
+
+    if (!isConvexQuad(perspectiveQuad)) {
+      showSnackbar('⚠️ Las esquinas se cruzan - acomódalas en orden', 'error');
+      return;
+    }
+
+    setIsProcessing(true);
+
+    setTimeout(() => {
+      try {
+        const canvas = warpPerspective(imgRef.current!, perspectiveQuad);
+        const warpedImageData = canvas.toDataURL('image/jpeg', 0.9);
+
+        // 📤 Notificar al padre del cambio
+        emitImage(warpedImageData);
+
+        // 📜 Guardar en historial
+        const newHistory = history.slice(0, historyIndex + 1);
+        newHistory.push(warpedImageData);
+        setHistory(newHistory);
+        setHistoryIndex(newHistory.length - 1);
+
+        setPerspectiveQuad(null);
+        showSnackbar('✅ Perspectiva corregida', 'success');
+        console.log('✅ Perspectiva corregida:', { ancho: canvas.width, alto: canvas.height });
+      } catch (error) {
+        console.error('❌ Error corrigiendo perspectiva:', error);
+        showSnackbar('❌ Error al corregir la perspectiva', 'error');
+      } finally {
+        setIsProcessing(false);
+      }
+    }, 100);
+  };
+
+  // 🎛️ Abrir/Cerrar panel de ajustes
+  /**
+   * 🎛️ toggleAdjustments
+   * ---------------------------------------------------------
+   * Abre el panel con ajustes neutros, o lo cierra descartando
+   * los ajustes que no se aplicaron.
+   * ---------------------------------------------------------
+   */
+  const toggleAdjustments = () => {
+    if (adjustments) {
+      setAdjustments(null);
+      showSnackbar('🎛️ Ajustes descartados', 'info');
+    } else {
+      setAdjustments(DEFAULT_ADJUSTMENTS);
+    }
+  };
+
+  // 🎛️ Aplicar ajustes
+  /**
+   * 🎛️ applyImageAdjustments
+   * ---------------------------------------------------------
+   * “Commitea” los ajustes: los hornea en la imagen a resolución
+   * completa (con la escala elegida).
+   *
+   * 🔁 Flujo (igual que rotación/recorte):
+   * - renderAdjusted(img, ajustes) -> canvas
+   * - canvas.toDataURL('image/jpeg', 0.9)
+   * - emitImage(newDataURL)
+   * - push historial + index (un solo paso de Deshacer)
+   * ---------------------------------------------------------
+   */
+  const applyImageAdjustments = () => {
+    if (!adjustments || !imgRef.current) return;
+
+    setIsProcessing(true);
+
+    setTimeout(() => {
+      try {
+        const canvas = renderAdjusted(imgRef.current!, adjustments);
+        const adjustedImageData = canvas.toDataURL('image/jpeg', 0.9);
+
+        // 📤 Notificar al padre del cambio
+        emitImage(adjustedImageData);
+
+        // 📜 Guardar en historial
+        const newHistory = history.slice(0, historyIndex + 1);
+        newHistory.push(adjustedImageData);
+        setHistory(newHistory);
+        setHistoryIndex(newHistory.length - 1);
+
+        setAdjustments(null);
+        showSnackbar('✅ Ajustes aplicados', 'success');
+        console.log('✅ Ajustes aplicados:', adjustments);
+      } catch (error) {
+        console.error('❌ Error aplicando ajustes:', error);
+        showSnackbar('❌ Error al aplicar ajustes', 'error');
+      } finally {
+        setIsProcessing(false);
+      }
+    }, 100);
+  };
+
   // 🖼️ Manejar carga de imagen en el elemento img
   /**
    * ✅ handleImageLoad
@@ -534,7 +800,7 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
    * ⚠️ Solo cambia la vista previa (no se comitea hasta "Aplicar Rotación").
    */
   const rotateLeft = () => {
-    const newRotate = rotate - 90;
+    const newRotate = normalizeAngle(rotate - 90);
     setRotate(newRotate);
     showSnackbar('↪️ Imagen girada a la izquierda', 'info');
   };
@@ -546,11 +812,34 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
    * ⚠️ Solo cambia la vista previa (no se comitea hasta "Aplicar Rotación").
    */
   const rotateRight = () => {
-    const newRotate = rotate + 90;
+    const newRotate = normalizeAngle(rotate + 90);
     setRotate(newRotate);
     showSnackbar('↪️ Imagen girada a la derecha', 'info');
   };
 
+  // 🎚️ Rotación fina
+  /**
+   * 🎚️ quarterTurn / fineRotation
+   * ---------------------------------------------------------
+   * La vista previa se separa en:
+   * - quarterTurn: múltiplo de 90° más cercano (botones ↶ ↷)
+   * - fineRotation: ajuste fino alrededor de ese giro (slider)
+   * ---------------------------------------------------------
+   */
+  const quarterTurn = Math.round(rotate / 90) * 90;
+  const fineRotation = normalizeAngle(rotate - quarterTurn);
+
+  /**
+   * 🎚️ setFineRotation
+   * - Cambia solo el ajuste fino (conserva el giro de 90°).
+   *
+   * @param degrees Ajuste fino en grados (±FINE_ROTATION_RANGE)
+   */
+  const setFineRotation = (degrees: number) => {
+    const fine = Math.min(Math.max(degrees, -FINE_ROTATION_RANGE), FINE_ROTATION_RANGE);
+    setRotate(normalizeAngle(quarterTurn + fine));
+  };
+
   // 🎯 Activar/Desactivar modo recorte
   /**
    * ✂️ toggleCropping
@@ -592,7 +881,7 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
 
       setHistoryIndex(newIndex);
       setRotate(0); // Resetear rotación al deshacer
-      onImageChange(previousImage); // Notificar al padre
+      emitImage(previousImage); // Notificar al padre
 
       showSnackbar('↩️ Cambio deshecho', 'success');
     }
@@ -616,7 +905,7 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
 
       setHistoryIndex(newIndex);
       setRotate(0); // Resetear rotación al rehacer
-      onImageChange(nextImage); // Notificar al padre
+      emitImage(nextImage); // Notificar al padre
 
       showSnackbar('↪️ Cambio rehecho', 'success');
     }
@@ -659,6 +948,8 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
     setRotate(0);
     setCrop(undefined);
     setIsCropping(false);
+    setPerspectiveQuad(null);
+    setAdjustments(null);
 
     // 📜 Reiniciar historial local
     setHistory([imageSrc]);
@@ -783,8 +1074,7 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
    * - Izquierda: vista previa + herramientas (crop/rotate/history/reset)
    * - Derecha: instrucciones + estado + consejos
    *
-   * Canvas ocultos:
-   * - canvasRef: rotación (commit)
+   * Canvas oculto:
    * - cropCanvasRef: recorte (commit)
    *
    * Snackbars:
@@ -816,9 +1106,23 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
             <Card variant="outlined" sx={{ p: 2, borderRadius: 2 }}>
               <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
                 <Typography variant="subtitle2" gutterBottom color="text.secondary">
-                  👁️ Vista Previa {isCropping && '(Modo Recorte)'}
+                  👁️ Vista Previa {isCropping && '(Modo Recorte)'}{perspectiveQuad && '(Modo Perspectiva)'}{adjustments && '(Ajustes)'}
                 </Typography>
 
+                {/* 📐 Controles de perspectiva */}
+                {perspectiveQuad && (
+                  <Button
+                    variant="contained"
+                    color="success"
+                    size="small"
+                    startIcon={<Save />}
+                    onClick={applyPerspective}
+                    disabled={isProcessing}
+                  >
+                    {isProcessing ? '📐 Procesando...' : '📐 Enderezar'}
+                  </Button>
+                )}
+
                 {/* 🎯 Controles de recorte */}
                 {isCropping && crop && (
                   <Button
@@ -858,6 +1162,24 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
                     onError={handleImageError}
                     crossOrigin="anonymous"
                   />
+
+                  {/* 📐 Esquinas arrastrables (modo perspectiva) */}
+                  {perspectiveQuad && imgRef.current && (
+                    <CornerHandles
+                      quad={perspectiveQuad}
+                      width={imgRef.current.naturalWidth}
+                      height={imgRef.current.naturalHeight}
+                      onChange={setPerspectiveQuad}
+                    />
+                  )}
+
+                  {/* 🎛️ Vista previa de ajustes */}
+                  {adjustments && (
+                    <canvas
+                      ref={previewCanvasRef}
+                      style={{ position: 'absolute', inset: 0, width: '100%', height: '100%' }}
+                    />
+                  )}
                 </ReactCrop>
 
                 {/* ⏳ Overlay de carga */}
@@ -883,13 +1205,44 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
               <Box sx={{ mt: 2, display: 'flex', justifyContent: 'center', gap: 1, flexWrap: 'wrap' }}>
                 {/* ✂️ Botón de recorte */}
                 <Tooltip title={isCropping ? "Desactivar recorte" : "Activar recorte"}>
-                  <IconButton 
-                    onClick={toggleCropping} 
-                    size="medium"
-                    color={isCropping ? "primary" : "default"}
-                  >
-                    <CropIcon />
-                  </IconButton>
+                  <span>
+                    <IconButton 
+                      onClick={toggleCropping} 
+                      size="medium"
+                      color={isCropping ? "primary" : "default"}
+                      disabled={!!perspectiveQuad || !!adjustments}
+                    >
+                      <CropIcon />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+
+                {/* 📐 Botón de perspectiva */}
+                <Tooltip title={perspectiveQuad ? "Desactivar perspectiva" : "Detectar bordes y corregir perspectiva"}>
+                  <span>
+                    <IconButton
+                      onClick={togglePerspective}
+                      size="medium"
+                      color={perspectiveQuad ? "primary" : "default"}
+                      disabled={isProcessing || isCropping || !!adjustments || rotate !== 0}
+                    >
+                      <CropFree />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+
+                {/* 🎛️ Botón de ajustes */}
+                <Tooltip title={adjustments ? "Cerrar ajustes" : "Brillo, contraste, nitidez..."}>
+                  <span>
+                    <IconButton
+                      onClick={toggleAdjustments}
+                      size="medium"
+                      color={adjustments ? "primary" : "default"}
+                      disabled={isProcessing || isCropping || !!perspectiveQuad || rotate !== 0}
+                    >
+                      <Tune />
+                    </IconButton>
+                  </span>
                 </Tooltip>
 
                 {/* 🔄 Girar izquierda */}
@@ -897,7 +1250,7 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
                   <IconButton 
                     onClick={rotateLeft}
                     size="medium"
-                    disabled={isProcessing}
+                    disabled={isProcessing || !!perspectiveQuad || !!adjustments}
                   >
                     <RotateLeft />
                   </IconButton>
@@ -908,12 +1261,25 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
                   <IconButton 
                     onClick={rotateRight}
                     size="medium"
-                    disabled={isProcessing}
+                    disabled={isProcessing || !!perspectiveQuad || !!adjustments}
                   >
                     <RotateRight />
                   </IconButton>
                 </Tooltip>
 
+                {/* 📐 Enderezar automáticamente */}
+                <Tooltip title="Enderezar automáticamente (según el texto)">
+                  <span>
+                    <IconButton
+                      onClick={autoDeskew}
+                      size="medium"
+                      disabled={isProcessing || isCropping || !!perspectiveQuad || !!adjustments || rotate !== 0}
+                    >
+                      <Straighten />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+
                 {/* 💾 Aplicar rotación */}
                 <Tooltip title="Aplicar rotación a la imagen">
                   <Button
@@ -967,6 +1333,59 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
                 </Tooltip>
               </Box>
 
+              {/* 🎚️ Rotación fina */}
+              <Box sx={{ mt: 2, display: 'flex', alignItems: 'center', gap: 1 }}>
+                <Tooltip title="-0.1°">
+                  <span>
+                    <IconButton
+                      size="small"
+                      onClick={() => setFineRotation(fineRotation - 0.1)}
+                      disabled={isProcessing || !!perspectiveQuad || !!adjustments}
+                    >
+                      <Remove fontSize="small" />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+                <Box sx={{ flexGrow: 1, px: 1 }}>
+                  <Slider
+                    min={-FINE_ROTATION_RANGE}
+                    max={FINE_ROTATION_RANGE}
+                    step={0.1}
+                    value={fineRotation}
+                    onChange={(v) => setFineRotation(Array.isArray(v) ? v[0] : v)}
+                    disabled={isProcessing || !!perspectiveQuad || !!adjustments}
+                  />
+                </Box>
+                <Tooltip title="+0.1°">
+                  <span>
+                    <IconButton
+                      size="small"
+                      onClick={() => setFineRotation(fineRotation + 0.1)}
+                      disabled={isProcessing || !!perspectiveQuad || !!adjustments}
+                    >
+                      <Add fontSize="small" />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+                <Typography variant="caption" color="text.secondary" sx={{ minWidth: 56, textAlign: 'right' }}>
+                  🎚️ {fineRotation.toFixed(1)}°
+                </Typography>
+              </Box>
+
+              {/* 🎛️ Panel de ajustes */}
+              {adjustments && imgRef.current && (
+                <AdjustmentsPanel
+                  value={adjustments}
+                  onChange={setAdjustments}
+                  onApply={applyImageAdjustments}
+                  outputSize={{
+                    width: Math.round(imgRef.current.naturalWidth * adjustments.scale / 100),
+                    height: Math.round(imgRef.current.naturalHeight * adjustments.scale / 100)
+                  }}
+                  disabled={isProcessing}
+                />
+              )}
+
               {/* 📋 Información del recorte */}
               {crop && isCropping && (
                 <Alert severity="info" sx={{ mt: 2 }}>
@@ -1018,15 +1437,42 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
                   </Box>
                 </Box>
 
+                {/* 📐 Perspectiva */}
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+                  <CropFree color="primary" />
+                  <Box>
+                    <Typography variant="subtitle2">Perspectiva</Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      1. Activa 📐 para detectar los bordes<br/>
+                      2. Arrastra las esquinas a la tarjeta<br/>
+                      3. Haz clic en "Enderezar"
+                    </Typography>
+                  </Box>
+                </Box>
+
+                {/* 🎛️ Ajustes */}
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+                  <Tune color="primary" />
+                  <Box>
+                    <Typography variant="subtitle2">Ajustes</Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      1. Abre 🎛️ el panel de ajustes<br/>
+                      2. Mueve los sliders (vista previa en vivo)<br/>
+                      3. Haz clic en "Aplicar ajustes"
+                    </Typography>
+                  </Box>
+                </Box>
+
                 {/* 🔄 Rotación */}
                 <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
                   <RotateLeft color="secondary" />
                   <Box>
                     <Typography variant="subtitle2">Rotación</Typography>
                     <Typography variant="caption" color="text.secondary">
-                      1. Gira la imagen con ↶ o ↷<br/>
-                      2. Haz clic en "Aplicar Rotación"<br/>
-                      3. Los cambios se guardan automáticamente
+                      1. Gira la imagen con ↶ o ↷ (90°)<br/>
+                      2. Ajusta fino con el slider o ± (0.1°)<br/>
+                      3. Haz clic en "Aplicar Rotación"<br/>
+                      📐 Enderezar estima la inclinación del texto
                     </Typography>
                   </Box>
                 </Box>
@@ -1078,6 +1524,7 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
                 💡 <strong>Consejos:</strong><br/>
                 • Recorta solo el área de la INE para mejor OCR<br/>
                 • Gira la imagen si está inclinada<br/>
+                • Usa 📐 si la foto se tomó en ángulo<br/>
                 • Asegúrate que el texto sea legible<br/>
                 • Usa Deshacer/Rehacer si cometes errores
               </Typography>
@@ -1085,12 +1532,6 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
           </Grid>
         </Grid>
 
-        {/* 🎨 Canvas oculto para procesamiento */}
-        <canvas
-          ref={canvasRef}
-          style={{ display: 'none' }}
-        />
-
         {/* ✂️ Canvas oculto para recorte */}
         <canvas
           ref={cropCanvasRef}
@@ -1129,6 +1570,10 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
             <br/>
             • Todas las rotaciones aplicadas
             <br/>
+            • Todas las correcciones de perspectiva
+            <br/>
+            • Todos los ajustes de imagen
+            <br/>
             • Todo el historial de cambios
             <br/>
             <br/>
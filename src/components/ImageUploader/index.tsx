@@ -6,8 +6,11 @@
  * Este componente representa el **Paso 0** del flujo (wizard):
  * ✅ Permite al usuario:
  * - 📁 Subir una imagen desde archivo (input file)
- * - 🎯 Arrastrar y soltar (drag & drop)
+ * - 🎯 Arrastrar y soltar (drag & drop) archivos, o imágenes / enlaces
+ *   desde otra página (se descargan por URL)
+ * - 📋 Pegar (Ctrl+V) una imagen o URL de imagen en cualquier parte del paso
  * - 📸 Abrir la cámara (delegando al padre)
+ * - 🔙 Elegir el lado de la credencial (anverso / reverso)
  *
  * 🧠 Integración con App.tsx:
  * - `onImageSelect(file)`:
@@ -17,9 +20,34 @@
  * - `onCameraOpen()`:
  *    👉 Abre el modal de cámara en el padre (CameraCapture).
  *
+ * - `isReverso` / `onSideChange(reverso)`:
+ *    👉 El lado elegido vive en el padre y define el endpoint OCR
+ *       (`/ocr` o `/ocrreverso`) que se usará al final del wizard.
+ *
+ * - `sessionMode` / `onSessionModeChange(enabled)`:
+ *    👉 Activa la sesión de dos lados (anverso y luego reverso).
+ *       Mientras está activa, el lado lo decide el padre.
+ *
+ * - `batchMode` / `onBatchModeChange(enabled)` / `onFilesSelect(files)`:
+ *    👉 Modo lote: acepta varios archivos (picker o drag & drop) y los
+ *       entrega todos juntos al padre para encolarlos.
+ *
+ * - `documentPages` / `onDocumentPagesChange(pages)`:
+ *    👉 Páginas del último PDF de varias páginas. Viven en el padre para
+ *       que sigan disponibles al volver a este paso (anverso y reverso
+ *       del mismo archivo).
+ *
+ * ✅ Formatos:
+ * - Imágenes (`image/*`)
+ * - 🍏 HEIC / HEIF: se convierten a JPEG en el navegador
+ * - 📄 PDF: cada página se convierte a imagen; si hay varias se elige
+ *   con el selector de páginas (en lote se encolan todas)
+ *
  * ✅ Validaciones incluidas:
- * - Tipo: debe ser `image/*`
+ * - Tipo: imagen, PDF o HEIC
  * - Tamaño: máximo 10MB
+ * - 🔎 Calidad (`analyzeImageQuality`): si la foto tiene problemas
+ *   se muestra el reporte y el usuario decide continuar o elegir otra
  *
  * 🎨 UX:
  * - Estado visual cuando hay drag activo (borde punteado + cambio de color)
@@ -36,17 +64,28 @@
  * =========================================================
  */
 
-import React, { useRef } from 'react';
+import React, { useEffect, useRef } from 'react';
 import { 
   Box, 
   Button, 
   Typography, 
   Paper,
   Alert,
-  LinearProgress
+  LinearProgress,
+  ToggleButton,
+  ToggleButtonGroup,
+  FormControlLabel,
+  Switch
 } from '@mui/material';
 import CloudUploadIcon from '@mui/icons-material/CloudUpload';
 import ImageIcon from '@mui/icons-material/Image';
+import PhotoCameraIcon from '@mui/icons-material/PhotoCamera';
+import PagePicker from '../PagePicker';
+import QualityIndicator from '../QualityIndicator';
+import type { DocumentPage, QualityReport } from '../../types';
+import { documentService } from '../../services/document';
+import { filesFromTransfer, imageUrlFromTransfer } from '../../utils/intake';
+import { analyzeImageQuality } from '../../utils/quality';
 
 /**
  * 🧩 ImageUploaderProps
@@ -60,13 +99,72 @@ import ImageIcon from '@mui/icons-material/Image';
  * ✅ onCameraOpen:
  * - Se dispara cuando el usuario decide usar la cámara.
  * - El componente padre decide cómo abrir el modal/cámara.
+ *
+ * ✅ isReverso:
+ * - Lado actualmente seleccionado (false -> anverso, true -> reverso).
+ *
+ * ✅ onSideChange:
+ * - Se dispara cuando el usuario cambia de lado.
+ *
+ * ✅ sessionMode / onSessionModeChange (opcionales):
+ * - Estado y callback del modo sesión (anverso + reverso).
+ *
+ * ✅ batchMode / onBatchModeChange / onFilesSelect (opcionales):
+ * - Estado y callback del modo lote + entrega de varios archivos válidos.
+ *
+ * ✅ documentPages / onDocumentPagesChange (opcionales):
+ * - Páginas del PDF cargado (para el selector de páginas).
  * ---------------------------------------------------------
  */
 interface ImageUploaderProps {
   onImageSelect: (file: File) => void;
   onCameraOpen: () => void;
+  isReverso: boolean;
+  onSideChange: (isReverso: boolean) => void;
+  sessionMode?: boolean;
+  onSessionModeChange?: (enabled: boolean) => void;
+  batchMode?: boolean;
+  onBatchModeChange?: (enabled: boolean) => void;
+  onFilesSelect?: (files: File[]) => void;
+  documentPages?: DocumentPage[];
+  onDocumentPagesChange?: (pages: DocumentPage[]) => void;
 }
 
+/** 📏 Tamaño máximo permitido por archivo (10MB) */
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+/**
+ * 🔍 validateImageFile
+ * ---------------------------------------------------------
+ * Valida tipo (imagen, PDF o HEIC) y tamaño (<= 10MB) de un archivo.
+ *
+ * @param file Archivo a validar
+ * @returns Mensaje de error, o `null` si el archivo es válido
+ * ---------------------------------------------------------
+ */
+const validateImageFile = (file: File): string | null => {
+  console.log('🔍 Validando archivo:', {
+    nombre: file.name,
+    tamaño: `${(file.size / 1024 / 1024).toFixed(2)} MB`,
+    tipo: file.type,
+    esImagen: file.type.startsWith('image/'),
+    esPdf: documentService.isPdf(file),
+    esHeic: documentService.isHeic(file)
+  });
+
+  if (!documentService.isSupported(file)) {
+    console.error('❌ Archivo no es imagen ni PDF:', file.type);
+    return '❌ Por favor, selecciona una imagen (JPEG, PNG, HEIC, etc.) o un PDF';
+  }
+
+  if (file.size > MAX_FILE_SIZE) {
+    console.error('❌ Archivo demasiado grande:', file.size);
+    return '❌ El archivo es demasiado grande. Máximo 10MB.';
+  }
+
+  return null;
+};
+
 /**
  * 📤 ImageUploader
  * =========================================================
@@ -83,6 +181,16 @@ interface ImageUploaderProps {
  */
 const ImageUploader: React.FC<ImageUploaderProps> = ({ 
   onImageSelect, 
+  onCameraOpen,
+  isReverso,
+  onSideChange,
+  sessionMode = false,
+  onSessionModeChange,
+  batchMode = false,
+  onBatchModeChange,
+  onFilesSelect,
+  documentPages = [],
+  onDocumentPagesChange
 }) => {
   /**
    * 📌 fileInputRef
@@ -110,6 +218,103 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({
    */
   const [selectedFile, setSelectedFile] = React.useState<File | null>(null);
 
+  /**
+   * 🔎 qualityReport / analyzing
+   * ---------------------------------------------------------
+   * Reporte de calidad del archivo seleccionado. Solo se guarda
+   * si hay problemas (si todo está bien se continúa directo).
+   */
+  const [qualityReport, setQualityReport] = React.useState<QualityReport | null>(null);
+  const [analyzing, setAnalyzing] = React.useState(false);
+
+  /**
+   * 🔄 converting
+   * ---------------------------------------------------------
+   * Mensaje de la conversión en curso (PDF / HEIC), o null.
+   */
+  const [converting, setConverting] = React.useState<string | null>(null);
+
+  /**
+   * 🔎 checkAndSelect
+   * ---------------------------------------------------------
+   * Revisa la calidad de una imagen lista (original o convertida)
+   * y, si está bien, la entrega al padre con `onImageSelect`.
+   * Si tiene problemas guarda el reporte para que el usuario decida.
+   * ---------------------------------------------------------
+   */
+  const checkAndSelect = (file: File) => {
+    setSelectedFile(file);
+    setQualityReport(null);
+    setAnalyzing(true);
+
+    const url = URL.createObjectURL(file);
+    analyzeImageQuality(url)
+      .then((report) => {
+        console.log('🔎 Calidad del archivo:', report.nivel, report.puntaje);
+        if (report.nivel === 'ok') onImageSelect(file);
+        else setQualityReport(report);
+      })
+      .catch((qualityError) => {
+        // ⚠️ Si el análisis falla no se bloquea la carga
+        console.warn('⚠️ No se pudo analizar la calidad:', qualityError);
+        onImageSelect(file);
+      })
+      .finally(() => {
+        URL.revokeObjectURL(url);
+        setAnalyzing(false);
+      });
+  };
+
+  /**
+   * 🔄 convertAndSelect
+   * ---------------------------------------------------------
+   * Convierte PDF / HEIC antes de revisar la calidad:
+   * - 🍏 HEIC -> JPEG
+   * - 📄 PDF de 1 página -> esa página
+   * - 📄 PDF de varias páginas -> selector de páginas
+   * - 🖼️ Imagen normal -> directo a `checkAndSelect`
+   * ---------------------------------------------------------
+   */
+  const convertAndSelect = async (file: File) => {
+    onDocumentPagesChange?.([]);
+
+    if (!documentService.isPdf(file) && !documentService.isHeic(file)) {
+      checkAndSelect(file);
+      return;
+    }
+
+    setSelectedFile(file);
+    setQualityReport(null);
+    try {
+      if (documentService.isHeic(file)) {
+        setConverting('🍏 Convirtiendo foto HEIC...');
+        checkAndSelect(await documentService.convertHeic(file));
+        return;
+      }
+
+      setConverting('📄 Convirtiendo PDF...');
+      const pages = await documentService.renderPdf(file, (done, total) => {
+        setConverting(`📄 Convirtiendo página ${done} de ${total}...`);
+      });
+
+      if (pages.length === 0) throw new Error('El PDF no tiene páginas');
+      if (pages.length === 1 || !onDocumentPagesChange) {
+        checkAndSelect(pages[0].archivo);
+        return;
+      }
+
+      // 📄 Varias páginas: el usuario elige en el selector
+      setSelectedFile(null);
+      onDocumentPagesChange(pages);
+    } catch (conversionError) {
+      console.error('❌ Error al convertir el archivo:', conversionError);
+      alert(`❌ No se pudo leer "${file.name}". Si es un PDF, revisa que no esté dañado ni protegido con contraseña.`);
+      setSelectedFile(null);
+    } finally {
+      setConverting(null);
+    }
+  };
+
   // 📁 Manejar selección de archivo - CORREGIDO
   /**
    * 📁 handleFileChange
@@ -119,11 +324,16 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({
    * ✅ Flujo:
    * 1) Obtiene files del input
    * 2) Valida que exista al menos 1 archivo
-   * 3) Valida tipo (image/*)
-   * 4) Valida tamaño (<= 10MB)
-   * 5) Guarda selectedFile
-   * 6) Llama `onImageSelect(file)` para que el padre procese
-   * 7) Limpia el input para permitir seleccionar el mismo archivo otra vez
+   * 3) Los manda a `handleFiles` (común a pegar / arrastrar / URL):
+   *    - Valida tipo (imagen, PDF o HEIC) y tamaño (<= 10MB)
+   *    - Convierte PDF / HEIC (un PDF de varias páginas abre el selector)
+   *    - Revisa la calidad y, si está bien, llama `onImageSelect(file)`
+   *      para que el padre procese (si no, espera la decisión del usuario)
+   * 4) Limpia el input para permitir seleccionar el mismo archivo otra vez
+   *
+   * 📚 En modo lote `handleFiles` valida TODOS los archivos, los convierte
+   * (cada página de un PDF es una imagen aparte), avisa los rechazados y
+   * entrega los válidos con `onFilesSelect(files)`.
    *
    * @param event Evento de cambio del input file
    */
@@ -140,41 +350,162 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({
       return;
     }
 
-    const file = files[0];
+    handleFiles(Array.from(files));
 
-    // 🔍 Validar archivo
-    console.log('🔍 Validando archivo:', {
-      nombre: file.name,
-      tamaño: `${(file.size / 1024 / 1024).toFixed(2)} MB`,
-      tipo: file.type,
-      esImagen: file.type.startsWith('image/')
-    });
+    // 🔄 Limpiar input para permitir seleccionar el mismo archivo otra vez
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  /**
+   * 📥 handleFiles
+   * ---------------------------------------------------------
+   * Punto de entrada común de TODAS las vías (selector, arrastre,
+   * pegar, URL): misma validación de tipo y tamaño.
+   *
+   * @param files Archivos recibidos (en modo normal se usa el primero)
+   * ---------------------------------------------------------
+   */
+  const handleFiles = (files: File[]) => {
+    if (files.length === 0) return;
+
+    // 📚 Modo lote: validar todos y entregar los válidos
+    if (batchMode && onFilesSelect) {
+      const valid: File[] = [];
+      const rejected: string[] = [];
+
+      files.forEach((file) => {
+        const error = validateImageFile(file);
+        if (error) rejected.push(`${file.name}: ${error}`);
+        else valid.push(file);
+      });
+
+      // 🔄 PDF -> una imagen por página, HEIC -> JPEG (uno por uno, para no saturar memoria)
+      const convertAll = async () => {
+        const images: File[] = [];
+        for (const file of valid) {
+          setConverting(`🔄 Preparando ${file.name}...`);
+          try {
+            images.push(...(await documentService.toImageFiles(file)));
+          } catch (conversionError) {
+            console.error('❌ Error al convertir:', file.name, conversionError);
+            rejected.push(`${file.name}: ❌ No se pudo convertir`);
+          }
+        }
+        setConverting(null);
 
-    if (!file.type.startsWith('image/')) {
-      console.error('❌ Archivo no es imagen:', file.type);
-      alert('❌ Por favor, selecciona un archivo de imagen (JPEG, PNG, etc.)');
+        if (rejected.length > 0) {
+          alert(`⚠️ Se omitieron ${rejected.length} archivo(s):\n\n${rejected.join('\n')}`);
+        }
+        if (images.length > 0) onFilesSelect(images);
+      };
+      void convertAll();
       return;
     }
 
-    if (file.size > 10 * 1024 * 1024) { // 10MB límite
-      console.error('❌ Archivo demasiado grande:', file.size);
-      alert('❌ El archivo es demasiado grande. Máximo 10MB.');
+    const file = files[0];
+
+    // 🔍 Validar archivo
+    const error = validateImageFile(file);
+    if (error) {
+      alert(error);
       return;
     }
 
     // ✅ Archivo válido
-    setSelectedFile(file);
     console.log('✅ Archivo validado correctamente');
 
-    // 🚀 Enviar archivo al padre (App.tsx)
-    onImageSelect(file);
+    // 🔄 Convertir (PDF / HEIC) y 🔎 revisar calidad antes de enviar al padre (App.tsx)
+    void convertAndSelect(file);
+  };
 
-    // 🔄 Limpiar input para permitir seleccionar el mismo archivo otra vez
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
+  /**
+   * 🌐 handleImageUrl
+   * ---------------------------------------------------------
+   * Descarga una imagen arrastrada / pegada desde otra página y
+   * la manda a `handleFiles` (misma validación que un archivo).
+   *
+   * ⚠️ Si el sitio de origen no permite CORS la descarga falla:
+   * se pide al usuario guardar la imagen y subirla.
+   * ---------------------------------------------------------
+   */
+  const handleImageUrl = async (url: string) => {
+    setConverting('🌐 Descargando imagen...');
+    try {
+      const file = await documentService.fetchImage(url);
+      setConverting(null);
+      handleFiles([file]);
+    } catch (fetchError) {
+      console.error('❌ No se pudo descargar la imagen:', fetchError);
+      setConverting(null);
+      alert('❌ No se pudo descargar la imagen (el sitio puede bloquear la descarga). Guárdala en tu equipo y súbela como archivo.');
     }
   };
 
+  /**
+   * 📋 handlePaste
+   * ---------------------------------------------------------
+   * Ctrl+V en cualquier parte del paso 0:
+   * - Imagen copiada (captura de pantalla, "Copiar imagen")
+   * - URL de imagen o `<img>` copiado de una página
+   *
+   * ⚠️ Si el foco está en un campo de texto se deja pegar normal.
+   * ---------------------------------------------------------
+   */
+  const handlePaste = (event: ClipboardEvent) => {
+    const target = event.target as HTMLElement | null;
+    if (target?.closest('input, textarea, [contenteditable="true"]')) return;
+
+    const files = filesFromTransfer(event.clipboardData);
+    const url = files.length === 0 ? imageUrlFromTransfer(event.clipboardData) : null;
+    if (files.length === 0 && !url) return;
+
+    event.preventDefault();
+    console.log('📋 Contenido pegado:', { archivos: files.length, url: url?.slice(0, 120) });
+    if (files.length > 0) handleFiles(files);
+    else if (url) void handleImageUrl(url);
+  };
+
+  /**
+   * 📋 Listener global de `paste`
+   * ---------------------------------------------------------
+   * Se registra una vez; el ref apunta siempre al handler del
+   * último render (con los props / estado actuales).
+   * ---------------------------------------------------------
+   */
+  const pasteRef = useRef(handlePaste);
+  useEffect(() => {
+    pasteRef.current = handlePaste;
+  });
+  useEffect(() => {
+    const listener = (event: ClipboardEvent) => pasteRef.current(event);
+    window.addEventListener('paste', listener);
+    return () => window.removeEventListener('paste', listener);
+  }, []);
+
+  // 🔎 Decisión sobre un archivo con problemas de calidad
+  /**
+   * ➡️ handleContinueAnyway
+   * - Envía el archivo al editor a pesar del reporte (el editor
+   *   puede corregir recorte, inclinación y exposición).
+   */
+  const handleContinueAnyway = () => {
+    if (!selectedFile) return;
+    setQualityReport(null);
+    onImageSelect(selectedFile);
+  };
+
+  /**
+   * 🔄 handleChooseAnother
+   * - Descarta el archivo y vuelve a abrir el selector.
+   */
+  const handleChooseAnother = () => {
+    setSelectedFile(null);
+    setQualityReport(null);
+    fileInputRef.current?.click();
+  };
+
   // 📸 Abrir selector de archivos
   /**
    * 📁 handleUploadClick
@@ -216,8 +547,9 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({
    *
    * ✅ Flujo:
    * - Desactiva dragActive
-   * - Si hay archivo:
-   *   - Construye un “evento simulado” para reutilizar `handleFileChange`
+   * - Si hay archivos: los manda a `handleFiles`
+   * - Si no, busca una imagen / enlace arrastrado desde otra
+   *   página y la descarga (`handleImageUrl`)
    *
    * 🧠 Ventaja:
    * - Reutiliza la misma lógica de validación.
@@ -227,17 +559,31 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({
     e.stopPropagation();
     setDragActive(false);
 
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
+    const files = filesFromTransfer(e.dataTransfer);
+    if (files.length > 0) {
+      handleFiles(files);
+      return;
+    }
 
-      // Simular un cambio de input
-      const event = {
-        target: {
-          files: e.dataTransfer.files
-        }
-      } as React.ChangeEvent<HTMLInputElement>;
+    const url = imageUrlFromTransfer(e.dataTransfer);
+    if (url) void handleImageUrl(url);
+  };
 
-      handleFileChange(event);
-    }
+  // 🔙 Cambiar lado de la credencial
+  /**
+   * 🔙 handleSideChange
+   * ---------------------------------------------------------
+   * Handler del ToggleButtonGroup de lado.
+   *
+   * ⚠️ MUI envía `null` si se vuelve a pulsar el botón activo;
+   * en ese caso se ignora para que siempre haya un lado elegido.
+   *
+   * @param _event Evento del click (no se usa)
+   * @param value  'anverso' | 'reverso' | null
+   */
+  const handleSideChange = (_event: React.MouseEvent<HTMLElement>, value: 'anverso' | 'reverso' | null) => {
+    if (!value) return;
+    onSideChange(value === 'reverso');
   };
 
   /**
@@ -278,10 +624,67 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({
         📷 Subir Imagen de Credencial
       </Typography>
 
-      <Typography variant="body1" color="text.secondary" paragraph sx={{ mb: 4 }}>
+      <Typography variant="body1" color="text.secondary" paragraph sx={{ mb: 2 }}>
         Selecciona una imagen del <strong>anverso</strong> o <strong>reverso</strong> de tu credencial INE/IFE
       </Typography>
 
+      {/* 🔙 Selector de lado */}
+      <ToggleButtonGroup
+        value={isReverso ? 'reverso' : 'anverso'}
+        exclusive
+        onChange={handleSideChange}
+        color="primary"
+        disabled={sessionMode}
+        sx={{ mb: 2 }}
+      >
+        <ToggleButton value="anverso" sx={{ px: 3 }}>
+          🪪 Anverso
+        </ToggleButton>
+        <ToggleButton value="reverso" sx={{ px: 3 }}>
+          🔙 Reverso
+        </ToggleButton>
+      </ToggleButtonGroup>
+
+      {/* 🔁 Modo sesión (anverso + reverso) */}
+      {onSessionModeChange && (
+        <Box sx={{ mb: 4 }}>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={sessionMode}
+                onChange={(e) => onSessionModeChange(e.target.checked)}
+              />
+            }
+            label="🔁 Sesión completa (anverso + reverso)"
+          />
+          {sessionMode && (
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+              Paso {isReverso ? '2 de 2: captura el reverso' : '1 de 2: captura el anverso'}
+            </Typography>
+          )}
+        </Box>
+      )}
+
+      {/* 📚 Modo lote (varios archivos) */}
+      {onBatchModeChange && (
+        <Box sx={{ mb: 4 }}>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={batchMode}
+                onChange={(e) => onBatchModeChange(e.target.checked)}
+              />
+            }
+            label="📚 Modo lote (varios archivos)"
+          />
+          {batchMode && (
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+              Todos los archivos se procesan como {isReverso ? 'reverso' : 'anverso'}
+            </Typography>
+          )}
+        </Box>
+      )}
+
       {/* 🎯 Área de arrastrar y soltar */}
       <Box
         sx={{
@@ -302,13 +705,20 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({
       >
         <ImageIcon sx={{ fontSize: 60, color: 'primary.main', mb: 2 }} />
         <Typography variant="h6" gutterBottom>
-          {dragActive ? '🔄 Suelta la imagen aquí' : '📁 Arrastra y suelta tu imagen aquí'}
+          {dragActive
+            ? batchMode ? '🔄 Suelta las imágenes aquí' : '🔄 Suelta la imagen aquí'
+            : batchMode
+              ? `📚 Arrastra y suelta varias imágenes del ${isReverso ? 'reverso' : 'anverso'} aquí`
+              : `📁 Arrastra y suelta el ${isReverso ? 'reverso' : 'anverso'} aquí`}
         </Typography>
         <Typography variant="body2" color="text.secondary">
-          o haz clic para seleccionar un archivo
+          o haz clic para seleccionar {batchMode ? 'archivos' : 'un archivo'}
         </Typography>
         <Typography variant="caption" sx={{ display: 'block', mt: 1 }}>
-          Formatos: JPEG, PNG, WEBP • Máximo: 10MB
+          Formatos: JPEG, PNG, WEBP, HEIC, PDF • Máximo: 10MB
+        </Typography>
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+          📋 También puedes pegar (Ctrl+V) una imagen o arrastrarla desde otra página
         </Typography>
       </Box>
 
@@ -320,26 +730,27 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({
           color="primary"
           startIcon={<CloudUploadIcon />}
           onClick={handleUploadClick}
+          disabled={!!converting}
           fullWidth
           size="large"
           sx={{ py: 1.5 }}
         >
-          📁 Subir desde Archivo
+          {batchMode ? '📚 Agregar Archivos al Lote' : '📁 Subir desde Archivo'}
         </Button>
 
-        {/* 📸 Botón para abrir cámara 
+        {/* 📸 Botón para abrir cámara (no aplica en modo lote) */}
         <Button
           variant="outlined"
           color="secondary"
           startIcon={<PhotoCameraIcon />}
           onClick={onCameraOpen}
+          disabled={batchMode}
           fullWidth
           size="large"
           sx={{ py: 1.5 }}
         >
           📸 Usar Cámara
         </Button>
-        */}
       </Box>
 
       {/* 🏷️ Input oculto para archivos */}
@@ -347,7 +758,8 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({
         type="file"
         ref={fileInputRef}
         onChange={handleFileChange}
-        accept="image/*"
+        accept="image/*,.heic,.heif,application/pdf,.pdf"
+        multiple={batchMode}
         style={{ display: 'none' }}
       />
 
@@ -370,15 +782,57 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({
           <Typography variant="body2">
             <strong>Tipo:</strong> {selectedFile.type}
           </Typography>
-          <LinearProgress 
-            variant="indeterminate" 
-            sx={{ mt: 1 }} 
-            color="success"
-          />
+          {!qualityReport && (
+            <>
+              <LinearProgress 
+                variant="indeterminate" 
+                sx={{ mt: 1 }} 
+                color="success"
+              />
+              <Typography variant="caption" sx={{ display: 'block', mt: 1 }}>
+                {converting ?? (analyzing ? '🔎 Revisando calidad...' : '⏳ Procesando imagen...')}
+              </Typography>
+            </>
+          )}
+        </Alert>
+      )}
+
+      {/* 📚 Conversión / descarga sin archivo seleccionado (lote o URL) */}
+      {converting && (batchMode || !selectedFile) && (
+        <Box sx={{ mt: 3 }}>
+          <LinearProgress variant="indeterminate" />
           <Typography variant="caption" sx={{ display: 'block', mt: 1 }}>
-            ⏳ Procesando imagen...
+            {converting}
           </Typography>
-        </Alert>
+        </Box>
+      )}
+
+      {/* 📄 Selector de páginas del PDF */}
+      {!batchMode && documentPages.length > 1 && onDocumentPagesChange && (
+        <PagePicker
+          pages={documentPages}
+          disabled={analyzing || !!converting}
+          onSelect={(page) => checkAndSelect(page.archivo)}
+          onDiscard={() => onDocumentPagesChange([])}
+        />
+      )}
+
+      {/* 🔎 Reporte de calidad (solo si hay problemas) */}
+      {qualityReport && (
+        <Box sx={{ textAlign: 'left' }}>
+          <QualityIndicator report={qualityReport} />
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+            Puedes corregirla en el editor; antes del OCR se vuelve a revisar.
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 1, justifyContent: 'flex-end' }}>
+            <Button onClick={handleChooseAnother}>
+              🔄 Elegir otra imagen
+            </Button>
+            <Button variant="contained" color="warning" onClick={handleContinueAnyway}>
+              ➡️ Continuar al editor
+            </Button>
+          </Box>
+        </Box>
       )}
 
       {/* 📝 Consejos útiles */}
@@ -49,7 +49,8 @@ import 'react-toastify/dist/ReactToastify.css';
 
 // 📦 Servicios
 import { authService } from '../services/api';
-import { useNavigate } from 'react-router-dom';
+import { API_ERROR_INFO, toApiError } from '../services/errors';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 
 /**
  * 🔐 Login
@@ -72,6 +73,10 @@ const Login: React.FC = () => {
   // 🧭 Navegación
   const navigate = useNavigate();
 
+  // ⏳ Llegó aquí porque venció la sesión (`/login?sesion=expirada`)
+  const [searchParams] = useSearchParams();
+  const sessionExpired = searchParams.get('sesion') === 'expirada';
+
   // 📝 Estados del formulario
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
@@ -150,19 +155,29 @@ const Login: React.FC = () => {
         navigate('/');
       }, 1000);
       
-    } catch (error: any) {
+    } catch (error) {
       console.error('❌ Error en login:', error);
-      
-      // 🎯 Manejo específico de errores
-      if (error.message.includes('incorrectos')) {
-        setError('❌ Usuario o contraseña incorrectos');
-        toast.error('❌ Credenciales incorrectas');
-      } else if (error.message.includes('conexión')) {
-        setError('🔌 Error de conexión. Verifica tu internet.');
-        toast.error('🔌 Error de conexión');
-      } else {
-        setError(`⚠️ ${error.message}`);
-        toast.error(`⚠️ ${error.message}`);
+      const apiError = toApiError(error);
+
+      // 🎯 Manejo específico por código (`ApiError`)
+      switch (apiError.code) {
+        case 'auth':
+          // 🔐 En /loginjwt, 401 = credenciales incorrectas
+          setError('❌ Usuario o contraseña incorrectos');
+          toast.error('❌ Credenciales incorrectas');
+          break;
+        case 'network':
+        case 'timeout':
+          setError(`${API_ERROR_INFO[apiError.code].titulo}. ${API_ERROR_INFO[apiError.code].sugerencia}`);
+          toast.error(API_ERROR_INFO[apiError.code].titulo);
+          break;
+        default: {
+          // 🧪 server / validation / unknown: detalle + id de la petición
+          const info = API_ERROR_INFO[apiError.code];
+          const requestId = apiError.requestId ? ` (ID: ${apiError.requestId})` : '';
+          setError(`${info.titulo}: ${apiError.message}${requestId}`);
+          toast.error(info.titulo);
+        }
       }
       
     } finally {
@@ -281,6 +296,13 @@ const Login: React.FC = () => {
                 autoComplete="current-password"
               />
               
+              {/* ⏳ Sesión vencida: el trabajo en curso se restaura al entrar */}
+              {sessionExpired && !error && (
+                <Alert severity="info" sx={{ borderRadius: 2 }}>
+                  ⏳ Tu sesión venció. Inicia sesión con el mismo usuario para continuar donde te quedaste.
+                </Alert>
+              )}
+
               {/* ❌ Mensaje de error */}
               {error && (
                 <Alert 
@@ -16,13 +16,15 @@
  * - ✅ Render de tablas/campos con copy-to-clipboard
  * - 🖼️ Sección opcional de "Imagen Procesada" (para comparar lo enviado al API)
  * - 📊 Resumen final del procesamiento (chips)
+ * - 🧾 MRZ decodificado en el cliente con dígitos de control (reverso)
+ * - 🆔 Validación de CURP y cruce con fecha, sexo y estado (anverso)
  *
  * 🧠 Integración con App.tsx:
  * - App llama a la API (anverso/reverso) y pasa:
  *   - data (resultado JSON)
  *   - isReverso (bool)
  *   - loading (bool)
- *   - error (string opcional)
+ *   - error (`ApiError` opcional) + onRetry
  *   - processedImage (DataURL opcional)
  *   - imageComparison (opcional: originalImage vs processedImage + confidence)
  *
@@ -36,7 +38,7 @@
  * =========================================================
  */
 
-import React from 'react';
+import React, { useState } from 'react';
 import {
   Box,
   Paper,
@@ -57,14 +59,29 @@ import {
   Divider,
   useTheme,
   useMediaQuery,
-  Stack
+  Stack,
+  Button,
+  TableHead,
+  AlertTitle
 } from '@mui/material';
 import ContentCopyIcon from '@mui/icons-material/ContentCopy';
 import CheckCircleIcon from '@mui/icons-material/CheckCircle';
 import ErrorIcon from '@mui/icons-material/Error';
 import ImageIcon from '@mui/icons-material/Image';
 import CompareIcon from '@mui/icons-material/Compare';
-import type { INEData, ReversoData } from '../../types';
+import CancelIcon from '@mui/icons-material/Cancel';
+import WarningIcon from '@mui/icons-material/Warning';
+import EditIcon from '@mui/icons-material/Edit';
+import CorrectionForm from '../CorrectionForm';
+import type { FieldFeedback } from '../CorrectionForm';
+import RequestProgressBar from '../RequestProgressBar';
+import { API_ERROR_INFO, type ApiError } from '../../services/errors';
+import type { CorrectableField, FieldCorrection, FieldMismatch, INEData, ReversoData, RequestProgress, VigenciaEstado } from '../../types';
+import { parseMRZ, isMRZValid } from '../../utils/mrz';
+import { validateCurp, crossCheckCurp } from '../../utils/curp';
+import { validateClaveElector, crossCheckClaveElector } from '../../utils/claveElector';
+import { evaluateVigencia } from '../../utils/vigencia';
+import { fieldLabel, isReversoData } from '../../utils/fields';
 
 /**
  * 🧩 OCRResultsProps
@@ -85,8 +102,14 @@ import type { INEData, ReversoData } from '../../types';
  * ✅ loading:
  * - Controla el estado de carga visual (spinner).
  *
- * ✅ error (opcional):
- * - Si existe, se muestra un alert con error.
+ * ✅ progress / onCancel (opcionales):
+ * - Fase y porcentaje de la petición OCR + botón "Cancelar"
+ *
+ * ✅ error / onRetry (opcionales):
+ * - `ApiError` del último OCR; se muestra según su `code`
+ *   (título + sugerencia, status HTTP e id de la petición)
+ * - "Reintentar" solo si el error es reintentable y viene `onRetry`
+ * - `not_ine` con datos: aviso sobre los resultados (no los oculta)
  *
  * ✅ processedImage (opcional):
  * - DataURL de la imagen que se envió al API para OCR.
@@ -97,13 +120,23 @@ import type { INEData, ReversoData } from '../../types';
  *   - originalImage: imagen original sin editar
  *   - processedImage: imagen enviada al API (puede estar editada)
  *   - confidence: porcentaje opcional si algún día tu API lo devuelve
+ *
+ * ✅ referenceDate (opcional):
+ * - Fecha contra la que se evalúa la vigencia (default: hoy)
+ *
+ * ✅ corrections / onCorrectField (opcional):
+ * - Correcciones manuales del lado mostrado (bitácora)
+ * - Si viene `onCorrectField`, se habilita el modo "✏️ Corregir"
  * ---------------------------------------------------------
  */
 interface OCRResultsProps {
   data: INEData | ReversoData | null;
   isReverso?: boolean;
   loading: boolean;
-  error?: string;
+  progress?: RequestProgress | null; // 📶 Progreso de la petición OCR
+  onCancel?: () => void; // 🛑 Cancelar la petición
+  error?: ApiError | null; // 🚨 Falla del OCR (o aviso `not_ine`)
+  onRetry?: () => void; // 🔁 Volver a procesar la misma imagen
   processedImage?: string; // 🆕 Nueva prop para la imagen procesada
   imageComparison?: { // 🆕 Opcional: datos para comparación
     originalImage?: string;
@@ -111,8 +144,22 @@ interface OCRResultsProps {
     confidence?: number;
   };
   isMobile?: boolean; // 🆕 Nueva prop para responsividad desde App.tsx
+  referenceDate?: Date; // 📆 Fecha de referencia para la vigencia
+  corrections?: FieldCorrection[]; // ✏️ Correcciones del lado mostrado
+  onCorrectField?: (campo: CorrectableField, valor: string) => void; // ✏️ Confirmar corrección
 }
 
+/**
+ * 🎨 vigenciaSeverity
+ * - Color del banner según el estado de la vigencia.
+ */
+const vigenciaSeverity: Record<VigenciaEstado, 'success' | 'warning' | 'error' | 'info'> = {
+  vigente: 'success',
+  por_vencer: 'warning',
+  vencida: 'error',
+  desconocida: 'info'
+};
+
 /**
  * 📄 OCRResults
  * =========================================================
@@ -130,10 +177,16 @@ const OCRResults: React.FC<OCRResultsProps> = ({
   data, 
   isReverso = false, 
   loading, 
-  error,
+  progress = null,
+  onCancel,
+  error = null,
+  onRetry,
   processedImage,
   imageComparison,
-  isMobile: propIsMobile
+  isMobile: propIsMobile,
+  referenceDate,
+  corrections = [],
+  onCorrectField
 }) => {
   /**
    * 🎨 theme
@@ -155,6 +208,12 @@ const OCRResults: React.FC<OCRResultsProps> = ({
    */
   const isSmallMobile = useMediaQuery(theme.breakpoints.down('sm'));
 
+  /**
+   * ✏️ editMode
+   * - true -> se muestra el formulario de corrección en lugar de las tablas.
+   */
+  const [editMode, setEditMode] = useState(false);
+
   // 📋 Copiar al portapapeles
   /**
    * 📋 copyToClipboard
@@ -228,22 +287,51 @@ const copyToClipboard = async (text: string) => {
         <Typography variant="body2" color="text.secondary" sx={{ mt: 1, textAlign: 'center' }}>
           Esto puede tomar unos segundos
         </Typography>
+        <Box sx={{ width: '100%', maxWidth: 420, mt: 2 }}>
+          <RequestProgressBar progress={progress} onCancel={onCancel} />
+        </Box>
       </Box>
     );
   }
 
+  /**
+   * 🚨 renderError
+   * ---------------------------------------------------------
+   * Alert de un `ApiError` según su código: título y sugerencia
+   * de `API_ERROR_INFO`, detalle, status HTTP / id de la
+   * petición y "Reintentar" si aplica.
+   */
+  const renderError = (apiError: ApiError, severity: 'error' | 'warning') => (
+    <Alert
+      severity={severity}
+      icon={severity === 'error' ? <ErrorIcon /> : <WarningIcon />}
+      sx={{ mt: severity === 'error' ? 2 : 0, mb: severity === 'warning' ? 3 : 0, mx: isMobile ? 0 : 'auto' }}
+      action={apiError.retryable && onRetry && (
+        <Button color="inherit" size="small" onClick={onRetry}>
+          🔁 Reintentar
+        </Button>
+      )}
+    >
+      <AlertTitle>{API_ERROR_INFO[apiError.code].titulo}</AlertTitle>
+      <Typography variant="body2" sx={{ wordBreak: 'break-word' }}>
+        {API_ERROR_INFO[apiError.code].sugerencia}
+      </Typography>
+      <Typography variant="caption" component="div" sx={{ mt: 1, opacity: 0.8, wordBreak: 'break-word' }}>
+        {apiError.message}
+        {apiError.status !== null && ` · HTTP ${apiError.status}`}
+        {apiError.requestId && ` · ID ${apiError.requestId}`}
+      </Typography>
+    </Alert>
+  );
+
   /**
    * ❌ Estado: ERROR
    * ---------------------------------------------------------
-   * Si viene `error`, se muestra un Alert rojo.
+   * Si viene `error` (y no es un `not_ine` con datos), se muestra
+   * en lugar de los resultados.
    */
-  if (error) {
-    return (
-      <Alert severity="error" sx={{ mt: 2, mx: isMobile ? 0 : 'auto' }}>
-        <ErrorIcon sx={{ mr: 1 }} />
-        {error}
-      </Alert>
-    );
+  if (error && !(error.code === 'not_ine' && data)) {
+    return renderError(error, 'error');
   }
 
   /**
@@ -259,6 +347,109 @@ const copyToClipboard = async (text: string) => {
     );
   }
 
+  /**
+   * 🔀 reverso / anverso
+   * - `data` ya tipado según el lado (el otro queda en null).
+   */
+  const reverso = isReversoData(data) ? data : null;
+  const anverso = isReversoData(data) ? null : data;
+
+  /**
+   * 🧾 mrz
+   * ---------------------------------------------------------
+   * MRZ decodificado en el cliente (solo reverso).
+   * Permite verificar la lectura del backend de forma independiente.
+   */
+  const mrz = reverso
+    ? parseMRZ(reverso.linea1, reverso.linea2)
+    : null;
+
+  /**
+   * 🏷️ checkFor
+   * - Busca el resultado del dígito de control de un campo.
+   */
+  const checkFor = (campo: string) => mrz?.checks.find((c) => c.campo === campo);
+
+  /**
+   * 🆔 curpCheck / claveCheck / mismatches
+   * ---------------------------------------------------------
+   * Validación de la CURP y de la clave de elector (solo anverso)
+   * y diferencias entre lo que codifican y lo que leyó el OCR.
+   */
+  const curpCheck = anverso?.curp
+    ? validateCurp(anverso.curp)
+    : null;
+  const claveCheck = anverso?.clave_elector
+    ? validateClaveElector(anverso.clave_elector)
+    : null;
+  const mismatches: FieldMismatch[] = anverso ? [
+    ...(curpCheck ? crossCheckCurp(curpCheck, anverso) : []),
+    ...(claveCheck ? crossCheckClaveElector(claveCheck, anverso) : [])
+  ] : [];
+
+  /**
+   * 📆 vigenciaStatus
+   * - Estado de la vigencia (solo anverso) contra `referenceDate`.
+   */
+  const vigenciaStatus = anverso
+    ? evaluateVigencia(anverso.vigencia, referenceDate)
+    : null;
+
+  /**
+   * 💬 feedback
+   * ---------------------------------------------------------
+   * Resultado de los validadores por campo, para el formulario
+   * de corrección. Se recalcula en cada render, así que refleja
+   * los valores ya corregidos.
+   */
+  const feedback: Partial<Record<CorrectableField, FieldFeedback>> = {};
+  if (curpCheck && !curpCheck.valida) {
+    feedback.curp = { severity: 'error', mensaje: curpCheck.errores[0] };
+  }
+  if (claveCheck && !claveCheck.valida) {
+    feedback.clave_elector = { severity: 'error', mensaje: claveCheck.errores[0] };
+  }
+  mismatches.forEach((m) => {
+    if (!feedback[m.campo as CorrectableField]) {
+      feedback[m.campo as CorrectableField] = { severity: 'warning', mensaje: `Según la ${m.fuente}: ${m.esperado}` };
+    }
+  });
+  if (vigenciaStatus?.estado === 'desconocida') {
+    feedback.vigencia = { severity: 'warning', mensaje: vigenciaStatus.etiqueta };
+  }
+  if (mrz) {
+    const lineError = (n: number) => mrz.errores.find((e) => e.startsWith(`La línea ${n}`));
+    const l1 = lineError(1) || (!checkFor('Número de documento')?.valido ? 'Dígito de control del número de documento incorrecto' : '');
+    const failed = mrz.checks.filter((c) => c.campo !== 'Número de documento' && !c.valido).map((c) => c.campo);
+    const l2 = lineError(2) || (failed.length ? `Dígito de control incorrecto: ${failed.join(', ')}` : '');
+    if (l1) feedback.linea1 = { severity: 'error', mensaje: l1 };
+    if (l2) feedback.linea2 = { severity: 'error', mensaje: l2 };
+  }
+
+  /**
+   * ⚠️ renderMismatch
+   * ---------------------------------------------------------
+   * Chips de advertencia junto a un campo que no coincide con
+   * lo decodificado de una clave (CURP / clave de elector).
+   *
+   * @param campo Campo de INEData
+   */
+  const renderMismatch = (campo: keyof INEData) =>
+    mismatches
+      .filter((m) => m.campo === campo)
+      .map((mismatch) => (
+        <Tooltip key={mismatch.fuente} title={`Según la ${mismatch.fuente}: ${mismatch.esperado}`}>
+          <Chip
+            icon={<WarningIcon />}
+            label={`${mismatch.fuente === 'CURP' ? 'CURP' : 'Clave'}: ${mismatch.esperado}`}
+            color="warning"
+            size="small"
+            variant="outlined"
+            sx={{ ml: 1, mt: 0.5 }}
+          />
+        </Tooltip>
+      ));
+
   /**
    * ✅ Render principal
    * =========================================================
@@ -305,8 +496,40 @@ const copyToClipboard = async (text: string) => {
               height: isMobile ? 28 : 32
             }}
           />
+          {onCorrectField && (
+            <Button
+              variant={editMode ? 'contained' : 'outlined'}
+              color="warning"
+              size={isMobile ? 'small' : 'medium'}
+              startIcon={editMode ? <CheckCircleIcon /> : <EditIcon />}
+              onClick={() => setEditMode((prev) => !prev)}
+              sx={{ ml: isMobile ? 0 : 2 }}
+            >
+              {editMode ? 'Terminar corrección' : 'Corregir'}
+            </Button>
+          )}
         </Box>
 
+        {/* 📆 Estado de la vigencia (solo anverso) */}
+        {/* 🪪 Aviso "no parece INE" (los datos se muestran de todos modos) */}
+        {error?.code === 'not_ine' && renderError(error, 'warning')}
+
+        {vigenciaStatus && (
+          <Alert severity={vigenciaSeverity[vigenciaStatus.estado]} sx={{ mb: 3 }}>
+            <Typography variant={isMobile ? 'subtitle1' : 'h6'} sx={{ fontWeight: 'bold' }}>
+              {vigenciaStatus.estado === 'vigente' && '✅ Vigente'}
+              {vigenciaStatus.estado === 'por_vencer' && `⏳ ${vigenciaStatus.etiqueta}`}
+              {vigenciaStatus.estado === 'vencida' && '⛔ Vencida'}
+              {vigenciaStatus.estado === 'desconocida' && '❔ Vigencia no detectada'}
+            </Typography>
+            <Typography variant="body2">
+              📆 Vigencia: <strong>{vigenciaStatus.vigencia || '—'}</strong>
+              {vigenciaStatus.estado !== 'desconocida' && ` · ${vigenciaStatus.etiqueta}`}
+              {` · Referencia: ${vigenciaStatus.fecha_referencia}`}
+            </Typography>
+          </Alert>
+        )}
+
         {/**
          * 🔀 Render condicional por lado de la credencial:
          *
@@ -318,7 +541,17 @@ const copyToClipboard = async (text: string) => {
          * - Personal (fecha nac, sexo, país)
          * - Domicilio (calle, colonia, estado)
          */}
-        {isReverso ? (
+        {editMode && onCorrectField ? (
+          // ✏️ Formulario de corrección (valida en vivo)
+          <CorrectionForm
+            data={data}
+            isReverso={isReverso}
+            corrections={corrections}
+            feedback={feedback}
+            onCorrectField={onCorrectField}
+            isMobile={isMobile}
+          />
+        ) : reverso ? (
           // 🔙 Datos del reverso
           <Grid container spacing={isMobile ? 1 : 2}>
             <Grid item xs={12} md={6}>
@@ -344,12 +577,12 @@ const copyToClipboard = async (text: string) => {
                             wordBreak: 'break-word',
                             maxWidth: isMobile ? '150px' : 'none'
                           }}>
-                            {(data as ReversoData).apellido_paterno}
+                            {reverso.apellido_paterno}
                           </Typography>
                           <Tooltip title="Copiar">
                             <IconButton 
                               size={isMobile ? "small" : "medium"} 
-                              onClick={() => copyToClipboard((data as ReversoData).apellido_paterno)}
+                              onClick={() => copyToClipboard(reverso.apellido_paterno)}
                               sx={{ ml: 1 }}
                             >
                               <ContentCopyIcon fontSize={isMobile ? "small" : "medium"} />
@@ -371,12 +604,12 @@ const copyToClipboard = async (text: string) => {
                             wordBreak: 'break-word',
                             maxWidth: isMobile ? '150px' : 'none'
                           }}>
-                            {(data as ReversoData).apellido_materno}
+                            {reverso.apellido_materno}
                           </Typography>
                           <Tooltip title="Copiar">
                             <IconButton 
                               size={isMobile ? "small" : "medium"} 
-                              onClick={() => copyToClipboard((data as ReversoData).apellido_materno)}
+                              onClick={() => copyToClipboard(reverso.apellido_materno)}
                               sx={{ ml: 1 }}
                             >
                               <ContentCopyIcon fontSize={isMobile ? "small" : "medium"} />
@@ -398,12 +631,12 @@ const copyToClipboard = async (text: string) => {
                             wordBreak: 'break-word',
                             maxWidth: isMobile ? '150px' : 'none'
                           }}>
-                            {(data as ReversoData).nombre_reverso}
+                            {reverso.nombre_reverso}
                           </Typography>
                           <Tooltip title="Copiar">
                             <IconButton 
                               size={isMobile ? "small" : "medium"} 
-                              onClick={() => copyToClipboard((data as ReversoData).nombre_reverso)}
+                              onClick={() => copyToClipboard(reverso.nombre_reverso)}
                               sx={{ ml: 1 }}
                             >
                               <ContentCopyIcon fontSize={isMobile ? "small" : "medium"} />
@@ -426,12 +659,12 @@ const copyToClipboard = async (text: string) => {
                             fontSize: isMobile ? '0.75rem' : '0.9rem',
                             wordBreak: 'break-all'
                           }}>
-                            {(data as ReversoData).linea1}
+                            {reverso.linea1}
                           </code>
                           <Tooltip title="Copiar">
                             <IconButton 
                               size={isMobile ? "small" : "medium"} 
-                              onClick={() => copyToClipboard((data as ReversoData).linea1)}
+                              onClick={() => copyToClipboard(reverso.linea1)}
                               sx={{ ml: 1 }}
                             >
                               <ContentCopyIcon fontSize={isMobile ? "small" : "medium"} />
@@ -454,12 +687,12 @@ const copyToClipboard = async (text: string) => {
                             fontSize: isMobile ? '0.75rem' : '0.9rem',
                             wordBreak: 'break-all'
                           }}>
-                            {(data as ReversoData).linea2}
+                            {reverso.linea2}
                           </code>
                           <Tooltip title="Copiar">
                             <IconButton 
                               size={isMobile ? "small" : "medium"} 
-                              onClick={() => copyToClipboard((data as ReversoData).linea2)}
+                              onClick={() => copyToClipboard(reverso.linea2)}
                               sx={{ ml: 1 }}
                             >
                               <ContentCopyIcon fontSize={isMobile ? "small" : "medium"} />
@@ -472,8 +705,85 @@ const copyToClipboard = async (text: string) => {
                 </Table>
               </TableContainer>
             </Grid>
+
+            {/* 🧾 MRZ decodificado en el cliente */}
+            {mrz && (
+              <Grid item xs={12} md={6}>
+                <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 1 }}>
+                  <Typography variant="subtitle1" gutterBottom sx={{ fontWeight: 'bold' }}>
+                    🧾 MRZ Decodificado
+                  </Typography>
+                  <Chip
+                    icon={isMRZValid(mrz) ? <CheckCircleIcon /> : <CancelIcon />}
+                    label={isMRZValid(mrz) ? 'MRZ verificado' : 'MRZ con errores'}
+                    color={isMRZValid(mrz) ? 'success' : 'error'}
+                    size="small"
+                  />
+                </Box>
+                <TableContainer>
+                  <Table size="small">
+                    <TableBody>
+                      {([
+                        ['Documento', `${mrz.tipo_documento}${mrz.pais_emisor}`, null],
+                        ['Número de documento', mrz.numero_documento, checkFor('Número de documento')],
+                        ['Fecha de nacimiento', mrz.fecha_nacimiento, checkFor('Fecha de nacimiento')],
+                        ['Sexo', mrz.sexo, null],
+                        ['Fecha de expiración', mrz.fecha_expiracion, checkFor('Fecha de expiración')],
+                        ['Nacionalidad', mrz.nacionalidad, null],
+                        ['Datos opcionales', [mrz.datos_opcionales_1, mrz.datos_opcionales_2].filter(Boolean).join(' / '), null],
+                        ['Dígito compuesto', '', checkFor('Compuesto')]
+                      ] as const).map(([label, value, check]) => (
+                        <TableRow key={label}>
+                          <TableCell sx={{ minWidth: isMobile ? 120 : 150 }}>
+                            <strong>{label}</strong>
+                          </TableCell>
+                          <TableCell>
+                            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                              {value && (
+                                <Typography variant="body2" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                                  {value}
+                                </Typography>
+                              )}
+                              {check && (
+                                <Tooltip title={`Leído: ${check.leido || '—'} · Calculado: ${check.calculado}`}>
+                                  <Chip
+                                    label={check.valido ? '✓ Dígito OK' : '✗ Dígito inválido'}
+                                    color={check.valido ? 'success' : 'error'}
+                                    size="small"
+                                    variant="outlined"
+                                  />
+                                </Tooltip>
+                              )}
+                            </Box>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+
+                {/* ⚠️ Problemas estructurales */}
+                {mrz.errores.length > 0 && (
+                  <Alert severity="warning" sx={{ mt: 2 }}>
+                    {mrz.errores.map((e) => (
+                      <Typography variant="body2" key={e}>• {e}</Typography>
+                    ))}
+                  </Alert>
+                )}
+
+                {/* 🔍 Comparación con la bandera del backend */}
+                {reverso.es_ine !== isMRZValid(mrz) && (
+                  <Alert severity="info" sx={{ mt: 2 }}>
+                    <Typography variant="body2">
+                      🔍 El backend indicó <strong>es_ine = {String(reverso.es_ine)}</strong>,
+                      pero la verificación local del MRZ {isMRZValid(mrz) ? 'es correcta' : 'falló'}.
+                    </Typography>
+                  </Alert>
+                )}
+              </Grid>
+            )}
           </Grid>
-        ) : (
+        ) : anverso && (
           // 🪪 Datos del anverso
           <Grid container spacing={isMobile ? 2 : 3}>
             {/* 🆔 Identificación */}
@@ -498,17 +808,18 @@ const copyToClipboard = async (text: string) => {
                             wordBreak: 'break-word',
                             maxWidth: isMobile ? '150px' : 'none'
                           }}>
-                            {(data as INEData).nombre}
+                            {anverso.nombre}
                           </Typography>
                           <Tooltip title="Copiar nombre">
                             <IconButton 
                               size={isMobile ? "small" : "medium"} 
-                              onClick={() => copyToClipboard((data as INEData).nombre)}
+                              onClick={() => copyToClipboard(anverso.nombre)}
                               sx={{ ml: 1 }}
                             >
                               <ContentCopyIcon fontSize={isMobile ? "small" : "medium"} />
                             </IconButton>
                           </Tooltip>
+                          {renderMismatch('nombre')}
                         </Box>
                       </TableCell>
                     </TableRow>
@@ -522,21 +833,24 @@ const copyToClipboard = async (text: string) => {
                       </TableCell>
                       <TableCell sx={{ padding: isMobile ? '8px' : '16px' }}>
                         <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap' }}>
-                          <Chip 
-                            label={(data as INEData).curp || 'No detectado'} 
-                            color={(data as INEData).curp ? 'success' : 'error'}
-                            size={isMobile ? "small" : "medium"}
-                            sx={{ 
-                              maxWidth: isMobile ? '180px' : 'none',
-                              overflow: 'hidden',
-                              textOverflow: 'ellipsis'
-                            }}
-                          />
-                          {(data as INEData).curp && (
+                          <Tooltip title={curpCheck && !curpCheck.valida ? curpCheck.errores.join(' · ') : ''}>
+                            <Chip 
+                              label={anverso.curp || 'No detectado'} 
+                              color={!curpCheck ? 'error' : curpCheck.valida ? 'success' : 'warning'}
+                              icon={curpCheck && !curpCheck.valida ? <WarningIcon /> : undefined}
+                              size={isMobile ? "small" : "medium"}
+                              sx={{ 
+                                maxWidth: isMobile ? '180px' : 'none',
+                                overflow: 'hidden',
+                                textOverflow: 'ellipsis'
+                              }}
+                            />
+                          </Tooltip>
+                          {anverso.curp && (
                             <Tooltip title="Copiar CURP">
                               <IconButton 
                                 size={isMobile ? "small" : "medium"} 
-                                onClick={() => copyToClipboard((data as INEData).curp)}
+                                onClick={() => copyToClipboard(anverso.curp)}
                                 sx={{ ml: 1 }}
                               >
                                 <ContentCopyIcon fontSize={isMobile ? "small" : "medium"} />
@@ -544,6 +858,14 @@ const copyToClipboard = async (text: string) => {
                             </Tooltip>
                           )}
                         </Box>
+                        {/* 🧮 Datos decodificados de la CURP */}
+                        {curpCheck && (
+                          <Typography variant="caption" color={curpCheck.valida ? 'text.secondary' : 'warning.main'} sx={{ display: 'block', mt: 0.5 }}>
+                            {curpCheck.valida
+                              ? `🎂 ${curpCheck.fecha_nacimiento} · 🚻 ${curpCheck.sexo} · 🗺️ ${curpCheck.estado_nombre}`
+                              : `⚠️ ${curpCheck.errores[0]}`}
+                          </Typography>
+                        )}
                       </TableCell>
                     </TableRow>
                     <TableRow>
@@ -555,22 +877,39 @@ const copyToClipboard = async (text: string) => {
                       </TableCell>
                       <TableCell sx={{ padding: isMobile ? '8px' : '16px' }}>
                         <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap' }}>
-                          <Typography variant="body2" sx={{ 
-                            wordBreak: 'break-word',
-                            maxWidth: isMobile ? '150px' : 'none'
-                          }}>
-                            {(data as INEData).clave_elector}
-                          </Typography>
-                          <Tooltip title="Copiar">
-                            <IconButton 
-                              size={isMobile ? "small" : "medium"} 
-                              onClick={() => copyToClipboard((data as INEData).clave_elector)}
-                              sx={{ ml: 1 }}
-                            >
-                              <ContentCopyIcon fontSize={isMobile ? "small" : "medium"} />
-                            </IconButton>
+                          <Tooltip title={claveCheck && !claveCheck.valida ? claveCheck.errores.join(' · ') : ''}>
+                            <Chip 
+                              label={anverso.clave_elector || 'No detectado'} 
+                              color={!claveCheck ? 'error' : claveCheck.valida ? 'success' : 'warning'}
+                              icon={claveCheck && !claveCheck.valida ? <WarningIcon /> : undefined}
+                              size={isMobile ? "small" : "medium"}
+                              sx={{ 
+                                maxWidth: isMobile ? '180px' : 'none',
+                                overflow: 'hidden',
+                                textOverflow: 'ellipsis'
+                              }}
+                            />
                           </Tooltip>
+                          {anverso.clave_elector && (
+                            <Tooltip title="Copiar">
+                              <IconButton 
+                                size={isMobile ? "small" : "medium"} 
+                                onClick={() => copyToClipboard(anverso.clave_elector)}
+                                sx={{ ml: 1 }}
+                              >
+                                <ContentCopyIcon fontSize={isMobile ? "small" : "medium"} />
+                              </IconButton>
+                            </Tooltip>
+                          )}
                         </Box>
+                        {/* 🧮 Datos decodificados de la clave de elector */}
+                        {claveCheck && (
+                          <Typography variant="caption" color={claveCheck.valida ? 'text.secondary' : 'warning.main'} sx={{ display: 'block', mt: 0.5 }}>
+                            {claveCheck.valida
+                              ? `🔤 ${claveCheck.iniciales} · 🎂 ${claveCheck.fecha_nacimiento} · 🚻 ${claveCheck.sexo} · 🗺️ ${claveCheck.estado_nombre}`
+                              : `⚠️ ${claveCheck.errores[0]}`}
+                          </Typography>
+                        )}
                       </TableCell>
                     </TableRow>
                     <TableRow>
@@ -582,7 +921,7 @@ const copyToClipboard = async (text: string) => {
                       </TableCell>
                       <TableCell sx={{ padding: isMobile ? '8px' : '16px' }}>
                         <Typography variant="body2">
-                          {(data as INEData).seccion}
+                          {anverso.seccion}
                         </Typography>
                       </TableCell>
                     </TableRow>
@@ -607,7 +946,8 @@ const copyToClipboard = async (text: string) => {
                         <strong>Fecha Nacimiento</strong>
                       </TableCell>
                       <TableCell sx={{ padding: isMobile ? '8px' : '16px' }}>
-                        {(data as INEData).fecha_nacimiento}
+                        {anverso.fecha_nacimiento}
+                        {renderMismatch('fecha_nacimiento')}
                       </TableCell>
                     </TableRow>
                     <TableRow>
@@ -619,9 +959,10 @@ const copyToClipboard = async (text: string) => {
                       </TableCell>
                       <TableCell sx={{ padding: isMobile ? '8px' : '16px' }}>
                         <Chip 
-                          label={(data as INEData).sexo || 'No especificado'} 
+                          label={anverso.sexo || 'No especificado'} 
                           size={isMobile ? "small" : "medium"}
                         />
+                        {renderMismatch('sexo')}
                       </TableCell>
                     </TableRow>
                     <TableRow>
@@ -632,7 +973,7 @@ const copyToClipboard = async (text: string) => {
                         <strong>País</strong>
                       </TableCell>
                       <TableCell sx={{ padding: isMobile ? '8px' : '16px' }}>
-                        {(data as INEData).pais}
+                        {anverso.pais}
                       </TableCell>
                     </TableRow>
                   </TableBody>
@@ -656,7 +997,7 @@ const copyToClipboard = async (text: string) => {
                         wordBreak: 'break-word',
                         fontSize: isMobile ? '0.875rem' : '1rem'
                       }}>
-                        {(data as INEData).calle}
+                        {anverso.calle}
                       </Typography>
                     </CardContent>
                   </Card>
@@ -671,7 +1012,7 @@ const copyToClipboard = async (text: string) => {
                         wordBreak: 'break-word',
                         fontSize: isMobile ? '0.875rem' : '1rem'
                       }}>
-                        {(data as INEData).colonia}
+                        {anverso.colonia}
                       </Typography>
                     </CardContent>
                   </Card>
@@ -686,8 +1027,9 @@ const copyToClipboard = async (text: string) => {
                         wordBreak: 'break-word',
                         fontSize: isMobile ? '0.875rem' : '1rem'
                       }}>
-                        {(data as INEData).estado}
+                        {anverso.estado}
                       </Typography>
+                      {renderMismatch('estado')}
                     </CardContent>
                   </Card>
                 </Grid>
@@ -697,6 +1039,43 @@ const copyToClipboard = async (text: string) => {
         )}
       </Paper>
 
+      {/* 📝 Bitácora de correcciones manuales */}
+      {corrections.length > 0 && (
+        <Paper variant="outlined" sx={{ p: isMobile ? 1.5 : 2, borderRadius: 2, mt: 3, overflow: 'hidden' }}>
+          <Typography variant="subtitle1" gutterBottom sx={{ fontWeight: 'bold' }}>
+            📝 Correcciones manuales ({corrections.length})
+          </Typography>
+          <TableContainer sx={{ overflowX: 'auto' }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell><strong>Campo</strong></TableCell>
+                  <TableCell><strong>OCR</strong></TableCell>
+                  <TableCell><strong>Corregido</strong></TableCell>
+                  <TableCell><strong>Usuario</strong></TableCell>
+                  <TableCell><strong>Fecha</strong></TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {corrections.map((c) => (
+                  <TableRow key={`${c.lado}-${c.campo}`}>
+                    <TableCell>{fieldLabel(c.campo)}</TableCell>
+                    <TableCell sx={{ fontFamily: 'monospace', color: 'error.main', wordBreak: 'break-all' }}>
+                      {c.original || '—'}
+                    </TableCell>
+                    <TableCell sx={{ fontFamily: 'monospace', color: 'success.main', wordBreak: 'break-all' }}>
+                      {c.corregido || '—'}
+                    </TableCell>
+                    <TableCell>{c.usuario}</TableCell>
+                    <TableCell>{new Date(c.fecha).toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Paper>
+      )}
+
       {/* 🖼️ Sección de comparación de imagen */}
       {(processedImage || imageComparison?.processedImage) && (
         <Paper elevation={2} sx={{ 
@@ -0,0 +1,82 @@
+/**
+ * 📄 PagePicker.tsx
+ * =========================================================
+ * 🎯 Selector de página de un PDF de varias páginas
+ *
+ * ✅ Muestra la miniatura de cada página para elegir cuál
+ * usar. Con una sola carga se pueden tomar anverso y reverso
+ * (las páginas siguen disponibles al volver al paso 0).
+ *
+ * 🧠 Integración con ImageUploader:
+ * - Las páginas ya vienen convertidas (`documentService.renderPdf`)
+ * - Este componente solo muestra y devuelve la página elegida
+ *
+ * 📘 Estilo de documentación:
+ * - AngularDoc/JSDoc + emojis 😄
+ * =========================================================
+ */
+
+import React from 'react';
+import { Box, Button, Card, CardActions, CardMedia, Grid, Paper, Typography } from '@mui/material';
+import type { DocumentPage } from '../../types';
+
+/**
+ * 🧩 PagePickerProps
+ * ---------------------------------------------------------
+ * ✅ pages: páginas convertidas del PDF
+ * ✅ disabled: bloquea la elección (conversión / análisis en curso)
+ * ✅ onSelect: página elegida
+ * ✅ onDiscard: olvidar el PDF
+ * ---------------------------------------------------------
+ */
+interface PagePickerProps {
+  pages: DocumentPage[];
+  disabled?: boolean;
+  onSelect: (page: DocumentPage) => void;
+  onDiscard: () => void;
+}
+
+/**
+ * 📄 PagePicker
+ * =========================================================
+ * Cuadrícula de miniaturas con un botón "Usar" por página.
+ * =========================================================
+ */
+const PagePicker: React.FC<PagePickerProps> = ({ pages, disabled = false, onSelect, onDiscard }) => (
+  <Paper variant="outlined" sx={{ p: 2, mt: 3, borderRadius: 2, textAlign: 'left' }}>
+    <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1, mb: 1 }}>
+      <Typography variant="subtitle2" sx={{ fontWeight: 'bold' }}>
+        📄 PDF con {pages.length} páginas
+      </Typography>
+      <Button size="small" color="inherit" onClick={onDiscard} disabled={disabled}>
+        🗑️ Descartar PDF
+      </Button>
+    </Box>
+    <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 2 }}>
+      Elige la página con la credencial. Si el PDF trae anverso y reverso, al volver a este paso puedes elegir la otra.
+    </Typography>
+
+    <Grid container spacing={2}>
+      {pages.map((page) => (
+        <Grid item xs={6} sm={4} md={3} key={page.pagina}>
+          <Card variant="outlined">
+            <CardMedia
+              component="img"
+              image={page.miniatura}
+              alt={`Página ${page.pagina}`}
+              sx={{ height: 140, objectFit: 'contain', bgcolor: 'grey.100' }}
+            />
+            <CardActions sx={{ justifyContent: 'space-between' }}>
+              <Typography variant="caption">Página {page.pagina}</Typography>
+              <Button size="small" onClick={() => onSelect(page)} disabled={disabled}>
+                Usar
+              </Button>
+            </CardActions>
+          </Card>
+        </Grid>
+      ))}
+    </Grid>
+  </Paper>
+);
+
+export default PagePicker;
@@ -9,12 +9,16 @@
  * 🔄 Imagen Original       -> `originalImage`
  * ✂️ Imagen Editada        -> `editedImage`
  * ✨ Imagen Mejorada (IA)  -> `enhancedImage` (opcional)
+ * 🧪 Candidatas locales    -> `candidates` (presets de preprocesamiento)
+ * 🎞️ Tomas de la ráfaga    -> `frames` (cámara en modo ráfaga)
  *
  * 🧠 Integración con App.tsx:
  * - `currentImage` representa la imagen actualmente seleccionada por el usuario
  * - Los callbacks (`onUseOriginal`, `onUseEdited`, `onUseEnhanced`) actualizan el estado global en App.tsx
  * - `onEnhance` dispara la mejora por IA (si se habilita el bloque comentado)
  * - `isProcessing` muestra spinner cuando se está “mejorando” la imagen
+ * - `onPreprocess` pide a App generar una candidata con un preset local
+ * - `quality` muestra el reporte de calidad de la imagen seleccionada
  *
  * 📌 Importante:
  * - Este componente **NO hace OCR**
@@ -39,12 +43,20 @@ import {
   Button, 
   CircularProgress,
   Grid,
-  Tooltip
+  Tooltip,
+  Card,
+  CardMedia,
+  CardContent,
+  CardActions
 } from '@mui/material';
 import CheckCircleIcon from '@mui/icons-material/CheckCircle';
 import RestartAltIcon from '@mui/icons-material/RestartAlt';
 import EditIcon from '@mui/icons-material/Edit';
 import AutoAwesomeIcon from '@mui/icons-material/AutoAwesome';
+import QualityIndicator from '../QualityIndicator';
+import RequestProgressBar from '../RequestProgressBar';
+import type { CaptureFrame, PreprocessCandidate, QualityReport, RequestProgress } from '../../types';
+import { PREPROCESS_PRESETS } from '../../utils/preprocess';
 
 /**
  * 🧩 PreviewPanelProps
@@ -72,6 +84,24 @@ import AutoAwesomeIcon from '@mui/icons-material/AutoAwesome';
  * - onUseEdited: Selecciona edited como currentImage
  * - onUseEnhanced: Selecciona enhanced como currentImage
  * - onEnhance: Dispara proceso de mejora (IA)
+ *
+ * ✅ Preprocesamiento local (opcional):
+ * - candidates: imágenes generadas por presets
+ * - preprocessing: id del preset que se está generando
+ * - onPreprocess: genera (o regenera) la candidata de un preset
+ * - onUseCandidate: selecciona una candidata como currentImage
+ *
+ * ✅ Ráfaga (opcional):
+ * - frames: tomas de la ráfaga de la cámara, de mejor a peor
+ * - onUseFrame: cambia la original a otra toma
+ *
+ * ✅ Progreso de peticiones (opcional):
+ * - enhanceProgress / onCancelEnhance: mejora por IA en curso
+ * - ocrLoading / ocrProgress / onCancelOCR: OCR en curso (se lanza
+ *   desde este paso con el botón "Procesar")
+ *
+ * ✅ Calidad (opcional):
+ * - quality / analyzingQuality: reporte de `currentImage` (lo calcula App)
  * ---------------------------------------------------------
  */
 interface PreviewPanelProps {
@@ -84,6 +114,19 @@ interface PreviewPanelProps {
   onUseEdited: () => void;     // Usar imagen editada
   onUseEnhanced: () => void;   // Usar imagen mejorada
   onEnhance: () => void;       // Mejorar imagen
+  candidates?: PreprocessCandidate[];            // Candidatas de preprocesamiento local
+  preprocessing?: string | null;                 // Preset en proceso
+  onPreprocess?: (presetId: string) => void;     // Generar candidata
+  onUseCandidate?: (candidate: PreprocessCandidate) => void; // Usar candidata
+  frames?: CaptureFrame[];                       // Tomas de la ráfaga
+  onUseFrame?: (frame: CaptureFrame) => void;    // Usar otra toma
+  enhanceProgress?: RequestProgress | null;      // Progreso de la mejora
+  onCancelEnhance?: () => void;                  // Cancelar mejora
+  ocrLoading?: boolean;                          // OCR en curso
+  ocrProgress?: RequestProgress | null;          // Progreso del OCR
+  onCancelOCR?: () => void;                      // Cancelar OCR
+  quality?: QualityReport | null;                // Calidad de currentImage
+  analyzingQuality?: boolean;                    // Análisis en curso
 }
 
 /**
@@ -104,7 +147,20 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({
   isProcessing,
   onUseOriginal,
   onUseEdited,
-  onUseEnhanced
+  onUseEnhanced,
+  candidates = [],
+  preprocessing = null,
+  onPreprocess,
+  onUseCandidate,
+  frames = [],
+  onUseFrame,
+  enhanceProgress = null,
+  onCancelEnhance,
+  ocrLoading = false,
+  ocrProgress = null,
+  onCancelOCR,
+  quality = null,
+  analyzingQuality = false
 }) => {
   /**
    * 🧠 getCurrentImageType
@@ -115,6 +171,7 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({
    * - 'original'  -> currentImage === originalImage
    * - 'edited'    -> currentImage === editedImage
    * - 'enhanced'  -> currentImage === enhancedImage
+   * - 'candidate' -> currentImage es una candidata de preprocesamiento
    * - 'unknown'   -> si no coincide con ninguna (caso raro/edge case)
    *
    * 📌 Uso:
@@ -124,6 +181,7 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({
     if (currentImage === originalImage) return 'original';
     if (currentImage === editedImage) return 'edited';
     if (currentImage === enhancedImage) return 'enhanced';
+    if (candidates.some((candidate) => candidate.imagen === currentImage)) return 'candidate';
     return 'unknown';
   };
 
@@ -137,6 +195,9 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({
    */
   const currentType = getCurrentImageType();
 
+  /** 🧪 Candidata seleccionada (si aplica) */
+  const currentCandidate = candidates.find((candidate) => candidate.imagen === currentImage);
+
   return (
     <Paper elevation={3} sx={{ p: 3, borderRadius: 2 }}>
       {/* 🏷️ Encabezado del panel + etiqueta del tipo actual */}
@@ -149,11 +210,13 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({
           borderRadius: 1, 
           bgcolor: currentType === 'original' ? 'primary.light' : 
                    currentType === 'edited' ? 'warning.light' : 
-                   currentType === 'enhanced' ? 'success.light' : 'grey.300' 
+                   currentType === 'enhanced' ? 'success.light' : 
+                   currentType === 'candidate' ? 'info.light' : 'grey.300' 
         }}>
           {currentType === 'original' && '🔄 Original'}
           {currentType === 'edited' && '✂️ Editada'}
           {currentType === 'enhanced' && '✨ Mejorada'}
+          {currentType === 'candidate' && '🧪 Preprocesada'}
         </Typography>
       </Typography>
 
@@ -166,6 +229,7 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({
               {currentType === 'original' && '🔄 Imagen Original'}
               {currentType === 'edited' && '✂️ Imagen Editada Actual'}
               {currentType === 'enhanced' && '✨ Imagen Mejorada'}
+              {currentType === 'candidate' && `🧪 ${currentCandidate?.nombre}`}
             </Typography>
 
             {/* 🖼️ Imagen principal (la que se mandará al OCR) */}
@@ -180,11 +244,15 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({
                 border: '3px solid',
                 borderColor: currentType === 'original' ? 'primary.main' : 
                             currentType === 'edited' ? 'warning.main' : 
+                            currentType === 'candidate' ? 'info.main' :
                             'success.main',
                 boxShadow: 2
               }}
             />
 
+            {/* 🔎 Calidad de la imagen que se mandará al OCR */}
+            <QualityIndicator report={quality} analyzing={analyzingQuality} />
+
             {/* 🎛️ Botones de selección para la imagen actual */}
             <Box sx={{ mt: 2, display: 'flex', gap: 1 }}>
               {/* 🔄 Restablecer a Original */}
@@ -258,6 +326,120 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({
           </Grid>
         )}
 
+        {/* 🧪 Preprocesamiento local (presets) */}
+        {onPreprocess && (
+          <Grid item xs={12}>
+            <Paper variant="outlined" sx={{ p: 2, borderRadius: 1 }}>
+              <Typography variant="subtitle2" gutterBottom sx={{ fontWeight: 'bold' }}>
+                🧪 Preprocesamiento local
+              </Typography>
+              <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+                Se aplica sobre la imagen editada, en tu navegador. Compara las candidatas y usa la que se lea mejor.
+              </Typography>
+
+              {/* 🎛️ Un botón por preset */}
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: candidates.length > 0 ? 2 : 0 }}>
+                {PREPROCESS_PRESETS.map((preset) => (
+                  <Tooltip key={preset.id} title={preset.descripcion}>
+                    <span>
+                      <Button
+                        size="small"
+                        variant="outlined"
+                        color="info"
+                        onClick={() => onPreprocess(preset.id)}
+                        disabled={preprocessing !== null}
+                        startIcon={preprocessing === preset.id ? <CircularProgress size={14} /> : undefined}
+                      >
+                        {preset.nombre}
+                      </Button>
+                    </span>
+                  </Tooltip>
+                ))}
+              </Box>
+
+              {/* 🖼️ Candidatas generadas */}
+              {candidates.length > 0 && (
+                <Grid container spacing={2}>
+                  {candidates.map((candidate) => {
+                    const selected = candidate.imagen === currentImage;
+                    return (
+                      <Grid item xs={6} sm={4} md={3} key={candidate.preset}>
+                        <Card variant="outlined" sx={{ borderColor: selected ? 'info.main' : undefined, borderWidth: selected ? 2 : 1 }}>
+                          <CardMedia
+                            component="img"
+                            image={candidate.imagen}
+                            alt={candidate.nombre}
+                            sx={{ height: 110, objectFit: 'contain', bgcolor: 'grey.100' }}
+                          />
+                          <CardContent sx={{ py: 1, '&:last-child': { pb: 1 } }}>
+                            <Typography variant="caption">{candidate.nombre}</Typography>
+                          </CardContent>
+                          <CardActions sx={{ pt: 0 }}>
+                            <Button
+                              size="small"
+                              color="info"
+                              onClick={() => onUseCandidate?.(candidate)}
+                              disabled={selected}
+                              fullWidth
+                            >
+                              {selected ? '✅ En uso' : 'Usar'}
+                            </Button>
+                          </CardActions>
+                        </Card>
+                      </Grid>
+                    );
+                  })}
+                </Grid>
+              )}
+            </Paper>
+          </Grid>
+        )}
+
+        {/* 🎞️ Otras tomas de la ráfaga */}
+        {onUseFrame && frames.length > 1 && (
+          <Grid item xs={12}>
+            <Paper variant="outlined" sx={{ p: 2, borderRadius: 1 }}>
+              <Typography variant="subtitle2" gutterBottom sx={{ fontWeight: 'bold' }}>
+                🎞️ Otras tomas de la ráfaga
+              </Typography>
+              <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+                Ordenadas por nitidez y reflejos. Usar otra toma reemplaza la original y descarta las ediciones.
+              </Typography>
+
+              <Grid container spacing={2}>
+                {frames.map((frame, i) => {
+                  const selected = frame.imagen === originalImage;
+                  return (
+                    <Grid item xs={6} sm={4} md={3} key={i}>
+                      <Card variant="outlined" sx={{ borderColor: selected ? 'primary.main' : undefined, borderWidth: selected ? 2 : 1 }}>
+                        <CardMedia
+                          component="img"
+                          image={frame.imagen}
+                          alt={`Toma ${i + 1}`}
+                          sx={{ height: 110, objectFit: 'contain', bgcolor: 'grey.100' }}
+                        />
+                        <CardContent sx={{ py: 1, '&:last-child': { pb: 1 } }}>
+                          <Typography variant="caption" sx={{ display: 'block' }}>
+                            {i === 0 ? '🏆 ' : ''}Puntaje {frame.puntaje}
+                          </Typography>
+                          <Typography variant="caption" color="text.secondary">
+                            Nitidez {Math.round(frame.nitidez)} · reflejos {(frame.reflejos * 100).toFixed(1)}%
+                          </Typography>
+                        </CardContent>
+                        <CardActions sx={{ pt: 0 }}>
+                          <Button size="small" onClick={() => onUseFrame(frame)} disabled={selected} fullWidth>
+                            {selected ? '✅ En uso' : 'Usar'}
+                          </Button>
+                        </CardActions>
+                      </Card>
+                    </Grid>
+                  );
+                })}
+              </Grid>
+            </Paper>
+          </Grid>
+        )}
+
         {/* ⚡ Botón para mejorar imagen */}
         {/*!enhancedImage && !isProcessing && (
           <Grid item xs={12}>
@@ -290,15 +472,18 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({
         {/* ⏳ Procesando mejora */}
         {isProcessing && (
           <Grid item xs={12}>
-            <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', p: 3 }}>
-              <CircularProgress size={60} />
-              <Typography variant="body1" sx={{ mt: 2 }}>
-                ⚡ Mejorando imagen con IA...
-              </Typography>
-              <Typography variant="caption" color="text.secondary">
-                Esto puede tardar unos segundos
-              </Typography>
-            </Box>
+            <Paper variant="outlined" sx={{ borderRadius: 1 }}>
+              <RequestProgressBar title="⚡ Mejorando imagen con IA" progress={enhanceProgress} onCancel={onCancelEnhance} />
+            </Paper>
+          </Grid>
+        )}
+
+        {/* 🔍 OCR en curso */}
+        {ocrLoading && (
+          <Grid item xs={12}>
+            <Paper variant="outlined" sx={{ borderRadius: 1, borderColor: 'success.main' }}>
+              <RequestProgressBar title="🔍 Procesando OCR" progress={ocrProgress} onCancel={onCancelOCR} />
+            </Paper>
           </Grid>
         )}
 
@@ -337,6 +522,16 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({
                   </Typography>
                 </Box>
               )}
+
+              {/* 🧪 Candidatas (solo si hay) */}
+              {candidates.length > 0 && (
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <Box sx={{ width: 12, height: 12, borderRadius: '50%', bgcolor: 'info.main' }} />
+                  <Typography variant="caption">
+                    Preprocesadas: {currentCandidate ? `✅ ${currentCandidate.nombre}` : `${candidates.length} disponible(s)`}
+                  </Typography>
+                </Box>
+              )}
             </Box>
           </Paper>
         </Grid>
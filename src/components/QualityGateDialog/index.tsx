@@ -0,0 +1,79 @@
+/**
+ * 🚦 QualityGateDialog.tsx
+ * =========================================================
+ * 🎯 Confirmación antes de mandar al OCR una imagen con problemas
+ *
+ * ✅ Según el veredicto del analizador:
+ * - ⚠️ advertencia: el usuario puede procesar de todos modos
+ * - ⛔ bloqueo: solo puede volver al editor (el OCR fallaría)
+ *
+ * 🧠 Integración con App.tsx:
+ * - App decide cuándo abrirlo (antes de `handleProcessOCR`)
+ * - Este componente solo muestra y devuelve la decisión
+ *
+ * 📘 Estilo de documentación:
+ * - AngularDoc/JSDoc + emojis 😄
+ * =========================================================
+ */
+
+import React from 'react';
+import { Button, Dialog, DialogActions, DialogContent, DialogTitle, Typography } from '@mui/material';
+import QualityIndicator from '../QualityIndicator';
+import type { QualityReport } from '../../types';
+
+/**
+ * 🧩 QualityGateDialogProps
+ * ---------------------------------------------------------
+ * ✅ report: reporte que motivó el aviso (null = cerrado)
+ * ✅ onClose: cancelar
+ * ✅ onEdit: volver al editor para corregir
+ * ✅ onConfirm: procesar de todos modos (solo advertencias)
+ * ---------------------------------------------------------
+ */
+interface QualityGateDialogProps {
+  report: QualityReport | null;
+  onClose: () => void;
+  onEdit: () => void;
+  onConfirm: () => void;
+}
+
+/**
+ * 🚦 QualityGateDialog
+ * =========================================================
+ * Dialog con el reporte de calidad y las acciones posibles.
+ * =========================================================
+ */
+const QualityGateDialog: React.FC<QualityGateDialogProps> = ({ report, onClose, onEdit, onConfirm }) => {
+  const blocked = report?.nivel === 'bloqueo';
+
+  return (
+    <Dialog open={!!report} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        {blocked ? '⛔ La imagen no se puede procesar' : '⚠️ Revisa la calidad de la imagen'}
+      </DialogTitle>
+
+      <DialogContent>
+        <QualityIndicator report={report} />
+        <Typography variant="body2" color="text.secondary">
+          {blocked
+            ? 'Con esta calidad el OCR casi seguro fallará. Corrígela en el editor o toma otra foto.'
+            : 'El OCR podría leer datos incorrectos o tardar más. Puedes corregirla o procesarla así.'}
+        </Typography>
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Cancelar</Button>
+        <Button variant={blocked ? 'contained' : 'outlined'} onClick={onEdit}>
+          ✂️ Volver al editor
+        </Button>
+        {!blocked && (
+          <Button variant="contained" color="warning" onClick={onConfirm}>
+            🔍 Procesar de todos modos
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default QualityGateDialog;
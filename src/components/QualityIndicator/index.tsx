@@ -0,0 +1,108 @@
+/**
+ * 🔎 QualityIndicator.tsx
+ * =========================================================
+ * 🎯 Muestra el reporte del analizador de calidad de captura
+ *
+ * ✅ Incluye:
+ * - Puntaje general (0-100) con color según el veredicto
+ * - Un chip por aspecto (nitidez, exposición, reflejos,
+ *   resolución, inclinación) con su explicación en tooltip
+ * - Lista de sugerencias para los aspectos con problema
+ *
+ * 🧠 Integración:
+ * - Lo usan ImageUploader, CameraCapture, PreviewPanel y el
+ *   diálogo de confirmación de App antes del OCR
+ * - Solo muestra: el análisis vive en `utils/quality.ts`
+ *
+ * 📘 Estilo de documentación:
+ * - AngularDoc/JSDoc + emojis 😄
+ * =========================================================
+ */
+
+import React from 'react';
+import { Alert, AlertTitle, Box, Chip, LinearProgress, Tooltip, Typography } from '@mui/material';
+import type { QualityNivel, QualityReport } from '../../types';
+
+/**
+ * 🧩 QualityIndicatorProps
+ * ---------------------------------------------------------
+ * ✅ report: reporte a mostrar (null = sin reporte)
+ * ✅ analyzing: muestra barra de progreso mientras se analiza
+ * ---------------------------------------------------------
+ */
+interface QualityIndicatorProps {
+  report: QualityReport | null;
+  analyzing?: boolean;
+}
+
+/** 🎨 Severidad de Alert según el nivel */
+const SEVERITY: Record<QualityNivel, 'success' | 'warning' | 'error'> = {
+  ok: 'success',
+  advertencia: 'warning',
+  bloqueo: 'error'
+};
+
+/** 🏷️ Texto del veredicto */
+const VERDICT: Record<QualityNivel, string> = {
+  ok: '✅ Lista para el OCR',
+  advertencia: '⚠️ Puede que el OCR no la lea bien',
+  bloqueo: '⛔ El OCR casi seguro fallará'
+};
+
+/**
+ * 🔎 QualityIndicator
+ * =========================================================
+ * Alert con puntaje, chips por aspecto y sugerencias.
+ * =========================================================
+ */
+const QualityIndicator: React.FC<QualityIndicatorProps> = ({ report, analyzing = false }) => {
+  if (analyzing) {
+    return (
+      <Box sx={{ my: 2 }}>
+        <Typography variant="caption" color="text.secondary">
+          🔎 Analizando calidad de la imagen...
+        </Typography>
+        <LinearProgress sx={{ mt: 0.5 }} />
+      </Box>
+    );
+  }
+
+  if (!report) return null;
+
+  const issues = report.checks.filter((check) => check.nivel !== 'ok');
+
+  return (
+    <Alert severity={SEVERITY[report.nivel]} sx={{ my: 2, textAlign: 'left' }}>
+      <AlertTitle>
+        🔎 Calidad de captura: {report.puntaje}/100 · {VERDICT[report.nivel]}
+      </AlertTitle>
+
+      {/* 🔘 Un chip por aspecto */}
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: issues.length > 0 ? 1 : 0 }}>
+        {report.checks.map((check) => (
+          <Tooltip key={check.clave} title={check.detalle}>
+            <Chip
+              size="small"
+              variant={check.nivel === 'ok' ? 'outlined' : 'filled'}
+              color={SEVERITY[check.nivel]}
+              label={`${check.etiqueta} ${check.puntaje}`}
+            />
+          </Tooltip>
+        ))}
+      </Box>
+
+      {/* 💡 Sugerencias */}
+      {issues.length > 0 && (
+        <Box component="ul" sx={{ pl: 2, my: 0 }}>
+          {issues.map((check) => (
+            <Typography component="li" variant="body2" key={check.clave}>
+              {check.detalle}
+            </Typography>
+          ))}
+        </Box>
+      )}
+    </Alert>
+  );
+};
+
+export default QualityIndicator;
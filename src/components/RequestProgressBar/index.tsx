@@ -0,0 +1,90 @@
+/**
+ * 📶 RequestProgressBar.tsx
+ * =========================================================
+ * 🎯 Progreso de una petición al backend (OCR / mejora)
+ *
+ * ✅ Muestra:
+ * - Fase actual (preparando, subiendo, procesando, descargando,
+ *   reintentando) con barra determinada cuando hay porcentaje
+ * - Intento actual y espera antes del siguiente reintento
+ * - Botón "Cancelar" (si viene `onCancel`)
+ *
+ * 🧠 Integración:
+ * - App recibe el progreso de `ocrService` (`onProgress`) y lo
+ *   pasa a PreviewPanel / OCRResults, que usan este componente
+ *
+ * 📘 Estilo de documentación:
+ * - AngularDoc/JSDoc + emojis 😄
+ * =========================================================
+ */
+
+import React from 'react';
+import { Box, Button, LinearProgress, Typography } from '@mui/material';
+import type { RequestFase, RequestProgress } from '../../types';
+
+/**
+ * 🧩 RequestProgressBarProps
+ * ---------------------------------------------------------
+ * ✅ title: qué se está haciendo (ej: "🔍 Procesando OCR"), opcional
+ * ✅ progress: último progreso reportado (null = iniciando)
+ * ✅ onCancel: cancelar la petición (opcional)
+ * ---------------------------------------------------------
+ */
+interface RequestProgressBarProps {
+  title?: string;
+  progress: RequestProgress | null;
+  onCancel?: () => void;
+}
+
+/** 🏷️ Texto por fase */
+const FASE_LABELS: Record<RequestFase, string> = {
+  preparando: '📦 Optimizando imagen...',
+  subiendo: '⬆️ Subiendo imagen...',
+  procesando: '⚙️ El servidor está procesando...',
+  descargando: '⬇️ Recibiendo resultado...',
+  reintentando: '🔁 Falla temporal, reintentando...'
+};
+
+/**
+ * 📶 RequestProgressBar
+ * =========================================================
+ * Barra + textos + botón de cancelar.
+ * =========================================================
+ */
+const RequestProgressBar: React.FC<RequestProgressBarProps> = ({ title, progress, onCancel }) => {
+  const percent = progress?.porcentaje ?? null;
+
+  return (
+    <Box sx={{ width: '100%', p: 2 }}>
+      {title && (
+        <Typography variant="body1" sx={{ fontWeight: 'bold' }}>
+          {title}
+        </Typography>
+      )}
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+        {progress ? FASE_LABELS[progress.fase] : '⏳ Iniciando...'}
+        {percent !== null && ` ${percent}%`}
+        {progress && progress.intento > 1 && ` · intento ${progress.intento}`}
+        {progress?.fase === 'reintentando' && progress.esperaMs !== undefined &&
+          ` (en ${(progress.esperaMs / 1000).toFixed(1)} s)`}
+      </Typography>
+
+      <LinearProgress
+        variant={percent !== null ? 'determinate' : 'indeterminate'}
+        value={percent ?? 0}
+        color={progress?.fase === 'reintentando' ? 'warning' : 'primary'}
+        sx={{ height: 8, borderRadius: 4 }}
+      />
+
+      {onCancel && (
+        <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 1 }}>
+          <Button size="small" color="error" onClick={onCancel}>
+            🛑 Cancelar
+          </Button>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default RequestProgressBar;
@@ -0,0 +1,83 @@
+/**
+ * ⏳ SessionExpiryBanner.tsx
+ * =========================================================
+ * 🎯 Aviso de sesión por vencer
+ *
+ * ✅ Cuenta regresiva (mm:ss) y botón "Continuar sesión" que
+ * renueva el JWT sin volver a pedir contraseña.
+ *
+ * 🧠 Integración con App.tsx:
+ * - El tiempo y la renovación vienen de `useSessionExpiry`
+ * - Si la sesión vence, App guarda el trabajo y lo restaura
+ *   después de iniciar sesión (este componente solo avisa)
+ *
+ * 📘 Estilo de documentación:
+ * - AngularDoc/JSDoc + emojis 😄
+ * =========================================================
+ */
+
+import React from 'react';
+import { Alert, AlertTitle, Button, CircularProgress, Typography } from '@mui/material';
+import { API_ERROR_INFO, type ApiError } from '../../services/errors';
+
+/**
+ * 🧩 SessionExpiryBannerProps
+ * ---------------------------------------------------------
+ * ✅ remainingMs: tiempo que falta para que venza la sesión
+ * ✅ refreshing: renovación en curso
+ * ✅ error: última renovación fallida (opcional)
+ * ✅ onContinue: renovar la sesión
+ * ---------------------------------------------------------
+ */
+interface SessionExpiryBannerProps {
+  remainingMs: number;
+  refreshing: boolean;
+  error?: ApiError | null;
+  onContinue: () => void;
+}
+
+/**
+ * ⏱️ formatCountdown
+ * - 95_000 -> "1:35"
+ */
+const formatCountdown = (ms: number): string => {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+/**
+ * ⏳ SessionExpiryBanner
+ * =========================================================
+ * Alert fijo arriba del contenido mientras dura el aviso.
+ * =========================================================
+ */
+const SessionExpiryBanner: React.FC<SessionExpiryBannerProps> = ({ remainingMs, refreshing, error = null, onContinue }) => (
+  <Alert
+    severity={error ? 'error' : 'warning'}
+    sx={{ mb: { xs: 2, sm: 3 }, borderRadius: 2 }}
+    action={
+      <Button
+        color="inherit"
+        size="small"
+        onClick={onContinue}
+        disabled={refreshing}
+        startIcon={refreshing ? <CircularProgress size={14} color="inherit" /> : undefined}
+      >
+        {refreshing ? 'Renovando...' : 'Continuar sesión'}
+      </Button>
+    }
+  >
+    <AlertTitle>⏳ Tu sesión vence en {formatCountdown(remainingMs)}</AlertTitle>
+    <Typography variant="body2">
+      Si vence, tu trabajo se guarda y se restaura al volver a iniciar sesión.
+    </Typography>
+    {error && (
+      <Typography variant="caption" component="div" sx={{ mt: 0.5 }}>
+        ❌ No se pudo renovar: {API_ERROR_INFO[error.code].titulo}
+        {error.requestId && ` · ID ${error.requestId}`}
+      </Typography>
+    )}
+  </Alert>
+);
+
+export default SessionExpiryBanner;
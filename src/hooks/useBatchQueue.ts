@@ -0,0 +1,175 @@
+/**
+ * 📚 useBatchQueue.ts
+ * =========================================================
+ * 🎯 Cola de procesamiento por lote con concurrencia limitada
+ *
+ * ✅ Permite:
+ * - Encolar muchos archivos a la vez
+ * - Procesar como máximo `concurrency` al mismo tiempo
+ * - Seguir el progreso de cada archivo
+ * - Reintentar los que fallaron y quitar/limpiar elementos
+ *
+ * 🧠 Diseño:
+ * - El estado de la cola vive en React (`items`)
+ * - Un `useEffect` arranca elementos pendientes cada vez que
+ *   se libera un lugar
+ * - `process` se recibe por ref para no reiniciar la cola
+ *   cuando el componente padre se vuelve a renderizar
+ * =========================================================
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { BatchItem, INEData, ReversoData } from '../types';
+
+/** ⚙️ Procesamientos simultáneos por defecto */
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+
+/**
+ * 🧩 BatchQueueOptions
+ * ---------------------------------------------------------
+ * ✅ process: procesa un elemento y reporta su progreso
+ * ✅ concurrency: máximo de elementos procesándose a la vez
+ * ✅ onSuccess: se llama con cada elemento completado
+ * ---------------------------------------------------------
+ */
+interface BatchQueueOptions {
+  process: (item: BatchItem, onProgress: (percent: number) => void) => Promise<INEData | ReversoData>;
+  concurrency?: number;
+  onSuccess?: (item: BatchItem) => void;
+}
+
+/** 🔑 Contador para ids únicos */
+let nextId = 0;
+
+/**
+ * 📚 useBatchQueue
+ * =========================================================
+ * @returns Elementos de la cola + acciones
+ * =========================================================
+ */
+export const useBatchQueue = ({ process, concurrency = DEFAULT_BATCH_CONCURRENCY, onSuccess }: BatchQueueOptions) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+
+  /**
+   * 🏃 running
+   * - Ids en proceso. Es un ref para que el conteo sea inmediato
+   *   (no espera al siguiente render).
+   */
+  const running = useRef(new Set<string>());
+
+  /**
+   * 🔗 processRef / onSuccessRef
+   * - Siempre apuntan a la última versión de los callbacks.
+   */
+  const processRef = useRef(process);
+  const onSuccessRef = useRef(onSuccess);
+  useEffect(() => {
+    processRef.current = process;
+    onSuccessRef.current = onSuccess;
+  });
+
+  /**
+   * ✏️ updateItem
+   * - Aplica cambios parciales a un elemento por id.
+   */
+  const updateItem = useCallback((id: string, changes: Partial<BatchItem>) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  /**
+   * 🚀 start
+   * ---------------------------------------------------------
+   * Procesa un elemento. Libera su lugar ANTES de actualizar el
+   * estado para que el siguiente render pueda arrancar otro.
+   * ---------------------------------------------------------
+   */
+  const start = useCallback((item: BatchItem) => {
+    running.current.add(item.id);
+    updateItem(item.id, { estado: 'procesando', progreso: 0, intentos: item.intentos + 1, error: undefined });
+
+    processRef.current(item, (percent) => updateItem(item.id, { progreso: percent }))
+      .then((data) => {
+        running.current.delete(item.id);
+        updateItem(item.id, { estado: 'completado', progreso: 100, data });
+        onSuccessRef.current?.({ ...item, estado: 'completado', progreso: 100, data });
+      })
+      .catch((error) => {
+        running.current.delete(item.id);
+        console.error(`❌ Error en lote (${item.file.name}):`, error);
+        updateItem(item.id, {
+          estado: 'error',
+          error: error instanceof Error ? error.message : 'Error desconocido'
+        });
+      });
+  }, [updateItem]);
+
+  /**
+   * 👀 Planificador
+   * - Llena los lugares libres con los siguientes pendientes.
+   */
+  useEffect(() => {
+    const free = concurrency - running.current.size;
+    if (free <= 0) return;
+
+    items
+      .filter((item) => item.estado === 'pendiente' && !running.current.has(item.id))
+      .slice(0, free)
+      .forEach(start);
+  }, [items, concurrency, start]);
+
+  /**
+   * ➕ enqueue
+   * - Agrega archivos a la cola con el lado indicado.
+   */
+  const enqueue = useCallback((files: File[], lado: BatchItem['lado']) => {
+    const newItems: BatchItem[] = files.map((file) => ({
+      id: `batch-${Date.now()}-${nextId++}`,
+      file,
+      preview: URL.createObjectURL(file),
+      lado,
+      estado: 'pendiente',
+      progreso: 0,
+      intentos: 0
+    }));
+    console.log(`📚 ${newItems.length} archivo(s) agregados al lote`);
+    setItems((prev) => [...prev, ...newItems]);
+  }, []);
+
+  /**
+   * 🔁 retry
+   * - Regresa a "pendiente" los elementos con error (uno o todos).
+   */
+  const retry = useCallback((id?: string) => {
+    setItems((prev) => prev.map((item) =>
+      item.estado === 'error' && (!id || item.id === id)
+        ? { ...item, estado: 'pendiente', progreso: 0, error: undefined }
+        : item
+    ));
+  }, []);
+
+  /**
+   * 🗑️ remove
+   * - Quita un elemento que no se esté procesando.
+   */
+  const remove = useCallback((id: string) => {
+    setItems((prev) => prev.filter((item) => {
+      if (item.id !== id || item.estado === 'procesando') return true;
+      URL.revokeObjectURL(item.preview);
+      return false;
+    }));
+  }, []);
+
+  /**
+   * 🧹 clearCompleted
+   * - Quita de la lista los elementos ya completados.
+   */
+  const clearCompleted = useCallback(() => {
+    setItems((prev) => prev.filter((item) => {
+      if (item.estado !== 'completado') return true;
+      URL.revokeObjectURL(item.preview);
+      return false;
+    }));
+  }, []);
+
+  return { items, enqueue, retry, remove, clearCompleted };
+};
@@ -0,0 +1,54 @@
+/**
+ * 🔎 useImageQuality.ts
+ * =========================================================
+ * 🎯 Analiza la calidad de una imagen cada vez que cambia
+ *
+ * ✅ Regresa:
+ * - report: reporte de `analyzeImageQuality` (null mientras
+ *   se analiza o si no hay imagen)
+ * - analyzing: true mientras el reporte no corresponde a `src`
+ *
+ * 🧠 El reporte se guarda junto con la imagen que lo generó:
+ * si `src` cambia, el reporte anterior deja de mostrarse sin
+ * tener que limpiarlo a mano.
+ * =========================================================
+ */
+
+import { useEffect, useState } from 'react';
+import type { QualityReport } from '../types';
+import { analyzeImageQuality } from '../utils/quality';
+
+/**
+ * 🔎 useImageQuality
+ * =========================================================
+ * @param src DataURL / URL a revisar (vacío = sin análisis)
+ * =========================================================
+ */
+export const useImageQuality = (src: string | null | undefined) => {
+  const [result, setResult] = useState<{ src: string; report: QualityReport | null }>({ src: '', report: null });
+
+  useEffect(() => {
+    if (!src) return;
+
+    let cancelled = false;
+    analyzeImageQuality(src)
+      .then((report) => {
+        if (!cancelled) setResult({ src, report });
+      })
+      .catch((error) => {
+        console.error('❌ Error al analizar la calidad:', error);
+        if (!cancelled) setResult({ src, report: null });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [src]);
+
+  const current = !!src && result.src === src;
+
+  return {
+    report: current ? result.report : null,
+    analyzing: !!src && !current
+  };
+};
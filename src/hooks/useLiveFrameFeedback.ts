@@ -0,0 +1,99 @@
+/**
+ * 🎯 useLiveFrameFeedback.ts
+ * =========================================================
+ * 🎥 Retroalimentación en vivo de la cámara + disparo automático
+ *
+ * ✅ Cada `FRAME_INTERVAL_MS`:
+ * - Toma el cuadro actual del `<video>` (reducido)
+ * - Lo analiza con `analyzeFrame` (distancia, inclinación,
+ *   nitidez, reflejos)
+ * - Si la credencial está “lista” y quieta, avanza `steadiness`
+ *   (0 -> 1); al llegar a 1 llama `onAutoCapture`
+ *
+ * 🧠 `onAutoCapture` y `autoShutter` se leen por ref para no
+ * reiniciar el intervalo en cada render del componente.
+ * =========================================================
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { toGrayscale } from '../utils/image';
+import { analyzeFrame, FRAME_ANALYSIS_SIZE, isStableQuad, type FrameFeedback } from '../utils/liveCapture';
+import type { Quad } from '../utils/perspective';
+
+/** ⏱️ Intervalo entre análisis de cuadros */
+const FRAME_INTERVAL_MS = 250;
+
+/** ⏱️ Tiempo que la credencial debe estar lista y quieta para disparar */
+export const AUTO_SHUTTER_MS = 1200;
+
+/**
+ * 🧩 LiveFrameOptions
+ * ---------------------------------------------------------
+ * ✅ getVideo: regresa el `<video>` en vivo (o null)
+ * ✅ enabled: analiza solo mientras la cámara está a la vista
+ * ✅ autoShutter: dispara solo al estar lista y quieta
+ * ✅ onAutoCapture: toma la foto
+ * ---------------------------------------------------------
+ */
+interface LiveFrameOptions {
+  getVideo: () => HTMLVideoElement | null;
+  enabled: boolean;
+  autoShutter: boolean;
+  onAutoCapture: () => void;
+}
+
+/**
+ * 🎯 useLiveFrameFeedback
+ * =========================================================
+ * @returns Último análisis + avance del disparo automático (0-1)
+ * =========================================================
+ */
+export const useLiveFrameFeedback = ({ getVideo, enabled, autoShutter, onAutoCapture }: LiveFrameOptions) => {
+  const [feedback, setFeedback] = useState<FrameFeedback | null>(null);
+  const [steadiness, setSteadiness] = useState(0);
+
+  const autoShutterRef = useRef(autoShutter);
+  const onAutoCaptureRef = useRef(onAutoCapture);
+  useEffect(() => {
+    autoShutterRef.current = autoShutter;
+    onAutoCaptureRef.current = onAutoCapture;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let previous: Quad | null = null;
+    let readySince: number | null = null;
+
+    const timer = window.setInterval(() => {
+      const video = getVideo();
+      if (!video || video.readyState < 2 || !video.videoWidth) return;
+
+      const { gray, width, height } = toGrayscale(video, FRAME_ANALYSIS_SIZE);
+      const result = analyzeFrame(gray, width, height);
+      const stable = result.estado === 'lista' && isStableQuad(previous, result.quad, width);
+      previous = result.quad;
+
+      const now = performance.now();
+      if (!stable) readySince = null;
+      else if (readySince === null) readySince = now;
+      const progress = readySince === null ? 0 : Math.min(1, (now - readySince) / AUTO_SHUTTER_MS);
+
+      setFeedback(result);
+      setSteadiness(autoShutterRef.current ? progress : 0);
+
+      if (progress >= 1 && autoShutterRef.current) {
+        console.log('📸 Disparo automático:', { nitidez: Math.round(result.nitidez), cobertura: result.cobertura.toFixed(2) });
+        readySince = null;
+        onAutoCaptureRef.current();
+      }
+    }, FRAME_INTERVAL_MS);
+
+    return () => window.clearInterval(timer);
+  }, [enabled, getVideo]);
+
+  return {
+    feedback: enabled ? feedback : null,
+    steadiness: enabled ? steadiness : 0
+  };
+};
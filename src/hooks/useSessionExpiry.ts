@@ -0,0 +1,115 @@
+/**
+ * ⏳ useSessionExpiry.ts
+ * =========================================================
+ * 🎯 Vigila el vencimiento del JWT y lo renueva
+ *
+ * ✅ Cada segundo revisa `authService.getSessionRemainingMs()`:
+ * - Faltan menos de `SESSION_WARNING_MS`:
+ *   - 🔄 Si el usuario estuvo activo (clic / tecla) en los
+ *     últimos `SESSION_IDLE_MS`, se renueva en silencio
+ *   - ⚠️ Si no (o falla), `warning = true` para mostrar la
+ *     cuenta regresiva con "Continuar sesión"
+ * - Llega a 0: llama `onExpire` (una sola vez)
+ *
+ * 🧠 `onExpire` se guarda en un ref: puede cambiar en cada
+ * render sin reiniciar el intervalo.
+ * =========================================================
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { authService } from '../services/api';
+import { toApiError, type ApiError } from '../services/errors';
+
+/** ⚠️ Anticipación del aviso de vencimiento (2 min) */
+export const SESSION_WARNING_MS = 2 * 60 * 1000;
+
+/** 💤 Sin actividad por más de esto no se renueva en silencio (5 min) */
+const SESSION_IDLE_MS = 5 * 60 * 1000;
+
+/** ⏱️ Frecuencia de revisión */
+const TICK_MS = 1000;
+
+/**
+ * ⏳ useSessionExpiry
+ * =========================================================
+ * @param onExpire Sesión vencida (guardar trabajo, ir a login)
+ *
+ * @returns remainingMs (null sin sesión), warning, refreshing,
+ *          error (última renovación fallida) y refresh()
+ * =========================================================
+ */
+export const useSessionExpiry = (onExpire: () => void) => {
+  const [remainingMs, setRemainingMs] = useState<number | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
+
+  const onExpireRef = useRef(onExpire);
+  const lastActivityRef = useRef(0);
+  const silentTriedRef = useRef(false);
+  const expiredRef = useRef(false);
+
+  useEffect(() => {
+    onExpireRef.current = onExpire;
+  });
+
+  /**
+   * 🔄 refresh
+   * - Renueva el JWT; `silent` solo cambia el log.
+   */
+  const refresh = useCallback(async (silent = false) => {
+    setRefreshing(true);
+    setError(null);
+    try {
+      await authService.refreshToken();
+      silentTriedRef.current = false;
+      setRemainingMs(authService.getSessionRemainingMs());
+      console.log(silent ? '🔄 Sesión renovada en segundo plano' : '🔄 Sesión renovada por el usuario');
+    } catch (refreshError) {
+      console.error('❌ No se pudo renovar la sesión:', refreshError);
+      setError(toApiError(refreshError));
+    } finally {
+      setRefreshing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const markActive = () => {
+      lastActivityRef.current = Date.now();
+    };
+    markActive();
+    window.addEventListener('pointerdown', markActive);
+    window.addEventListener('keydown', markActive);
+
+    const timer = window.setInterval(() => {
+      const remaining = authService.getSessionRemainingMs();
+      setRemainingMs(remaining);
+      if (remaining === null || expiredRef.current) return;
+
+      if (remaining <= 0) {
+        expiredRef.current = true;
+        onExpireRef.current();
+        return;
+      }
+
+      const active = Date.now() - lastActivityRef.current < SESSION_IDLE_MS;
+      if (remaining <= SESSION_WARNING_MS && active && !silentTriedRef.current) {
+        silentTriedRef.current = true;
+        refresh(true);
+      }
+    }, TICK_MS);
+
+    return () => {
+      window.clearInterval(timer);
+      window.removeEventListener('pointerdown', markActive);
+      window.removeEventListener('keydown', markActive);
+    };
+  }, [refresh]);
+
+  return {
+    remainingMs,
+    warning: remainingMs !== null && remainingMs > 0 && remainingMs <= SESSION_WARNING_MS,
+    refreshing,
+    error,
+    refresh: () => refresh()
+  };
+};
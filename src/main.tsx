@@ -8,6 +8,7 @@
  * - 🎨 Define e inyecta un tema global de Material UI (MUI)
  * - 🧼 Aplica un reset/base CSS con `CssBaseline`
  * - 🧩 Renderiza el componente raíz: `<App />`
+ * - 🧪 Instala cámaras de prueba si `VITE_FAKE_CAMERA=true`
  *
  * ✅ Estilo de documentación: AngularDoc/JSDoc + emojis 😄
  * ⚠️ Nota importante:
@@ -26,6 +27,12 @@ import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-d
 import App from './App';
 import Login from './components/Login';
 import ProtectedRoute from './components/ProtectedRoute';
+import { installFakeCamera } from './services/fakeCamera';
+
+// 🧪 Cámaras de prueba (para probar CameraCapture sin hardware)
+if (import.meta.env.VITE_FAKE_CAMERA === 'true') {
+  installFakeCamera();
+}
 
 /**
  * 🎨 Tema global de MUI
@@ -26,6 +26,11 @@
  */
 
 import axios from 'axios';
+import type { AxiosError, AxiosInstance, AxiosProgressEvent, AxiosRequestConfig, AxiosResponse } from 'axios';
+import type { AuthUser, INEData, LoginResponse, RefreshTokenResponse, RequestProgress, ReversoData, UploadPreparation, VerifyTokenResponse } from '../types';
+import { ApiError, ApiSchemaError, fromAxiosError, requestIdOf, type ApiErrorDetails } from './errors';
+import { AUTH_USER_SCHEMA, INE_DATA_SCHEMA, LOGIN_RESPONSE_SCHEMA, REFRESH_TOKEN_SCHEMA, REVERSO_DATA_SCHEMA, VERIFY_TOKEN_SCHEMA, parseResponse } from './schemas';
+import { uploadService } from './upload';
 
 /**
  * 🌍 URL base del backend OCR
@@ -74,6 +79,104 @@ const api2 = axios.create({
   timeout: 30000,
 });
 
+/**
+ * 🔁 RetryOptions
+ * ---------------------------------------------------------
+ * Opciones de reintento por petición (`config.retry`).
+ *
+ * - retries: reintentos máximos (default `MAX_RETRIES`; 0 = ninguno)
+ * - onRetry: aviso antes de cada reintento (intento que sigue + espera)
+ * ---------------------------------------------------------
+ */
+export interface RetryOptions {
+  retries?: number;
+  onRetry?: (attempt: number, delayMs: number) => void;
+}
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /** 🔁 Política de reintentos (ver `withRetry`) */
+    retry?: RetryOptions;
+    /** 🔢 Reintentos ya hechos (interno) */
+    retryCount?: number;
+  }
+}
+
+/** 🔁 Reintentos por defecto ante fallas transitorias */
+const MAX_RETRIES = 3;
+
+/** ⏱️ Espera base del backoff exponencial (1s, 2s, 4s...) */
+const RETRY_BASE_MS = 1000;
+
+/** ⏱️ Espera máxima entre intentos */
+const RETRY_MAX_MS = 8000;
+
+/**
+ * 🚦 isTransient
+ * ---------------------------------------------------------
+ * ¿Vale la pena reintentar?
+ * - ✅ Timeout, error de red (sin respuesta) o 5xx
+ * - ❌ Cancelada por el usuario, 4xx (incluye 401)
+ * ---------------------------------------------------------
+ */
+const isTransient = (error: AxiosError): boolean => {
+  if (axios.isCancel(error)) return false;
+  if (!error.response) return true;
+  return error.response.status >= 500;
+};
+
+/**
+ * ⏳ waitFor
+ * - Espera `ms`, o rechaza en cuanto se cancele la petición.
+ */
+const waitFor = (ms: number, signal?: AxiosRequestConfig['signal']): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new axios.CanceledError());
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener?.('abort', () => {
+      clearTimeout(timer);
+      reject(new axios.CanceledError());
+    });
+  });
+
+/**
+ * 🔁 withRetry
+ * ---------------------------------------------------------
+ * Reintenta con backoff exponencial (+ jitter) las fallas
+ * transitorias de una instancia de Axios. Se aplica igual a
+ * `api` y `api2`.
+ *
+ * ⚠️ Se registra ANTES que los demás interceptores de
+ * respuesta: ellos solo ven el error del último intento.
+ * ---------------------------------------------------------
+ */
+const withRetry = (instance: AxiosInstance) => {
+  instance.interceptors.response.use(undefined, async (error) => {
+    const config = error?.config as AxiosRequestConfig | undefined;
+    if (!config || !axios.isAxiosError(error) || !isTransient(error)) return Promise.reject(error);
+
+    const retries = config.retry?.retries ?? MAX_RETRIES;
+    const count = config.retryCount ?? 0;
+    if (count >= retries) return Promise.reject(error);
+
+    const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** count) + Math.round(Math.random() * 250);
+    console.warn(`🔁 Reintento ${count + 1}/${retries} en ${delay} ms:`, {
+      url: config.url,
+      motivo: error.response?.status ?? error.code ?? error.message
+    });
+    config.retry?.onRetry?.(count + 2, delay);
+
+    await waitFor(delay, config.signal);
+    return instance({ ...config, retryCount: count + 1 });
+  });
+};
+
+withRetry(api);
+withRetry(api2);
+
 /**
  * 🔐 Interceptor para agregar token JWT automáticamente
  * ---------------------------------------------------------
@@ -103,79 +206,101 @@ api.interceptors.request.use(
 );
 
 /**
- * 🚨 Interceptor de respuestas para manejar errores de timeout
+ * 🧹 clearSession
+ * - Borra tokens y usuario de localStorage.
+ */
+const clearSession = () => {
+  localStorage.removeItem('jwt_token');
+  localStorage.removeItem('laravel_token');
+  localStorage.removeItem('user_data');
+  localStorage.removeItem('token_expiry');
+};
+
+/** ⏱️ La sesión se da por terminada 1 minuto antes de que venza el JWT */
+const SESSION_MARGIN_MS = 60000;
+
+/**
+ * 💾 storeToken
+ * - Guarda el JWT y su vencimiento (`expires_in` en segundos).
+ */
+const storeToken = (token: string, expiresIn: number) => {
+  localStorage.setItem('jwt_token', token);
+  localStorage.setItem('token_expiry', (Date.now() + (expiresIn * 1000)).toString());
+};
+
+/**
+ * 🔐 sessionExpiredHandler
  * ---------------------------------------------------------
- * Este interceptor captura específicamente errores de timeout
- * y los transforma en mensajes más amigables para el usuario.
+ * Quién atiende una sesión vencida (401/403 en `api`). Lo
+ * registra App (`authService.setSessionExpiredHandler`) para
+ * guardar el trabajo en curso antes de ir a /login; sin
+ * handler se redirige directo.
+ * ---------------------------------------------------------
+ */
+let sessionExpiredHandler: (() => void) | null = null;
+
+/**
+ * 🔖 responseDetails
+ * - Status + request id de una respuesta (para `ApiSchemaError`).
+ */
+const responseDetails = (response: AxiosResponse): ApiErrorDetails => ({
+  status: response.status,
+  requestId: requestIdOf(response.headers)
+});
+
+/**
+ * 🚨 Interceptores de respuestas: errores estructurados
+ * ---------------------------------------------------------
+ * Convierten cualquier falla de Axios en `ApiError`
+ * (`fromAxiosError`: timeout, red, auth, servidor) con status,
+ * request id y si es reintentable. Las cancelaciones pasan tal
+ * cual (`isCancelError`).
+ *
+ * 🔁 Corren después de `withRetry`: solo ven el error del último intento.
  *
- * ⚠️ Causas comunes de timeout:
- * 1. 🖼️ Imagen de baja calidad → El OCR tarda más en procesar
- * 2. 🌐 Conexión lenta/inestable → La transferencia de imagen es lenta
- * 3. 🔧 Sobrecarga del servidor → El backend está ocupado
+ * 🔐 En `api`, un `auth` (401/403) además limpia la sesión y
+ * redirige a /login. En `api2` (login) no: ahí un 401 significa
+ * credenciales incorrectas.
  * ---------------------------------------------------------
  */
+const toStructuredError = (error: unknown): unknown =>
+  axios.isAxiosError(error) && !axios.isCancel(error) ? fromAxiosError(error) : error;
+
 api.interceptors.response.use(
   (response) => {
     // ✅ Si la respuesta es exitosa, simplemente la retornamos
     return response;
   },
   (error) => {
-    // 🔍 Verificar si es un error de timeout
-    if (error.code === 'ECONNABORTED' || error.message.includes('timeout')) {
-      console.error('⏰ Timeout detectado:', {
-        code: error.code,
-        message: error.message,
-        config: {
-          url: error.config?.url,
-          method: error.config?.method,
-          timeout: error.config?.timeout
-        }
-      });
+    const structured = toStructuredError(error);
 
-      // 🚨 Crear un nuevo error con mensaje descriptivo para el usuario
-      const timeoutError = new Error(
-        '⏰ Timeout excedido (30s). Esto puede deberse a:\n' +
-        '1. 🖼️ La imagen no tiene buena calidad (intenta subir una más nítida)\n' +
-        '2. 🌐 Conexión lenta o inestable (verifica tu internet)\n' +
-        '3. 🔧 El servidor está ocupado (intenta nuevamente en unos momentos)\n\n' +
-        '✅ Recomendaciones:\n' +
-        '• Usa imágenes bien iluminadas y sin reflejos\n' +
-        '• Asegúrate de que todo el texto sea legible\n' +
-        '• Verifica tu conexión a internet\n' +
-        '• Intenta con una imagen de menor resolución'
-      );
-      
-      // 🏷️ Marcar el error como timeout para manejo específico en UI
-      timeoutError.name = 'TimeoutError';
-      
-      // ❌ Rechazar con el nuevo error descriptivo
-      return Promise.reject(timeoutError);
+    if (structured instanceof ApiError) {
+      console.error(`🚨 Error de API (${structured.code}):`, {
+        status: structured.status,
+        requestId: structured.requestId,
+        url: axios.isAxiosError(error) ? error.config?.url : undefined,
+        message: structured.message
+      });
     }
-    
-    // 🔍 Verificar si es un error 401 (No autorizado)
-    if (error.response?.status === 401) {
-      console.warn('🔐 Error 401 - Token inválido o expirado');
-      
-      // 🧹 Limpiar tokens expirados
-      localStorage.removeItem('jwt_token');
-      localStorage.removeItem('laravel_token');
-      localStorage.removeItem('user_data');
-      
-      // 🔄 Redirigir a login si estamos en la app principal
-      if (window.location.pathname !== '/login') {
-        window.location.href = '/login';
+
+    // 🔐 Sesión vencida: App guarda el trabajo y vuelve a login
+    if (structured instanceof ApiError && structured.code === 'auth') {
+      if (sessionExpiredHandler) {
+        sessionExpiredHandler();
+      } else {
+        clearSession();
+        if (window.location.pathname !== '/login') {
+          window.location.href = '/login';
+        }
       }
-      
-      const authError = new Error('🔐 Tu sesión ha expirado. Por favor, inicia sesión nuevamente.');
-      authError.name = 'AuthError';
-      return Promise.reject(authError);
     }
 
-    // 🔄 Para otros tipos de error, simplemente los propagamos
-    return Promise.reject(error);
+    return Promise.reject(structured);
   }
 );
 
+api2.interceptors.response.use(undefined, (error) => Promise.reject(toStructuredError(error)));
+
 /**
  * 🔐 Servicio de Autenticación
  * =========================================================
@@ -202,42 +327,31 @@ export const authService = {
    * 🗃️ Almacenamiento:
    * - Guarda tokens en localStorage
    * - Guarda información de usuario
+   *
+   * 🧪 La respuesta se valida (`LOGIN_RESPONSE_SCHEMA`); si no
+   * tiene la forma esperada lanza `ApiSchemaError` y no se
+   * guarda nada.
+   *
+   * 🚨 Errores: `ApiError` (code `auth` = credenciales
+   * incorrectas, `network`, `timeout`, `server`, `validation`).
    * ---------------------------------------------------------
    */
-  login: async (username: string, password: string) => {
-    try {
-      const response = await api2.post('/loginjwt', {
-        username,
-        password
-      });
-      
-      const { token, token_laravel, user, expires_in } = response.data;
-      
-      // 💾 Guardar tokens en localStorage
-      localStorage.setItem('jwt_token', token);
-      localStorage.setItem('laravel_token', token_laravel);
-      localStorage.setItem('user_data', JSON.stringify(user));
-      localStorage.setItem('token_expiry', (Date.now() + (expires_in * 1000)).toString());
-      
-      console.log('✅ Login exitoso, tokens guardados');
-      return response.data;
-      
-    } catch (error: any) {
-      console.error('❌ Error en login:', error);
-      
-      // 🎯 Manejo específico de error 401 (credenciales incorrectas)
-      if (error.response?.status === 401) {
-        throw new Error('❌ Usuario o contraseña incorrectos');
-      }
-      
-      // 🌐 Manejo de errores de conexión
-      if (error.message?.includes('Network Error') || error.code === 'ECONNABORTED') {
-        throw new Error('🔌 Error de conexión. Verifica tu internet y que el servidor esté funcionando.');
-      }
-      
-      // 🔄 Error genérico
-      throw new Error(error.response?.data?.message || 'Error al iniciar sesión');
-    }
+  login: async (username: string, password: string): Promise<LoginResponse> => {
+    const response = await api2.post<unknown>('/loginjwt', {
+      username,
+      password
+    });
+    const data = parseResponse(response.data, LOGIN_RESPONSE_SCHEMA, '/loginjwt', responseDetails(response));
+
+    const { token, token_laravel, user, expires_in } = data;
+
+    // 💾 Guardar tokens en localStorage
+    storeToken(token, expires_in);
+    localStorage.setItem('laravel_token', token_laravel);
+    localStorage.setItem('user_data', JSON.stringify(user));
+
+    console.log('✅ Login exitoso, tokens guardados');
+    return data;
   },
   
   /**
@@ -254,37 +368,25 @@ export const authService = {
    * 🎯 Uso:
    * - Verificar validez del token al cargar la app
    * - Renovar sesión si es necesario
+   *
+   * 🧪 Respuesta validada con `VERIFY_TOKEN_SCHEMA`.
    * ---------------------------------------------------------
    */
-  verifyToken: async () => {
+  verifyToken: async (): Promise<VerifyTokenResponse> => {
     const token = localStorage.getItem('jwt_token');
     
     if (!token) {
-      throw new Error('🔐 No hay token disponible');
+      throw new ApiError('auth', 'No hay token disponible', { retryable: false });
     }
     
-    try {
-      const response = await api.get('/verify-token', {
-        headers: {
-          Authorization: `Bearer ${token}`
-        }
-      });
-      
-      return response.data;
-      
-    } catch (error: any) {
-      console.error('❌ Error verificando token:', error);
-      
-      // 🧹 Limpiar tokens inválidos
-      if (error.response?.status === 401) {
-        localStorage.removeItem('jwt_token');
-        localStorage.removeItem('laravel_token');
-        localStorage.removeItem('user_data');
-        localStorage.removeItem('token_expiry');
+    // 🧹 Un 401 limpia los tokens en el interceptor de `api`
+    const response = await api.get<unknown>('/verify-token', {
+      headers: {
+        Authorization: `Bearer ${token}`
       }
-      
-      throw error;
-    }
+    });
+
+    return parseResponse(response.data, VERIFY_TOKEN_SCHEMA, '/verify-token', responseDetails(response));
   },
   
   /**
@@ -294,10 +396,7 @@ export const authService = {
    * ---------------------------------------------------------
    */
   logout: () => {
-    localStorage.removeItem('jwt_token');
-    localStorage.removeItem('laravel_token');
-    localStorage.removeItem('user_data');
-    localStorage.removeItem('token_expiry');
+    clearSession();
     console.log('🚪 Sesión cerrada correctamente');
   },
   
@@ -305,34 +404,100 @@ export const authService = {
    * 👤 Obtener información del usuario actual
    * ---------------------------------------------------------
    * Lee datos del usuario desde localStorage.
+   *
+   * ⚠️ Si lo guardado está dañado o no tiene la forma de
+   * `AuthUser`, regresa null (como si no hubiera usuario).
    * ---------------------------------------------------------
    */
-  getCurrentUser: () => {
+  getCurrentUser: (): AuthUser | null => {
     const userStr = localStorage.getItem('user_data');
-    return userStr ? JSON.parse(userStr) : null;
+    if (!userStr) return null;
+
+    try {
+      return parseResponse(JSON.parse(userStr), AUTH_USER_SCHEMA, 'user_data');
+    } catch (error) {
+      console.warn('⚠️ Usuario guardado inválido:', error);
+      return null;
+    }
   },
   
   /**
-   * ⏰ Verificar si la sesión está activa
+   * 🔄 Renovar JWT (sin volver a pedir contraseña)
    * ---------------------------------------------------------
-   * Verifica:
-   * 1. Que exista token JWT
-   * 2. Que no haya expirado (100 minutos)
+   * Endpoint backend:
+   * - POST /refresh-token (con el JWT actual, aún vigente)
+   *
+   * 📤 Salida (`RefreshTokenResponse`, validada):
+   * - token: JWT nuevo
+   * - expires_in: vigencia en segundos
+   *
+   * 🗃️ Reemplaza `jwt_token` y `token_expiry`; usuario y token
+   * de Laravel se conservan.
+   *
+   * 🚨 Errores: `ApiError` (si el JWT ya venció llega `auth` y
+   * se dispara el handler de sesión vencida).
    * ---------------------------------------------------------
    */
-  isSessionActive: () => {
+  refreshToken: async (): Promise<RefreshTokenResponse> => {
+    const token = localStorage.getItem('jwt_token');
+
+    if (!token) {
+      throw new ApiError('auth', 'No hay token disponible', { retryable: false });
+    }
+
+    const response = await api.post<unknown>('/refresh-token', null, {
+      headers: {
+        Authorization: `Bearer ${token}`
+      }
+    });
+    const data = parseResponse(response.data, REFRESH_TOKEN_SCHEMA, '/refresh-token', responseDetails(response));
+
+    storeToken(data.token, data.expires_in);
+    console.log('🔄 Token renovado, vence en', data.expires_in, 's');
+    return data;
+  },
+
+  /**
+   * 🔐 Registrar handler de sesión vencida
+   * ---------------------------------------------------------
+   * `handler` se llama (en lugar de redirigir) cuando `api`
+   * recibe 401/403. Pasar null para quitarlo.
+   * ---------------------------------------------------------
+   */
+  setSessionExpiredHandler: (handler: (() => void) | null) => {
+    sessionExpiredHandler = handler;
+  },
+
+  /**
+   * ⏳ Tiempo restante de sesión
+   * ---------------------------------------------------------
+   * Milisegundos hasta que `isSessionActive` deje de ser true
+   * (1 minuto antes de que venza el JWT). Negativo si ya pasó;
+   * null si no hay sesión.
+   * ---------------------------------------------------------
+   */
+  getSessionRemainingMs: (): number | null => {
     const token = localStorage.getItem('jwt_token');
     const expiry = localStorage.getItem('token_expiry');
-    
+
     if (!token || !expiry) {
-      return false;
+      return null;
     }
-    
-    const expiryTime = parseInt(expiry);
-    const currentTime = Date.now();
-    
-    // ✅ Verificar que el token no haya expirado (con margen de 1 minuto)
-    return currentTime < (expiryTime - 60000); // 1 minuto antes de expirar
+
+    return parseInt(expiry) - SESSION_MARGIN_MS - Date.now();
+  },
+
+  /**
+   * ⏰ Verificar si la sesión está activa
+   * ---------------------------------------------------------
+   * Verifica:
+   * 1. Que exista token JWT
+   * 2. Que no haya expirado (con margen de 1 minuto)
+   * ---------------------------------------------------------
+   */
+  isSessionActive: () => {
+    const remaining = authService.getSessionRemainingMs();
+    return remaining !== null && remaining > 0;
   },
   
   /**
@@ -356,6 +521,105 @@ export const authService = {
   }
 };
 
+/**
+ * 📦 imageForm
+ * ---------------------------------------------------------
+ * Reduce / comprime la imagen (`uploadService.prepare`) y arma
+ * el FormData con el campo `imagen` que espera el backend.
+ *
+ * @param file Imagen tal como la eligió el usuario
+ * @param onPrepared (opcional) recibe bytes ahorrados, tamaño, etc.
+ * ---------------------------------------------------------
+ */
+const imageForm = async (file: File, onPrepared?: (upload: UploadPreparation) => void): Promise<FormData> => {
+  const upload = await uploadService.prepare(file);
+  onPrepared?.(upload);
+
+  const formData = new FormData();
+  formData.append('imagen', upload.archivo);
+  return formData;
+};
+
+/**
+ * 🧩 OcrRequestOptions
+ * ---------------------------------------------------------
+ * Opciones de las peticiones de `ocrService`:
+ * - onProgress: fase + porcentaje (preparar, subir, procesar,
+ *   descargar, reintentar)
+ * - onPrepared: resultado de la compresión previa
+ * - signal: `AbortController.signal` para cancelar
+ * ---------------------------------------------------------
+ */
+export interface OcrRequestOptions {
+  onProgress?: (progress: RequestProgress) => void;
+  onPrepared?: (upload: UploadPreparation) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * 🛑 isCancelError
+ * ---------------------------------------------------------
+ * ¿El error viene de una cancelación del usuario?
+ * (Axios `CanceledError` o `AbortError` del navegador)
+ * ---------------------------------------------------------
+ */
+export const isCancelError = (error: unknown): boolean =>
+  axios.isCancel(error) || (error instanceof DOMException && error.name === 'AbortError');
+
+/**
+ * 📊 percentOf
+ * - Porcentaje de un evento de progreso (null si no hay total).
+ */
+const percentOf = (event: AxiosProgressEvent): number | null =>
+  event.total ? Math.round((event.loaded / event.total) * 100) : null;
+
+/**
+ * 📨 postImage
+ * ---------------------------------------------------------
+ * Comprime y sube una imagen a `url` reportando el progreso:
+ * 1) preparando -> `uploadService.prepare`
+ * 2) subiendo (0-99%) -> procesando (al 100%, el servidor trabaja)
+ * 3) descargando la respuesta
+ * 🔁 Entre intentos reporta `reintentando` (ver `withRetry`).
+ *
+ * @param url Endpoint (`/ocr`, `/ocrreverso`, `/enhance`)
+ * @param file Imagen
+ * @param options Progreso / compresión / cancelación
+ * @param config Config extra de Axios (ej: `responseType`)
+ * ---------------------------------------------------------
+ */
+const postImage = async (url: string, file: File, options: OcrRequestOptions = {}, config: AxiosRequestConfig = {}) => {
+  const { onProgress, onPrepared, signal } = options;
+  let intento = 1;
+
+  onProgress?.({ fase: 'preparando', porcentaje: null, intento });
+  const formData = await imageForm(file, onPrepared);
+  signal?.throwIfAborted();
+
+  return api.post<unknown>(url, formData, {
+    ...config,
+    headers: {
+      'Content-Type': 'multipart/form-data',
+    },
+    signal,
+    onUploadProgress: (event) => {
+      const porcentaje = percentOf(event);
+      onProgress?.(porcentaje === 100
+        ? { fase: 'procesando', porcentaje: null, intento }
+        : { fase: 'subiendo', porcentaje, intento });
+    },
+    onDownloadProgress: (event) => {
+      onProgress?.({ fase: 'descargando', porcentaje: percentOf(event), intento });
+    },
+    retry: {
+      onRetry: (attempt, delayMs) => {
+        intento = attempt;
+        onProgress?.({ fase: 'reintentando', porcentaje: null, intento, esperaMs: delayMs });
+      }
+    },
+  });
+};
+
 /**
  * 🧩 Servicio OCR
  * =========================================================
@@ -369,6 +633,20 @@ export const authService = {
  * 🔐 Abstracción:
  * - Los componentes solo envían `File`
  * - El servicio decide cómo enviarlo al backend
+ *
+ * 📦 Antes de subir, cada imagen se reduce y comprime
+ * (`uploadService`); `onPrepared` informa los bytes ahorrados.
+ *
+ * 🔁 Las fallas transitorias se reintentan solas (`withRetry`)
+ * y `signal` permite cancelar en cualquier fase.
+ *
+ * 🧪 Cada respuesta se valida contra su esquema
+ * (`services/schemas.ts`) y se regresa ya tipada; si no cumple
+ * se lanza `ApiSchemaError` con los campos inválidos.
+ *
+ * 🚨 Cualquier falla llega como `ApiError` (ver `errors.ts`).
+ * ⚠️ `es_ine = false` NO es error aquí: los datos se regresan y
+ * la UI decide (código `not_ine`).
  * =========================================================
  */
 export const ocrService = {
@@ -381,7 +659,7 @@ export const ocrService = {
    * 📥 Entrada:
    * - `file: File` → Imagen de la credencial (frente)
    *
-   * 📤 Salida (JSON):
+   * 📤 Salida (`INEData`, validada):
    * - CURP
    * - Clave de elector
    * - Nombre
@@ -396,17 +674,16 @@ export const ocrService = {
    * - Usuario selecciona imagen
    * - Se edita / recorta
    * - Se envía esta versión final al OCR
+   *
+   * ⚙️ options (opcional, `OcrRequestOptions`):
+   * - onProgress: fase y porcentaje (subida / descarga / reintentos)
+   * - onPrepared: resultado de la compresión previa (bytes ahorrados)
+   * - signal: cancelar con `AbortController`
    * ---------------------------------------------------------
    */
-  processAnverso: (file: File) => {
-    const formData = new FormData();
-    formData.append('imagen', file);
-
-    return api.post('/ocr', formData, {
-      headers: {
-        'Content-Type': 'multipart/form-data',
-      },
-    });
+  processAnverso: async (file: File, options?: OcrRequestOptions): Promise<INEData> => {
+    const response = await postImage('/ocr', file, options);
+    return parseResponse(response.data, INE_DATA_SCHEMA, '/ocr', responseDetails(response));
   },
 
   /**
@@ -418,7 +695,7 @@ export const ocrService = {
    * 📥 Entrada:
    * - `file: File` → Imagen del reverso
    *
-   * 📤 Salida (JSON):
+   * 📤 Salida (`ReversoData`, validada):
    * - Líneas MRZ
    * - Nombre(s)
    * - Apellidos
@@ -427,17 +704,16 @@ export const ocrService = {
    * 🎯 Ideal para:
    * - Verificación de identidad
    * - Matching con otros sistemas
+   *
+   * ⚙️ options (opcional, `OcrRequestOptions`):
+   * - onProgress: fase y porcentaje (subida / descarga / reintentos)
+   * - onPrepared: resultado de la compresión previa (bytes ahorrados)
+   * - signal: cancelar con `AbortController`
    * ---------------------------------------------------------
    */
-  processReverso: (file: File) => {
-    const formData = new FormData();
-    formData.append('imagen', file);
-
-    return api.post('/ocrreverso', formData, {
-      headers: {
-        'Content-Type': 'multipart/form-data',
-      },
-    });
+  processReverso: async (file: File, options?: OcrRequestOptions): Promise<ReversoData> => {
+    const response = await postImage('/ocrreverso', file, options);
+    return parseResponse(response.data, REVERSO_DATA_SCHEMA, '/ocrreverso', responseDetails(response));
   },
 
   /**
@@ -450,7 +726,8 @@ export const ocrService = {
    * - `file: File` → Imagen original/editada
    *
    * 📤 Salida:
-   * - Imagen procesada (PNG/BLOB)
+   * - Imagen procesada (`Blob` con tipo `image/*`; si llega
+   *   otra cosa, p. ej. un JSON de error, lanza `ApiSchemaError`)
    *
    * ⚙️ responseType:
    * - `blob` → necesario para manejar imágenes binarias
@@ -460,17 +737,21 @@ export const ocrService = {
    * - Se envía a IA (backend)
    * - Regresa imagen con mejor contraste/perspectiva
    * - Usuario decide si usarla o no
+   *
+   * ⚙️ options (opcional, `OcrRequestOptions`):
+   * - Igual que en `processAnverso` (progreso, compresión, cancelar)
    * ---------------------------------------------------------
    */
-  enhanceImage: (file: File) => {
-    const formData = new FormData();
-    formData.append('imagen', file);
-
-    return api.post('/enhance', formData, {
-      headers: {
-        'Content-Type': 'multipart/form-data',
-      },
-      responseType: 'blob',
-    });
+  enhanceImage: async (file: File, options?: OcrRequestOptions): Promise<Blob> => {
+    const response = await postImage('/enhance', file, options, { responseType: 'blob' });
+    const blob = response.data;
+    if (!(blob instanceof Blob) || !blob.type.startsWith('image/')) {
+      throw new ApiSchemaError('/enhance', [{
+        campo: '(respuesta)',
+        esperado: 'imagen',
+        recibido: blob instanceof Blob ? blob.type || 'blob sin tipo' : typeof blob
+      }], responseDetails(response));
+    }
+    return blob;
   },
 };
\ No newline at end of file
@@ -0,0 +1,137 @@
+/**
+ * 📷 camera.ts
+ * =========================================================
+ * 🎥 Servicio de cámaras del navegador.
+ *
+ * ✅ Incluye:
+ * - 📋 Lista de cámaras conectadas (`enumerateDevices`)
+ * - 💾 Última cámara y resolución elegidas (localStorage)
+ * - 📐 Presets de resolución / proporción
+ * - 🔦 Linterna (torch) cuando la pista de video la soporta
+ *
+ * 🧠 Patrón aplicado:
+ * - Service Layer (igual que `ocrService` / `historyService`)
+ * - CameraCapture no toca `navigator.mediaDevices` directamente
+ *
+ * 🧪 Sin hardware: ver `services/fakeCamera.ts`.
+ * =========================================================
+ */
+
+/** 💾 Llaves de localStorage */
+const DEVICE_KEY = 'camera_device_id';
+const PRESET_KEY = 'camera_preset';
+
+/**
+ * 📐 CameraPreset
+ * - Resolución ideal que se pide a la cámara (el navegador
+ *   entrega la más cercana que soporte).
+ */
+export interface CameraPreset {
+  id: string;
+  nombre: string;
+  width: number;
+  height: number;
+}
+
+/** 📐 Presets disponibles */
+export const CAMERA_PRESETS: CameraPreset[] = [
+  { id: 'hd', nombre: 'HD 1280×720 (16:9)', width: 1280, height: 720 },
+  { id: 'fhd', nombre: 'Full HD 1920×1080 (16:9)', width: 1920, height: 1080 },
+  { id: 'uhd', nombre: '4K 3840×2160 (16:9)', width: 3840, height: 2160 },
+  { id: 'xga', nombre: '1024×768 (4:3)', width: 1024, height: 768 },
+  { id: 'uxga', nombre: '1600×1200 (4:3)', width: 1600, height: 1200 },
+  { id: 'doc', nombre: 'Cámara de documentos 2592×1944 (4:3)', width: 2592, height: 1944 }
+];
+
+/** 📐 Preset por defecto (el que se usaba antes de los presets) */
+export const DEFAULT_CAMERA_PRESET = 'hd';
+
+/** 🔦 Capacidades / restricciones con linterna (no están en lib.dom) */
+interface TorchCapabilities extends MediaTrackCapabilities {
+  torch?: boolean;
+}
+interface TorchConstraintSet extends MediaTrackConstraintSet {
+  torch?: boolean;
+}
+
+/**
+ * 🎥 videoTrack
+ * - Primera pista de video de un stream.
+ */
+const videoTrack = (stream: MediaStream | null): MediaStreamTrack | undefined => stream?.getVideoTracks()[0];
+
+/**
+ * 📷 cameraService
+ * =========================================================
+ * Operaciones sobre las cámaras del dispositivo.
+ * =========================================================
+ */
+export const cameraService = {
+  /**
+   * 📋 Cámaras conectadas
+   * ---------------------------------------------------------
+   * ⚠️ Los nombres (`label`) solo vienen después de que el
+   * usuario dio permiso de cámara.
+   * ---------------------------------------------------------
+   */
+  listDevices: async (): Promise<MediaDeviceInfo[]> => {
+    if (!navigator.mediaDevices?.enumerateDevices) return [];
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices.filter((device) => device.kind === 'videoinput');
+  },
+
+  /** 💾 Última cámara elegida ('' = automática por `facingMode`) */
+  getSavedDeviceId: (): string => localStorage.getItem(DEVICE_KEY) || '',
+
+  /** 💾 Guardar cámara elegida */
+  saveDeviceId: (deviceId: string): void => {
+    if (deviceId) localStorage.setItem(DEVICE_KEY, deviceId);
+    else localStorage.removeItem(DEVICE_KEY);
+  },
+
+  /** 💾 Último preset elegido */
+  getSavedPresetId: (): string => {
+    const saved = localStorage.getItem(PRESET_KEY);
+    return CAMERA_PRESETS.some((preset) => preset.id === saved) ? saved! : DEFAULT_CAMERA_PRESET;
+  },
+
+  /** 💾 Guardar preset elegido */
+  savePresetId: (presetId: string): void => {
+    localStorage.setItem(PRESET_KEY, presetId);
+  },
+
+  /**
+   * 🎛️ Restricciones de video
+   * ---------------------------------------------------------
+   * Con `deviceId` se pide esa cámara exacta; sin él se usa
+   * `facingMode` (frontal / trasera).
+   * ---------------------------------------------------------
+   */
+  buildConstraints: (deviceId: string, presetId: string, facingMode: 'user' | 'environment'): MediaTrackConstraints => {
+    const preset = CAMERA_PRESETS.find((p) => p.id === presetId) ?? CAMERA_PRESETS[0];
+    return {
+      ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode }),
+      width: { ideal: preset.width },
+      height: { ideal: preset.height },
+      aspectRatio: { ideal: preset.width / preset.height }
+    };
+  },
+
+  /** 🔦 ¿La pista actual tiene linterna? */
+  supportsTorch: (stream: MediaStream | null): boolean => {
+    const track = videoTrack(stream);
+    if (!track?.getCapabilities) return false;
+    return !!(track.getCapabilities() as TorchCapabilities).torch;
+  },
+
+  /**
+   * 🔦 Encender / apagar la linterna
+   * @throws Si la pista no la soporta o el navegador la rechaza
+   */
+  setTorch: async (stream: MediaStream | null, on: boolean): Promise<void> => {
+    const track = videoTrack(stream);
+    if (!track) throw new Error('No hay cámara activa');
+    const advanced: TorchConstraintSet[] = [{ torch: on }];
+    await track.applyConstraints({ advanced });
+  }
+};
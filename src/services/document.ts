@@ -0,0 +1,194 @@
+/**
+ * 📄 document.ts
+ * =========================================================
+ * 🔄 Conversión de PDF y HEIC a imágenes (en el navegador).
+ *
+ * ✅ Incluye:
+ * - 📄 PDF: cada página se dibuja en un canvas (pdf.js) y se
+ *   convierte a JPEG, con miniatura para el selector de páginas
+ * - 🍏 HEIC / HEIF (fotos de iPhone): se convierten a JPEG (heic2any)
+ * - 🖼️ Imágenes normales: pasan sin cambios
+ * - 🌐 URL de imagen (pegada / arrastrada): se descarga como archivo
+ *
+ * 🧠 Patrón aplicado:
+ * - Service Layer (igual que `ocrService` / `preprocessService`)
+ * - Las librerías se cargan al primer uso (`import()`), así no
+ *   pesan en la carga inicial de la app
+ *
+ * ⚠️ Todo ocurre en el navegador: el archivo original nunca se
+ * envía al backend, solo la imagen convertida.
+ * =========================================================
+ */
+
+import type { DocumentPage } from '../types';
+import { canvasToBlob, createThumbnail } from '../utils/image';
+import { fileNameFromUrl } from '../utils/intake';
+
+/** 🖼️ Lado mayor de la página renderizada (suficiente para OCR) */
+const PDF_RENDER_SIZE = 2000;
+
+/** 🔍 Lado mayor de la miniatura del selector */
+const THUMBNAIL_SIZE = 240;
+
+/** 📄 Máximo de páginas que se convierten por PDF */
+export const MAX_PDF_PAGES = 20;
+
+/** 🎚️ Calidad JPEG de las páginas / fotos convertidas */
+const JPEG_QUALITY = 0.92;
+
+/**
+ * 🏷️ baseName
+ * - Nombre del archivo sin extensión.
+ */
+const baseName = (file: File): string => file.name.replace(/\.[^.]+$/, '') || 'documento';
+
+/**
+ * 📄 loadPdfjs
+ * ---------------------------------------------------------
+ * Carga pdf.js y configura su worker (una sola vez).
+ * ---------------------------------------------------------
+ */
+const loadPdfjs = async () => {
+  const [pdfjs, worker] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url')
+  ]);
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+  }
+  return pdfjs;
+};
+
+/**
+ * 📄 documentService
+ * =========================================================
+ * Detección y conversión de formatos de entrada.
+ * =========================================================
+ */
+export const documentService = {
+  /** 📄 ¿Es PDF? */
+  isPdf: (file: File): boolean =>
+    file.type === 'application/pdf' || /\.pdf$/i.test(file.name),
+
+  /**
+   * 🍏 ¿Es HEIC / HEIF?
+   * ⚠️ Algunos navegadores no reportan `type` para HEIC, por eso
+   * también se revisa la extensión.
+   */
+  isHeic: (file: File): boolean =>
+    /^image\/hei[cf](-sequence)?$/.test(file.type) || /\.hei[cf]$/i.test(file.name),
+
+  /** ✅ ¿Se puede usar (imagen, PDF o HEIC)? */
+  isSupported: (file: File): boolean =>
+    file.type.startsWith('image/') || documentService.isPdf(file) || documentService.isHeic(file),
+
+  /**
+   * 🍏 HEIC -> JPEG
+   * ---------------------------------------------------------
+   * Si el archivo trae varias imágenes (ráfaga / live photo)
+   * se usa la primera.
+   *
+   * @throws Si el archivo no se puede decodificar
+   * ---------------------------------------------------------
+   */
+  convertHeic: async (file: File): Promise<File> => {
+    const { default: heic2any } = await import('heic2any');
+    const result = await heic2any({ blob: file, toType: 'image/jpeg', quality: JPEG_QUALITY });
+    const blob = Array.isArray(result) ? result[0] : result;
+    console.log('🍏 HEIC convertido a JPEG:', { nombre: file.name, bytes: blob.size });
+    return new File([blob], `${baseName(file)}.jpg`, { type: 'image/jpeg' });
+  },
+
+  /**
+   * 📄 PDF -> páginas
+   * ---------------------------------------------------------
+   * Dibuja cada página (hasta `MAX_PDF_PAGES`) con el lado
+   * mayor en `PDF_RENDER_SIZE` px y la convierte a JPEG.
+   *
+   * @param file PDF
+   * @param onProgress (opcional) páginas listas / total
+   * @throws Si el PDF está dañado o protegido con contraseña
+   * ---------------------------------------------------------
+   */
+  renderPdf: async (
+    file: File,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<DocumentPage[]> => {
+    const pdfjs = await loadPdfjs();
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+
+    try {
+      const total = Math.min(pdf.numPages, MAX_PDF_PAGES);
+      if (pdf.numPages > MAX_PDF_PAGES) {
+        console.warn(`⚠️ El PDF tiene ${pdf.numPages} páginas; solo se convierten ${MAX_PDF_PAGES}`);
+      }
+
+      const pages: DocumentPage[] = [];
+      for (let pagina = 1; pagina <= total; pagina++) {
+        const page = await pdf.getPage(pagina);
+        const base = page.getViewport({ scale: 1 });
+        const viewport = page.getViewport({ scale: PDF_RENDER_SIZE / Math.max(base.width, base.height) });
+
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(viewport.width);
+        canvas.height = Math.round(viewport.height);
+        await page.render({ canvas, viewport, background: '#ffffff' }).promise;
+        page.cleanup();
+
+        const blob = await canvasToBlob(canvas, 'image/jpeg', JPEG_QUALITY);
+        pages.push({
+          pagina,
+          archivo: new File([blob], `${baseName(file)}-p${pagina}.jpg`, { type: 'image/jpeg' }),
+          miniatura: await createThumbnail(canvas, THUMBNAIL_SIZE)
+        });
+        onProgress?.(pagina, total);
+      }
+
+      console.log('📄 PDF convertido:', { nombre: file.name, paginas: pages.length });
+      return pages;
+    } finally {
+      await pdf.destroy();
+    }
+  },
+
+  /**
+   * 🌐 URL -> archivo
+   * ---------------------------------------------------------
+   * Descarga una imagen arrastrada / pegada desde otra página.
+   *
+   * ⚠️ El servidor de origen debe permitir CORS; si no, el
+   * navegador bloquea la descarga (el usuario tendrá que
+   * guardar la imagen y subirla como archivo).
+   *
+   * @throws Si la descarga falla o la respuesta no es 2xx
+   * ---------------------------------------------------------
+   */
+  fetchImage: async (url: string): Promise<File> => {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+    const blob = await response.blob();
+    console.log('🌐 Imagen descargada:', { url: url.slice(0, 120), tipo: blob.type, bytes: blob.size });
+    return new File([blob], fileNameFromUrl(url, blob.type), { type: blob.type });
+  },
+
+  /**
+   * 🔄 toImageFiles
+   * ---------------------------------------------------------
+   * Convierte cualquier archivo soportado en imágenes:
+   * - PDF  -> una imagen por página
+   * - HEIC -> una imagen JPEG
+   * - Imagen -> el mismo archivo
+   *
+   * 📚 Lo usa el modo lote (cada página se encola aparte).
+   * ---------------------------------------------------------
+   */
+  toImageFiles: async (file: File): Promise<File[]> => {
+    if (documentService.isPdf(file)) {
+      const pages = await documentService.renderPdf(file);
+      return pages.map((page) => page.archivo);
+    }
+    if (documentService.isHeic(file)) return [await documentService.convertHeic(file)];
+    return [file];
+  }
+};
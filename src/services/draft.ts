@@ -0,0 +1,125 @@
+/**
+ * 💾 draft.ts
+ * =========================================================
+ * 🧾 Borrador del wizard en IndexedDB.
+ *
+ * Cuando la sesión vence a media captura, App guarda aquí el
+ * trabajo en curso (imágenes, resultados, correcciones) y lo
+ * recupera al volver a iniciar sesión.
+ *
+ * 🧠 Patrón aplicado:
+ * - Service Layer (igual que `historyService`)
+ * - Base aparte del historial: un solo registro, sin migraciones
+ *
+ * ⚠️ Las imágenes son DataURL de varios MB: no caben en
+ * localStorage / sessionStorage, por eso IndexedDB.
+ *
+ * 📦 Base de datos:
+ * - Nombre: `ine-ocr-draft`
+ * - Store: `draft` (clave fija `wizard`)
+ * =========================================================
+ */
+
+import type { WizardDraft } from '../types';
+
+/** 📦 Nombre y versión de la base */
+const DB_NAME = 'ine-ocr-draft';
+const DB_VERSION = 1;
+
+/** 🗃️ Store y clave del borrador */
+const STORE = 'draft';
+const KEY = 'wizard';
+
+/** ⏳ Antigüedad máxima para restaurar (12 h) */
+const DRAFT_MAX_AGE_MS = 12 * 60 * 60 * 1000;
+
+/**
+ * 🔌 openDB
+ * - Abre (y crea si hace falta) la base del borrador.
+ */
+const openDB = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    if (!('indexedDB' in window)) {
+      reject(new Error('💾 IndexedDB no está disponible en este navegador'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE)) db.createObjectStore(STORE);
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * 🔁 runRequest
+ * - Operación sobre el store dentro de una transacción (Promise).
+ */
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDB();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const request = operation(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * 💾 draftService
+ * =========================================================
+ * Guardar / recuperar el trabajo en curso del wizard.
+ * =========================================================
+ */
+export const draftService = {
+  /**
+   * 💾 Guardar borrador (reemplaza el anterior)
+   */
+  save: async (draft: WizardDraft): Promise<void> => {
+    await runRequest('readwrite', (store) => store.put(draft, KEY));
+    console.log('💾 Borrador del wizard guardado:', { paso: draft.activeStep, usuario: draft.usuario });
+  },
+
+  /**
+   * ♻️ Tomar borrador
+   * ---------------------------------------------------------
+   * Lo lee y lo borra (se restaura una sola vez).
+   *
+   * @param usuario Usuario actual
+   * @returns El borrador, o null si no hay, es de otro usuario
+   *          o es demasiado viejo (en esos casos se descarta)
+   * ---------------------------------------------------------
+   */
+  take: async (usuario: string): Promise<WizardDraft | null> => {
+    const draft = await runRequest<WizardDraft | undefined>('readonly', (store) => store.get(KEY));
+    if (!draft) return null;
+
+    await runRequest('readwrite', (store) => store.delete(KEY));
+
+    const age = Date.now() - new Date(draft.guardado).getTime();
+    if (draft.usuario !== usuario || !(age <= DRAFT_MAX_AGE_MS)) {
+      console.log('🗑️ Borrador descartado:', { usuario: draft.usuario, guardado: draft.guardado });
+      return null;
+    }
+    return draft;
+  },
+
+  /**
+   * 🗑️ Borrar borrador
+   */
+  clear: async (): Promise<void> => {
+    await runRequest('readwrite', (store) => store.delete(KEY));
+  }
+};
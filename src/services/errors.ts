@@ -0,0 +1,215 @@
+/**
+ * 🚨 errors.ts
+ * =========================================================
+ * ❌ Errores estructurados de la capa de servicios.
+ *
+ * ✅ Toda falla de `api.ts` llega a la UI como `ApiError`:
+ * - code: qué pasó (`ApiErrorCode`)
+ * - status: código HTTP (si hubo respuesta)
+ * - requestId: id de la petición que mandó el backend
+ * - retryable: si tiene sentido reintentar
+ *
+ * 🧠 Los componentes deciden qué mostrar con `code` (y los
+ * textos de `API_ERROR_INFO`), nunca leyendo el mensaje.
+ *
+ * ⚠️ Las cancelaciones del usuario NO se convierten: se
+ * reconocen con `isCancelError` (api.ts).
+ * =========================================================
+ */
+
+import axios from 'axios';
+import type { AxiosError } from 'axios';
+import type { ApiErrorCode, SchemaIssue } from '../types';
+
+/**
+ * 🏷️ API_ERROR_INFO
+ * ---------------------------------------------------------
+ * Título y sugerencia para el usuario por código.
+ * ---------------------------------------------------------
+ */
+export const API_ERROR_INFO: Record<ApiErrorCode, { titulo: string; sugerencia: string }> = {
+  timeout: {
+    titulo: '⏰ El servidor tardó demasiado',
+    sugerencia: 'Usa una imagen nítida, bien iluminada y sin reflejos, verifica tu conexión e intenta nuevamente.'
+  },
+  network: {
+    titulo: '🔌 Error de conexión',
+    sugerencia: 'Verifica tu internet y que el servidor esté funcionando.'
+  },
+  auth: {
+    titulo: '🔐 Sesión no válida',
+    sugerencia: 'Inicia sesión nuevamente.'
+  },
+  validation: {
+    titulo: '📦 Respuesta inesperada del servidor',
+    sugerencia: 'La versión del backend no coincide con la del frontend; avisa al administrador.'
+  },
+  server: {
+    titulo: '🔧 Error del servidor',
+    sugerencia: 'Intenta nuevamente en unos momentos.'
+  },
+  not_ine: {
+    titulo: '🪪 La imagen no parece una INE/IFE',
+    sugerencia: 'Revisa que sea el lado correcto y que la credencial se vea completa.'
+  },
+  unknown: {
+    titulo: '❌ Error inesperado',
+    sugerencia: 'Intenta nuevamente; si se repite, revisa la consola.'
+  }
+};
+
+/** 🔁 Códigos que vale la pena reintentar (default de `retryable`) */
+const RETRYABLE_CODES: ApiErrorCode[] = ['timeout', 'network', 'server'];
+
+/**
+ * 🧩 ApiErrorDetails
+ * ---------------------------------------------------------
+ * Datos opcionales de un `ApiError`.
+ * - retryable: si no viene, se decide por el código
+ * ---------------------------------------------------------
+ */
+export interface ApiErrorDetails {
+  status?: number | null;
+  requestId?: string | null;
+  retryable?: boolean;
+  cause?: unknown;
+}
+
+/**
+ * 🚨 ApiError
+ * ---------------------------------------------------------
+ * Error base de la capa de servicios.
+ *
+ * @param code    Qué pasó (`ApiErrorCode`)
+ * @param message Detalle (para logs y como texto secundario)
+ * @param details Status, request id, reintentable, causa
+ * ---------------------------------------------------------
+ */
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly status: number | null;
+  readonly requestId: string | null;
+  readonly retryable: boolean;
+
+  constructor(code: ApiErrorCode, message: string, details: ApiErrorDetails = {}) {
+    super(message, { cause: details.cause });
+    this.name = 'ApiError';
+    this.code = code;
+    this.status = details.status ?? null;
+    this.requestId = details.requestId ?? null;
+    this.retryable = details.retryable ?? RETRYABLE_CODES.includes(code);
+  }
+}
+
+/** 🔢 Máximo de campos que se listan en el mensaje */
+const MAX_LISTED_ISSUES = 3;
+
+/**
+ * 🧪 describeIssues
+ * ---------------------------------------------------------
+ * Texto corto con los campos inválidos, para toasts / alertas:
+ * "curp (se esperaba string, llegó null), ... y 2 más"
+ * ---------------------------------------------------------
+ */
+export const describeIssues = (issues: SchemaIssue[]): string => {
+  const listed = issues
+    .slice(0, MAX_LISTED_ISSUES)
+    .map((issue) => `${issue.campo} (se esperaba ${issue.esperado}, llegó ${issue.recibido})`)
+    .join(', ');
+  const rest = issues.length - MAX_LISTED_ISSUES;
+  return rest > 0 ? `${listed} y ${rest} más` : listed;
+};
+
+/**
+ * 🧪 ApiSchemaError
+ * ---------------------------------------------------------
+ * La respuesta del backend llegó, pero no tiene la forma que
+ * espera la UI (campo faltante, tipo distinto, no es imagen...).
+ * Código `validation`.
+ *
+ * - recurso: endpoint / recurso que respondió (ej. "/ocr")
+ * - issues: campos que no cumplen el esquema
+ * ---------------------------------------------------------
+ */
+export class ApiSchemaError extends ApiError {
+  readonly recurso: string;
+  readonly issues: SchemaIssue[];
+
+  constructor(recurso: string, issues: SchemaIssue[], details: ApiErrorDetails = {}) {
+    super('validation', `Respuesta inesperada de ${recurso}: ${describeIssues(issues)}`, details);
+    this.name = 'ApiSchemaError';
+    this.recurso = recurso;
+    this.issues = issues;
+  }
+}
+
+/**
+ * 🔖 requestIdOf
+ * ---------------------------------------------------------
+ * Id de la petición en los headers de la respuesta
+ * (`X-Request-Id` / `X-Correlation-Id`), o null.
+ *
+ * ⚠️ En otro dominio, el backend debe exponerlo en
+ * `Access-Control-Expose-Headers` para que el navegador lo vea.
+ * ---------------------------------------------------------
+ */
+export const requestIdOf = (headers: unknown): string | null => {
+  if (!headers || typeof headers !== 'object') return null;
+  const record = headers as Record<string, unknown>;
+  const value = record['x-request-id'] ?? record['x-correlation-id'];
+  return typeof value === 'string' && value ? value : null;
+};
+
+/**
+ * 💬 serverMessage
+ * - `message` / `error` del cuerpo JSON de un error, si hay.
+ */
+const serverMessage = (data: unknown): string | null => {
+  if (!data || typeof data !== 'object') return null;
+  const { message, error } = data as { message?: unknown; error?: unknown };
+  if (typeof message === 'string' && message) return message;
+  if (typeof error === 'string' && error) return error;
+  return null;
+};
+
+/**
+ * 🔄 fromAxiosError
+ * ---------------------------------------------------------
+ * Clasifica un error de Axios:
+ * - ECONNABORTED / ETIMEDOUT -> timeout
+ * - sin respuesta            -> network
+ * - 401 / 403                -> auth
+ * - otro status              -> server (reintentable solo 5xx)
+ * ---------------------------------------------------------
+ */
+export const fromAxiosError = (error: AxiosError): ApiError => {
+  const status = error.response?.status ?? null;
+  const details: ApiErrorDetails = { status, requestId: requestIdOf(error.response?.headers), cause: error };
+
+  if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT' || error.message.includes('timeout')) {
+    return new ApiError('timeout', `Sin respuesta en ${error.config?.timeout ?? 0} ms (${error.config?.url ?? 'petición'})`, details);
+  }
+  if (!error.response || status === null) {
+    return new ApiError('network', `No se pudo contactar al servidor (${error.message})`, details);
+  }
+  if (status === 401 || status === 403) {
+    return new ApiError('auth', serverMessage(error.response.data) || `El servidor respondió ${status}`, details);
+  }
+  return new ApiError('server', serverMessage(error.response.data) || `El servidor respondió ${status}`, {
+    ...details,
+    retryable: status >= 500
+  });
+};
+
+/**
+ * 🧭 toApiError
+ * ---------------------------------------------------------
+ * Cualquier error capturado -> `ApiError` (para mostrarlo por
+ * código). Los `ApiError` pasan tal cual.
+ * ---------------------------------------------------------
+ */
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error;
+  if (axios.isAxiosError(error)) return fromAxiosError(error);
+  return new ApiError('unknown', error instanceof Error ? error.message : String(error), { cause: error });
+};
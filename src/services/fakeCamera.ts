@@ -0,0 +1,180 @@
+/**
+ * 🧪 fakeCamera.ts
+ * =========================================================
+ * 🎭 Cámaras de prueba (sin hardware).
+ *
+ * Reemplaza `navigator.mediaDevices.getUserMedia` y
+ * `enumerateDevices` por cámaras falsas que dibujan una
+ * credencial sintética en un canvas (`captureStream`).
+ *
+ * ✅ Permite probar CameraCapture completo:
+ * - 📋 Selector con varias cámaras
+ * - 📐 Presets de resolución (el canvas usa la resolución pedida)
+ * - 🔦 Linterna (aclara la escena)
+ * - ⚡ Disparo automático (la credencial se mueve y luego se queda quieta)
+ *
+ * 🔌 Se activa con `VITE_FAKE_CAMERA=true` (ver `main.tsx`).
+ * =========================================================
+ */
+
+import { ID1_ASPECT } from '../utils/perspective';
+
+/** 🎭 Cámaras que se anuncian */
+const FAKE_DEVICES = [
+  { deviceId: 'fake-document-camera', label: '🧪 Cámara de prueba (documentos)' },
+  { deviceId: 'fake-usb-camera', label: '🧪 Cámara de prueba (USB)' }
+];
+
+/** ⏱️ Segundos que la credencial se mueve antes de quedarse quieta */
+const MOVING_SECONDS = 2;
+
+/** 🎞️ Cuadros por segundo del stream */
+const FPS = 15;
+
+/** 🔦 Capacidades de la pista falsa */
+interface FakeCapabilities extends MediaTrackCapabilities {
+  torch?: boolean;
+}
+
+/**
+ * 📏 pickSize
+ * - Toma `exact` / `ideal` / número de una restricción.
+ */
+const pickSize = (value: ConstrainULong | undefined, fallback: number): number => {
+  if (typeof value === 'number') return value;
+  return value?.exact ?? value?.ideal ?? fallback;
+};
+
+/**
+ * 🔑 pickDeviceId
+ * - Toma el id pedido (`exact` / `ideal` / string / lista).
+ */
+const pickDeviceId = (value: ConstrainDOMString | undefined): string => {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return value[0] ?? '';
+  const inner = value?.exact ?? value?.ideal;
+  return (Array.isArray(inner) ? inner[0] : inner) ?? '';
+};
+
+/**
+ * 🪪 drawScene
+ * ---------------------------------------------------------
+ * Dibuja fondo + credencial con texto. La credencial oscila
+ * los primeros segundos y luego se queda fija y centrada.
+ * ---------------------------------------------------------
+ */
+const drawScene = (ctx: CanvasRenderingContext2D, width: number, height: number, seconds: number, torch: boolean) => {
+  ctx.fillStyle = '#3b2f2a';
+  ctx.fillRect(0, 0, width, height);
+
+  const cardWidth = Math.min(width * 0.7, height * 0.7 * ID1_ASPECT);
+  const cardHeight = cardWidth / ID1_ASPECT;
+  const drift = seconds < MOVING_SECONDS ? Math.sin(seconds * 6) * width * 0.05 : 0;
+  const x = (width - cardWidth) / 2 + drift;
+  const y = (height - cardHeight) / 2;
+
+  ctx.fillStyle = '#f4eee8';
+  ctx.fillRect(x, y, cardWidth, cardHeight);
+
+  ctx.fillStyle = '#b03060';
+  ctx.fillRect(x, y, cardWidth, cardHeight * 0.12);
+
+  ctx.fillStyle = '#1a1a1a';
+  const line = cardHeight / 11;
+  ctx.font = `bold ${Math.round(line * 0.7)}px sans-serif`;
+  [
+    'INSTITUTO NACIONAL ELECTORAL',
+    'NOMBRE',
+    'PEREZ GARCIA',
+    'MARIA FERNANDA',
+    'DOMICILIO',
+    'C JUAREZ 123 COL CENTRO',
+    'CLAVE DE ELECTOR PRGRMR90010109M100',
+    'CURP PEGM900101MDFRRR09',
+    'VIGENCIA 2020 - 2030'
+  ].forEach((text, i) => {
+    ctx.fillText(text, x + cardWidth * 0.32, y + line * (i + 2));
+  });
+
+  // 👤 Foto
+  ctx.fillStyle = '#8a8a8a';
+  ctx.fillRect(x + cardWidth * 0.04, y + cardHeight * 0.2, cardWidth * 0.24, cardHeight * 0.6);
+
+  if (torch) {
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.2)';
+    ctx.fillRect(0, 0, width, height);
+  }
+};
+
+/**
+ * 🎥 createFakeStream
+ * ---------------------------------------------------------
+ * Stream de un canvas animado con la resolución pedida.
+ * La pista anuncia linterna y responde a `applyConstraints`.
+ * ---------------------------------------------------------
+ */
+const createFakeStream = (constraints: MediaTrackConstraints): MediaStream => {
+  const canvas = document.createElement('canvas');
+  canvas.width = pickSize(constraints.width, 1280);
+  canvas.height = pickSize(constraints.height, 720);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new DOMException('Canvas 2D no disponible', 'NotReadableError');
+
+  const deviceId = pickDeviceId(constraints.deviceId) || FAKE_DEVICES[0].deviceId;
+
+  let torch = false;
+  const start = performance.now();
+  const timer = window.setInterval(() => {
+    drawScene(ctx, canvas.width, canvas.height, (performance.now() - start) / 1000, torch);
+  }, 1000 / FPS);
+  drawScene(ctx, canvas.width, canvas.height, 0, torch);
+
+  const stream = canvas.captureStream(FPS);
+  const track = stream.getVideoTracks()[0];
+
+  const stop = track.stop.bind(track);
+  track.stop = () => {
+    window.clearInterval(timer);
+    stop();
+  };
+  track.getCapabilities = (): FakeCapabilities => ({ torch: true, deviceId });
+  track.getSettings = () => ({ deviceId, width: canvas.width, height: canvas.height, torch } as MediaTrackSettings);
+  track.applyConstraints = async (next?: MediaTrackConstraints) => {
+    const advanced = next?.advanced as Array<{ torch?: boolean }> | undefined;
+    advanced?.forEach((set) => {
+      if (typeof set.torch === 'boolean') torch = set.torch;
+    });
+  };
+
+  return stream;
+};
+
+/**
+ * 🧪 installFakeCamera
+ * ---------------------------------------------------------
+ * Instala las cámaras falsas en `navigator.mediaDevices`.
+ * Se llama una sola vez al iniciar la app.
+ * ---------------------------------------------------------
+ */
+export const installFakeCamera = (): void => {
+  const mediaDevices = navigator.mediaDevices ?? ({} as MediaDevices);
+  if (!navigator.mediaDevices) {
+    Object.defineProperty(navigator, 'mediaDevices', { value: mediaDevices, configurable: true });
+  }
+
+  mediaDevices.enumerateDevices = async () =>
+    FAKE_DEVICES.map(({ deviceId, label }) => ({
+      deviceId,
+      label,
+      groupId: 'fake',
+      kind: 'videoinput' as MediaDeviceKind,
+      toJSON: () => ({ deviceId, label, groupId: 'fake', kind: 'videoinput' })
+    }));
+
+  mediaDevices.getUserMedia = async (constraints?: MediaStreamConstraints) => {
+    const video = typeof constraints?.video === 'object' ? constraints.video : {};
+    return createFakeStream(video);
+  };
+
+  console.warn('🧪 Cámaras de prueba activas (VITE_FAKE_CAMERA)');
+};
@@ -0,0 +1,166 @@
+/**
+ * 🗂️ history.ts
+ * =========================================================
+ * 💾 Historial local de escaneos en IndexedDB.
+ *
+ * Cada OCR procesado se guarda en el navegador con:
+ * - 🖼️ Miniatura de la imagen procesada
+ * - 🕒 Fecha, 🪪 lado y 👤 usuario
+ * - 📋 Campos extraídos (+ correcciones)
+ *
+ * 🧠 Patrón aplicado:
+ * - Service Layer (igual que `ocrService` / `authService`)
+ * - Los componentes no conocen IndexedDB, solo `historyService`
+ *
+ * 📦 Base de datos:
+ * - Nombre: `ine-ocr`
+ * - Store: `scans` (keyPath `id`, autoincremental)
+ * =========================================================
+ */
+
+import type { HistoryEntry, INEData, ReversoData } from '../types';
+import { normalizeText } from '../utils/text';
+
+/** 📦 Nombre y versión de la base */
+const DB_NAME = 'ine-ocr';
+const DB_VERSION = 1;
+
+/** 🗃️ Store de escaneos */
+const STORE = 'scans';
+
+/**
+ * 🔌 openDB
+ * ---------------------------------------------------------
+ * Abre (y crea/migra si hace falta) la base IndexedDB.
+ * ---------------------------------------------------------
+ */
+const openDB = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    if (!('indexedDB' in window)) {
+      reject(new Error('💾 IndexedDB no está disponible en este navegador'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        const store = db.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+        store.createIndex('fecha', 'fecha');
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * 🔁 runRequest
+ * ---------------------------------------------------------
+ * Ejecuta una operación sobre el store dentro de una transacción
+ * y convierte el `IDBRequest` en Promise.
+ *
+ * @param mode      "readonly" | "readwrite"
+ * @param operation Operación a ejecutar con el store
+ * ---------------------------------------------------------
+ */
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDB();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const request = operation(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * 🔍 buildSearchText
+ * ---------------------------------------------------------
+ * Texto normalizado con nombre, CURP y clave de elector para
+ * buscar sin importar mayúsculas ni acentos.
+ * ---------------------------------------------------------
+ */
+export const buildSearchText = (data: INEData | ReversoData): string => {
+  const record = data as Partial<INEData & ReversoData>;
+  return normalizeText([
+    record.nombre,
+    record.apellido_paterno,
+    record.apellido_materno,
+    record.nombre_reverso,
+    record.curp,
+    record.clave_elector
+  ].filter(Boolean).join(' '));
+};
+
+/**
+ * 🗂️ historyService
+ * =========================================================
+ * Operaciones del historial local.
+ * =========================================================
+ */
+export const historyService = {
+  /**
+   * 💾 Guardar escaneo
+   * ---------------------------------------------------------
+   * @param entry Escaneo sin `id` ni `busqueda` (se calculan aquí)
+   * @returns Escaneo guardado con su `id`
+   * ---------------------------------------------------------
+   */
+  save: async (entry: Omit<HistoryEntry, 'id' | 'busqueda'>): Promise<HistoryEntry> => {
+    const record: HistoryEntry = { ...entry, busqueda: buildSearchText(entry.data) };
+    const id = await runRequest('readwrite', (store) => store.add(record));
+    console.log('💾 Escaneo guardado en historial:', id);
+    return { ...record, id: Number(id) };
+  },
+
+  /**
+   * ✏️ Actualizar datos/correcciones de un escaneo
+   * ---------------------------------------------------------
+   * @param id      Id del escaneo
+   * @param changes Campos a reemplazar
+   * ---------------------------------------------------------
+   */
+  update: async (id: number, changes: Pick<HistoryEntry, 'data' | 'correcciones'>): Promise<void> => {
+    const current = await runRequest<HistoryEntry | undefined>('readonly', (store) => store.get(id));
+    if (!current) return;
+
+    const updated: HistoryEntry = { ...current, ...changes, busqueda: buildSearchText(changes.data) };
+    await runRequest('readwrite', (store) => store.put(updated));
+  },
+
+  /**
+   * 📋 Listar escaneos (más recientes primero)
+   * ---------------------------------------------------------
+   * @param query Texto opcional (nombre, CURP o clave de elector)
+   * ---------------------------------------------------------
+   */
+  list: async (query = ''): Promise<HistoryEntry[]> => {
+    const entries = await runRequest<HistoryEntry[]>('readonly', (store) => store.getAll());
+    const terms = normalizeText(query).split(' ').filter(Boolean);
+
+    return entries
+      .filter((entry) => terms.every((term) => entry.busqueda.includes(term)))
+      .sort((a, b) => b.fecha.localeCompare(a.fecha));
+  },
+
+  /**
+   * 🗑️ Eliminar escaneo
+   * ---------------------------------------------------------
+   * @param id Id del escaneo
+   * ---------------------------------------------------------
+   */
+  remove: async (id: number): Promise<void> => {
+    await runRequest('readwrite', (store) => store.delete(id));
+    console.log('🗑️ Escaneo eliminado del historial:', id);
+  }
+};
@@ -0,0 +1,130 @@
+/**
+ * 🧪 preprocess.ts
+ * =========================================================
+ * 🧵 Cliente del worker de preprocesamiento local.
+ *
+ * Convierte un DataURL en píxeles, los manda al Web Worker con
+ * los pasos del preset y arma el DataURL resultante.
+ *
+ * 🧠 Patrón aplicado:
+ * - Service Layer (igual que `ocrService` / `historyService`)
+ * - Los componentes no conocen el worker, solo `preprocessService`
+ *
+ * ⚠️ Si el navegador no soporta workers de módulo, los filtros
+ * corren en el hilo principal (más lento, mismo resultado).
+ * =========================================================
+ */
+
+import { findPreset, runPreprocess, type PreprocessStep } from '../utils/preprocess';
+import { loadImage } from '../utils/image';
+import type { PreprocessRequest, PreprocessResponse } from '../workers/preprocess.worker';
+
+/** 🖼️ Lado mayor máximo que se procesa (suficiente para OCR) */
+const MAX_PREPROCESS_SIZE = 2000;
+
+/** 🧵 Worker compartido (se crea al primer uso) */
+let worker: Worker | null = null;
+
+/** 🔑 Id incremental de peticiones */
+let nextId = 0;
+
+/** ⏳ Peticiones pendientes por id */
+const pending = new Map<number, { resolve: (data: Uint8ClampedArray) => void; reject: (error: Error) => void }>();
+
+/**
+ * 🧵 getWorker
+ * ---------------------------------------------------------
+ * Crea el worker la primera vez. Regresa null si no se puede
+ * (el servicio usa entonces el hilo principal).
+ * ---------------------------------------------------------
+ */
+const getWorker = (): Worker | null => {
+  if (worker) return worker;
+  if (typeof Worker === 'undefined') return null;
+
+  try {
+    worker = new Worker(new URL('../workers/preprocess.worker.ts', import.meta.url), { type: 'module' });
+  } catch (error) {
+    console.warn('⚠️ No se pudo crear el worker de preprocesamiento:', error);
+    return null;
+  }
+
+  worker.onmessage = (event: MessageEvent<PreprocessResponse>) => {
+    const { id, data, error } = event.data;
+    const request = pending.get(id);
+    if (!request) return;
+    pending.delete(id);
+
+    if (data) request.resolve(data);
+    else request.reject(new Error(error || 'Error en preprocesamiento'));
+  };
+
+  worker.onerror = (event) => {
+    console.error('❌ Error en worker de preprocesamiento:', event.message);
+    pending.forEach((request) => request.reject(new Error('El worker de preprocesamiento falló')));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+
+  return worker;
+};
+
+/**
+ * 🧵 runInWorker
+ * - Manda los píxeles al worker y espera el resultado.
+ */
+const runInWorker = (image: ImageData, steps: PreprocessStep[]): Promise<Uint8ClampedArray> => {
+  const target = getWorker();
+  if (!target) {
+    runPreprocess(image, steps);
+    return Promise.resolve(image.data);
+  }
+
+  return new Promise((resolve, reject) => {
+    const id = nextId++;
+    pending.set(id, { resolve, reject });
+    const request: PreprocessRequest = { id, width: image.width, height: image.height, data: image.data, steps };
+    target.postMessage(request, [image.data.buffer]);
+  });
+};
+
+/**
+ * 🧪 preprocessService
+ * =========================================================
+ * Operaciones de preprocesamiento local.
+ * =========================================================
+ */
+export const preprocessService = {
+  /**
+   * 🧪 Aplicar un preset
+   * ---------------------------------------------------------
+   * @param imageSrc DataURL de la imagen base
+   * @param presetId Id del preset (`PREPROCESS_PRESETS`)
+   * @returns DataURL JPEG con el preset aplicado
+   * ---------------------------------------------------------
+   */
+  apply: async (imageSrc: string, presetId: string): Promise<string> => {
+    const preset = findPreset(presetId);
+    if (!preset) throw new Error(`Preset desconocido: ${presetId}`);
+
+    const img = await loadImage(imageSrc);
+    const scale = Math.min(1, MAX_PREPROCESS_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D no disponible');
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+    console.log('🧪 Aplicando preset:', preset.id, { ancho: canvas.width, alto: canvas.height });
+    const data = await runInWorker(ctx.getImageData(0, 0, canvas.width, canvas.height), preset.pasos);
+
+    const result = ctx.createImageData(canvas.width, canvas.height);
+    result.data.set(data);
+    ctx.putImageData(result, 0, 0);
+
+    return canvas.toDataURL('image/jpeg', 0.92);
+  }
+};
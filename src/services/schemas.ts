@@ -0,0 +1,100 @@
+/**
+ * 🧪 schemas.ts
+ * =========================================================
+ * 📋 Esquemas de las respuestas del backend (ver `utils/schema.ts`).
+ *
+ * 🧠 Cada esquema es `ObjectSchema<Interfaz>`: no compila si se
+ * separa de su interfaz en `types/`.
+ *
+ * ✅ `ocrService` y `authService` validan con `parseResponse`
+ * antes de regresar datos; los componentes reciben tipos ya
+ * verificados (o un `ApiSchemaError`).
+ * =========================================================
+ */
+
+import type { AuthUser, INEData, LoginResponse, RefreshTokenResponse, ReversoData, VerifyTokenResponse } from '../types';
+import { validateSchema, type ObjectSchema, type SchemaShape } from '../utils/schema';
+import { ApiSchemaError, type ApiErrorDetails } from './errors';
+
+/** 🪪 `POST /ocr` */
+export const INE_DATA_SCHEMA: ObjectSchema<INEData> = {
+  es_ine: 'boolean',
+  nombre: 'string',
+  curp: 'string',
+  clave_elector: 'string',
+  fecha_nacimiento: 'string',
+  anio_registro: 'string',
+  seccion: 'string',
+  vigencia: 'string',
+  sexo: 'string',
+  pais: 'string',
+  calle: 'string',
+  colonia: 'string',
+  estado: 'string',
+  numero: 'string',
+  codigo_postal: 'string'
+};
+
+/** 🔙 `POST /ocrreverso` */
+export const REVERSO_DATA_SCHEMA: ObjectSchema<ReversoData> = {
+  linea1: 'string',
+  linea2: 'string',
+  apellido_paterno: 'string',
+  apellido_materno: 'string',
+  nombre_reverso: 'string',
+  es_ine: 'boolean'
+};
+
+/** 👤 `user` de login / verify-token */
+export const AUTH_USER_SCHEMA: ObjectSchema<AuthUser> = {
+  username: 'string',
+  nombre: 'string?'
+};
+
+/** 🔑 `POST /loginjwt` */
+export const LOGIN_RESPONSE_SCHEMA: ObjectSchema<LoginResponse> = {
+  token: 'string',
+  token_laravel: 'string',
+  user: AUTH_USER_SCHEMA,
+  expires_in: 'number'
+};
+
+/** 🔄 `POST /refresh-token` */
+export const REFRESH_TOKEN_SCHEMA: ObjectSchema<RefreshTokenResponse> = {
+  token: 'string',
+  expires_in: 'number'
+};
+
+/** 🔍 `GET /verify-token` */
+export const VERIFY_TOKEN_SCHEMA: ObjectSchema<VerifyTokenResponse> = {
+  user: AUTH_USER_SCHEMA,
+  token_valid: 'boolean',
+  remaining_minutes: 'number'
+};
+
+/**
+ * ✅ parseResponse
+ * ---------------------------------------------------------
+ * Valida `value` y lo regresa con su tipo.
+ *
+ * @param value   Cuerpo de la respuesta
+ * @param schema  Esquema esperado
+ * @param recurso Endpoint (para el error)
+ * @param details Status / request id de la respuesta (para el error)
+ * @throws ApiSchemaError con todos los campos inválidos
+ * ---------------------------------------------------------
+ */
+export const parseResponse = <T>(
+  value: unknown,
+  schema: ObjectSchema<T> & SchemaShape,
+  recurso: string,
+  details?: ApiErrorDetails
+): T => {
+  const issues = validateSchema(value, schema);
+  if (issues.length > 0) {
+    console.error(`🧪 Respuesta inválida de ${recurso}:`, issues);
+    throw new ApiSchemaError(recurso, issues, details);
+  }
+  return value as T;
+};
+
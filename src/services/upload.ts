@@ -0,0 +1,185 @@
+/**
+ * 📦 upload.ts
+ * =========================================================
+ * 🧵 Cliente del worker que prepara la imagen para subirla.
+ *
+ * Reduce la imagen al tamaño objetivo de la credencial y la
+ * comprime a JPEG dentro de un presupuesto de peso
+ * (`UPLOAD_BUDGET`), e informa cuántos bytes se ahorraron.
+ *
+ * 🧠 Patrón aplicado:
+ * - Service Layer (igual que `preprocessService`)
+ * - Lo usa `ocrService` en `processAnverso`, `processReverso`
+ *   y `enhanceImage`; los componentes no lo llaman directo
+ *
+ * ⚠️ Sin workers de módulo / `OffscreenCanvas` se hace en el
+ * hilo principal. Si la imagen no se puede leer se sube el
+ * original (el backend decide).
+ * =========================================================
+ */
+
+import type { UploadPreparation } from '../types';
+import { canvasToBlob, loadImage } from '../utils/image';
+import { UPLOAD_BUDGET, encodeWithinBudget, formatBytes, type EncodedUpload } from '../utils/upload';
+import type { UploadRequest, UploadResponse } from '../workers/upload.worker';
+
+/** 📦 Resultado del worker / hilo principal */
+type PreparedImage = NonNullable<UploadResponse['result']>;
+
+/** 🧵 Worker compartido (se crea al primer uso) */
+let worker: Worker | null = null;
+
+/** 🔑 Id incremental de peticiones */
+let nextId = 0;
+
+/** ⏳ Peticiones pendientes por id */
+const pending = new Map<number, { resolve: (result: PreparedImage) => void; reject: (error: Error) => void }>();
+
+/**
+ * 🧵 getWorker
+ * ---------------------------------------------------------
+ * Crea el worker la primera vez. Regresa null si el navegador
+ * no soporta workers de módulo u `OffscreenCanvas`.
+ * ---------------------------------------------------------
+ */
+const getWorker = (): Worker | null => {
+  if (worker) return worker;
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') return null;
+
+  try {
+    worker = new Worker(new URL('../workers/upload.worker.ts', import.meta.url), { type: 'module' });
+  } catch (error) {
+    console.warn('⚠️ No se pudo crear el worker de subida:', error);
+    return null;
+  }
+
+  worker.onmessage = (event: MessageEvent<UploadResponse>) => {
+    const { id, result, error } = event.data;
+    const request = pending.get(id);
+    if (!request) return;
+    pending.delete(id);
+
+    if (result) request.resolve(result);
+    else request.reject(new Error(error || 'Error al preparar la imagen'));
+  };
+
+  worker.onerror = (event) => {
+    console.error('❌ Error en worker de subida:', event.message);
+    pending.forEach((request) => request.reject(new Error('El worker de subida falló')));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+
+  return worker;
+};
+
+/**
+ * 🖼️ prepareInMainThread
+ * - Mismo proceso que el worker, con `HTMLCanvasElement`.
+ */
+const prepareInMainThread = async (file: Blob): Promise<PreparedImage> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = await loadImage(url);
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D no disponible');
+
+    const encoded: EncodedUpload = await encodeWithinBudget(img.naturalWidth, img.naturalHeight, (width, height, quality) => {
+      canvas.width = width;
+      canvas.height = height;
+      ctx.drawImage(img, 0, 0, width, height);
+      return canvasToBlob(canvas, 'image/jpeg', quality);
+    }, UPLOAD_BUDGET);
+
+    return { ...encoded, originalWidth: img.naturalWidth, originalHeight: img.naturalHeight };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * 🧵 prepareImage
+ * - Manda el archivo al worker (o al hilo principal si no hay).
+ */
+const prepareImage = (file: Blob): Promise<PreparedImage> => {
+  const target = getWorker();
+  if (!target) return prepareInMainThread(file);
+
+  return new Promise((resolve, reject) => {
+    const id = nextId++;
+    pending.set(id, { resolve, reject });
+    const request: UploadRequest = { id, file, budget: UPLOAD_BUDGET };
+    target.postMessage(request);
+  });
+};
+
+/**
+ * 📁 keepOriginal
+ * - Preparación "vacía": se sube el archivo tal cual.
+ */
+const keepOriginal = (file: File, width = 0, height = 0): UploadPreparation => ({
+  archivo: file,
+  bytesOriginales: file.size,
+  bytesFinales: file.size,
+  ahorro: 0,
+  ancho: width,
+  alto: height,
+  calidad: null
+});
+
+/**
+ * 📦 uploadService
+ * =========================================================
+ * Preparación de imágenes antes de subirlas al backend.
+ * =========================================================
+ */
+export const uploadService = {
+  /**
+   * 📦 Preparar imagen para subir
+   * ---------------------------------------------------------
+   * ✅ Reduce al lado mayor objetivo y comprime a JPEG dentro
+   * del presupuesto de peso.
+   *
+   * 🧠 Si el resultado no es más ligero y no hubo que reducir,
+   * se sube el original (no se re-comprime sin ganancia).
+   *
+   * @param file Imagen (cualquier formato que el navegador lea)
+   * @returns Archivo a subir + bytes ahorrados (nunca falla)
+   * ---------------------------------------------------------
+   */
+  prepare: async (file: File): Promise<UploadPreparation> => {
+    try {
+      const prepared = await prepareImage(file);
+      const resized = prepared.width !== prepared.originalWidth || prepared.height !== prepared.originalHeight;
+
+      if (!resized && prepared.blob.size >= file.size) {
+        console.log('📦 Imagen ya optimizada, se sube el original:', formatBytes(file.size));
+        return keepOriginal(file, prepared.originalWidth, prepared.originalHeight);
+      }
+
+      const name = `${file.name.replace(/\.[^.]+$/, '') || 'imagen'}.jpg`;
+      const result: UploadPreparation = {
+        archivo: new File([prepared.blob], name, { type: 'image/jpeg' }),
+        bytesOriginales: file.size,
+        bytesFinales: prepared.blob.size,
+        ahorro: Math.max(0, file.size - prepared.blob.size),
+        ancho: prepared.width,
+        alto: prepared.height,
+        calidad: prepared.quality
+      };
+
+      console.log('📦 Imagen preparada para subir:', {
+        antes: `${formatBytes(file.size)} (${prepared.originalWidth}×${prepared.originalHeight})`,
+        despues: `${formatBytes(result.bytesFinales)} (${result.ancho}×${result.alto}, q=${result.calidad})`,
+        ahorro: formatBytes(result.ahorro)
+      });
+      return result;
+    } catch (error) {
+      // ⚠️ No se bloquea la subida: el backend recibe el original
+      console.warn('⚠️ No se pudo preparar la imagen, se sube el original:', error);
+      return keepOriginal(file);
+    }
+  }
+};
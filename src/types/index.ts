@@ -180,6 +180,762 @@ export interface ReversoData {
   es_ine: boolean;
 }
 
+/**
+ * 🔁 INESession
+ * ---------------------------------------------------------
+ * Resultados acumulados de una sesión de captura de ambos lados
+ * de la misma credencial.
+ *
+ * 🧠 Flujo:
+ * - Primero se procesa el anverso (`INEData`)
+ * - Después el reverso (`ReversoData`)
+ * - Cada lado es `null` mientras no se ha procesado
+ * ---------------------------------------------------------
+ */
+export interface INESession {
+  /** 🪪 Resultado del anverso */
+  anverso: INEData | null;
+
+  /** 🔙 Resultado del reverso */
+  reverso: ReversoData | null;
+}
+
+/**
+ * ⚠️ NameDiscrepancy
+ * ---------------------------------------------------------
+ * Diferencia detectada entre el nombre del anverso y
+ * las partes del nombre leídas en el MRZ del reverso.
+ * ---------------------------------------------------------
+ */
+export interface NameDiscrepancy {
+  /** 🏷️ Parte del nombre que no coincide */
+  campo: 'apellido_paterno' | 'apellido_materno' | 'nombre';
+
+  /** 🪪 Valor tomado del `nombre` del anverso */
+  anverso: string;
+
+  /** 🔙 Valor leído en el reverso */
+  reverso: string;
+}
+
+/**
+ * 🧬 MergedIdentity
+ * ---------------------------------------------------------
+ * Registro único de identidad construido con ambos lados.
+ *
+ * ✅ Contiene:
+ * - Todos los campos del anverso
+ * - Nombre separado en apellidos y nombre(s) (del reverso)
+ * - Líneas MRZ del reverso
+ * - Lista de discrepancias de nombre entre ambos lados
+ * ---------------------------------------------------------
+ */
+export interface MergedIdentity extends Omit<INEData, 'es_ine'> {
+  /** 👨‍👩‍👧 Apellido paterno (reverso, o inferido del anverso) */
+  apellido_paterno: string;
+
+  /** 👨‍👩‍👧 Apellido materno (reverso, o inferido del anverso) */
+  apellido_materno: string;
+
+  /** 👤 Nombre(s) (reverso, o inferido del anverso) */
+  nombres: string;
+
+  /** 🧾 Línea MRZ 1 */
+  linea1: string;
+
+  /** 🧾 Línea MRZ 2 */
+  linea2: string;
+
+  /** ✅ Ambos lados fueron reconocidos como INE/IFE */
+  es_ine: boolean;
+
+  /** ⚠️ Diferencias de nombre entre anverso y reverso */
+  discrepancias: NameDiscrepancy[];
+
+  /** 📆 Estado de la vigencia al momento de fusionar */
+  estado_vigencia: VigenciaStatus;
+}
+
+/**
+ * 🔢 MRZCheckDigit
+ * ---------------------------------------------------------
+ * Resultado de verificar un dígito de control ICAO 9303.
+ * ---------------------------------------------------------
+ */
+export interface MRZCheckDigit {
+  /** 🏷️ Campo verificado (ej. "Número de documento") */
+  campo: string;
+
+  /** 🧾 Caracteres sobre los que se calcula el dígito */
+  valor: string;
+
+  /** 🔢 Dígito leído en el MRZ */
+  leido: string;
+
+  /** 🧮 Dígito calculado en el cliente */
+  calculado: string;
+
+  /** ✅ `leido === calculado` */
+  valido: boolean;
+}
+
+/**
+ * 🧾 MRZData
+ * ---------------------------------------------------------
+ * MRZ TD1 (3 líneas x 30 caracteres) del reverso de la
+ * credencial, decodificado en el cliente.
+ *
+ * 🧠 Fechas:
+ * - Se entregan en formato ISO `YYYY-MM-DD` ('' si no se pudo leer)
+ * ---------------------------------------------------------
+ */
+export interface MRZData {
+  /** 📄 Código de documento (ej. "ID") */
+  tipo_documento: string;
+
+  /** 🌎 Estado emisor (ej. "MEX") */
+  pais_emisor: string;
+
+  /** 🔢 Número de documento (CIC en la INE) */
+  numero_documento: string;
+
+  /** 🧩 Datos opcionales de la línea 1 */
+  datos_opcionales_1: string;
+
+  /** 🎂 Fecha de nacimiento (ISO) */
+  fecha_nacimiento: string;
+
+  /** 🚻 Sexo tal como viene en el MRZ ("H" / "M" / "F") */
+  sexo: string;
+
+  /** ⏳ Fecha de expiración (ISO) */
+  fecha_expiracion: string;
+
+  /** 🌎 Nacionalidad (ej. "MEX") */
+  nacionalidad: string;
+
+  /** 🧩 Datos opcionales de la línea 2 */
+  datos_opcionales_2: string;
+
+  /** 👨‍👩‍👧 Apellido paterno (solo si se recibió la línea 3) */
+  apellido_paterno: string;
+
+  /** 👨‍👩‍👧 Apellido materno (solo si se recibió la línea 3) */
+  apellido_materno: string;
+
+  /** 👤 Nombre(s) (solo si se recibió la línea 3) */
+  nombres: string;
+
+  /** ✅ Es un MRZ de credencial mexicana ("ID" + "MEX") */
+  es_idmex: boolean;
+
+  /** 🔢 Resultado de cada dígito de control */
+  checks: MRZCheckDigit[];
+
+  /** ⚠️ Problemas estructurales (longitud, formato, etc.) */
+  errores: string[];
+}
+
+/**
+ * ⚖️ FieldMismatch
+ * ---------------------------------------------------------
+ * Diferencia entre un dato decodificado de una clave
+ * (CURP, clave de elector...) y el campo leído por el OCR.
+ * ---------------------------------------------------------
+ */
+export interface FieldMismatch {
+  /** 🏷️ Campo de `INEData` comparado (ej. "fecha_nacimiento") */
+  campo: keyof INEData;
+
+  /** 🔑 Clave de la que sale el valor esperado */
+  fuente: 'CURP' | 'Clave de elector';
+
+  /** 🧮 Valor según la clave decodificada */
+  esperado: string;
+
+  /** 🔍 Valor leído por el OCR */
+  detectado: string;
+}
+
+/**
+ * 🆔 CurpValidation
+ * ---------------------------------------------------------
+ * Resultado de validar y decodificar una CURP.
+ *
+ * 🧠 `fecha_nacimiento`, `sexo` y `estado_*` solo se llenan si
+ * la parte correspondiente de la CURP es estructuralmente válida.
+ * ---------------------------------------------------------
+ */
+export interface CurpValidation {
+  /** ✅ Sin errores estructurales y con dígito verificador correcto */
+  valida: boolean;
+
+  /** 🧾 CURP normalizada (mayúsculas, sin espacios) */
+  curp: string;
+
+  /** 🎂 Fecha de nacimiento decodificada (ISO) */
+  fecha_nacimiento: string;
+
+  /** 🚻 Sexo decodificado ("H" / "M" / "X") */
+  sexo: string;
+
+  /** 🗺️ Código de entidad de registro (ej. "QR") */
+  estado_codigo: string;
+
+  /** 🗺️ Nombre de la entidad de registro */
+  estado_nombre: string;
+
+  /** 🔢 Dígito verificador leído */
+  digito_leido: string;
+
+  /** 🧮 Dígito verificador calculado */
+  digito_calculado: string;
+
+  /** ⚠️ Errores estructurales */
+  errores: string[];
+}
+
+/**
+ * 🔑 ClaveElectorValidation
+ * ---------------------------------------------------------
+ * Resultado de validar y decodificar la clave de elector.
+ *
+ * 📐 Estructura (18 caracteres):
+ * - 6 letras de apellidos y nombre
+ * - Fecha de nacimiento (YYMMDD)
+ * - Entidad de nacimiento (2 dígitos)
+ * - Sexo (H / M)
+ * - Homoclave (3 caracteres)
+ * ---------------------------------------------------------
+ */
+export interface ClaveElectorValidation {
+  /** ✅ Estructura correcta */
+  valida: boolean;
+
+  /** 🧾 Clave normalizada (mayúsculas, sin espacios) */
+  clave: string;
+
+  /** 🔤 Letras de paterno, materno y nombre (ej. "CSOLRC") */
+  iniciales: string;
+
+  /** 🎂 Fecha de nacimiento decodificada (ISO) */
+  fecha_nacimiento: string;
+
+  /** 🗺️ Clave numérica de la entidad (ej. "23") */
+  estado_codigo: string;
+
+  /** 🗺️ Nombre de la entidad */
+  estado_nombre: string;
+
+  /** 🚻 Sexo decodificado ("H" / "M") */
+  sexo: string;
+
+  /** 🔢 Homoclave */
+  homoclave: string;
+
+  /** ⚠️ Errores estructurales */
+  errores: string[];
+}
+
+/**
+ * 📆 VigenciaEstado
+ * ---------------------------------------------------------
+ * - vigente: el año de vigencia aún no termina
+ * - por_vencer: vence dentro del margen de aviso
+ * - vencida: el año de vigencia ya terminó
+ * - desconocida: el OCR no devolvió una vigencia legible
+ * ---------------------------------------------------------
+ */
+export type VigenciaEstado = 'vigente' | 'por_vencer' | 'vencida' | 'desconocida';
+
+/**
+ * 📆 VigenciaStatus
+ * ---------------------------------------------------------
+ * Resultado de evaluar la vigencia de la credencial contra
+ * una fecha de referencia.
+ *
+ * 🧠 La INE es válida hasta el 31 de diciembre del año final.
+ * ---------------------------------------------------------
+ */
+export interface VigenciaStatus {
+  /** 🏷️ Estado calculado */
+  estado: VigenciaEstado;
+
+  /** 🧾 Vigencia tal como la leyó el OCR (ej. "2024-2034") */
+  vigencia: string;
+
+  /** 📅 Año de emisión (solo si viene como rango) */
+  anio_inicio: number | null;
+
+  /** 📅 Año final de vigencia */
+  anio_fin: number | null;
+
+  /** 📅 Último día válido (ISO, ej. "2034-12-31") */
+  vence: string;
+
+  /** 📅 Fecha de referencia usada (ISO) */
+  fecha_referencia: string;
+
+  /** ⏳ Meses completos restantes (negativo si ya venció) */
+  meses_restantes: number | null;
+
+  /** 💬 Texto listo para mostrar (ej. "Vence en 3 meses") */
+  etiqueta: string;
+}
+
+/**
+ * ✏️ CorrectableField
+ * ---------------------------------------------------------
+ * Campo de anverso o reverso que el operador puede corregir
+ * (todos excepto la bandera `es_ine`, que calcula el backend).
+ * ---------------------------------------------------------
+ */
+export type CorrectableField = Exclude<keyof INEData | keyof ReversoData, 'es_ine'>;
+
+/**
+ * ✏️ FieldCorrection
+ * ---------------------------------------------------------
+ * Registro de auditoría de una corrección manual.
+ *
+ * 🧠 Reglas:
+ * - Una entrada por lado + campo (se actualiza si se vuelve a corregir)
+ * - `original` siempre conserva la lectura del OCR
+ * - Si el valor regresa al original, la entrada se elimina
+ * ---------------------------------------------------------
+ */
+export interface FieldCorrection {
+  /** 🪪 Lado de la credencial */
+  lado: 'anverso' | 'reverso';
+
+  /** 🏷️ Campo corregido */
+  campo: CorrectableField;
+
+  /** 🔍 Valor leído por el OCR */
+  original: string;
+
+  /** ✅ Valor corregido por el operador */
+  corregido: string;
+
+  /** 👤 Usuario que hizo la última corrección */
+  usuario: string;
+
+  /** 🕒 Fecha/hora de la última corrección (ISO) */
+  fecha: string;
+}
+
+/**
+ * 📦 ExportRecord
+ * ---------------------------------------------------------
+ * Registro exportable (JSON versionado).
+ *
+ * 🧠 Versionado:
+ * - `esquema` identifica el formato, `version` cambia solo
+ *   cuando se modifica la forma del registro.
+ * - Los datos del OCR van tal cual (`INEData` / `ReversoData`),
+ *   ya con las correcciones manuales aplicadas.
+ * ---------------------------------------------------------
+ */
+export interface ExportRecord {
+  /** 🏷️ Identificador del formato */
+  esquema: 'ine-ocr-record';
+
+  /** 🔢 Versión del esquema */
+  version: number;
+
+  /** 🕒 Fecha/hora de exportación (ISO) */
+  exportado: string;
+
+  /** 🪪 Anverso (null si no se procesó) */
+  anverso: INEData | null;
+
+  /** 🔙 Reverso (null si no se procesó) */
+  reverso: ReversoData | null;
+
+  /** 📆 Estado de la vigencia (null sin anverso) */
+  vigencia: VigenciaStatus | null;
+
+  /** ✏️ Correcciones manuales aplicadas */
+  correcciones: FieldCorrection[];
+}
+
+/**
+ * 🗂️ HistoryEntry
+ * ---------------------------------------------------------
+ * Escaneo guardado en el historial local (IndexedDB).
+ *
+ * ✅ Se guarda al terminar cada OCR y se actualiza cuando el
+ * operador corrige campos.
+ * ---------------------------------------------------------
+ */
+export interface HistoryEntry {
+  /** 🔑 Id autoincremental (lo asigna IndexedDB) */
+  id?: number;
+
+  /** 🕒 Fecha/hora del procesamiento (ISO) */
+  fecha: string;
+
+  /** 🪪 Lado procesado */
+  lado: 'anverso' | 'reverso';
+
+  /** 👤 Usuario que procesó */
+  usuario: string;
+
+  /** 🖼️ Miniatura (DataURL JPEG) de la imagen procesada */
+  thumbnail: string;
+
+  /** 📋 Campos extraídos (con correcciones aplicadas) */
+  data: INEData | ReversoData;
+
+  /** ✏️ Correcciones manuales */
+  correcciones: FieldCorrection[];
+
+  /** 🔍 Texto normalizado para búsqueda (nombre, CURP, clave) */
+  busqueda: string;
+}
+
+/**
+ * 📚 BatchItemEstado
+ * ---------------------------------------------------------
+ * Ciclo de vida de un archivo en la cola de lote:
+ * pendiente -> procesando -> completado | error
+ * ---------------------------------------------------------
+ */
+export type BatchItemEstado = 'pendiente' | 'procesando' | 'completado' | 'error';
+
+/**
+ * 📚 BatchItem
+ * ---------------------------------------------------------
+ * Archivo dentro de la cola de procesamiento por lote.
+ * ---------------------------------------------------------
+ */
+export interface BatchItem {
+  /** 🔑 Id único en la cola */
+  id: string;
+
+  /** 📁 Archivo original */
+  file: File;
+
+  /** 🖼️ URL local (object URL) para la vista previa */
+  preview: string;
+
+  /** 🪪 Lado con el que se procesa */
+  lado: 'anverso' | 'reverso';
+
+  /** 🚦 Estado actual */
+  estado: BatchItemEstado;
+
+  /** 📊 Progreso de subida (0-100) */
+  progreso: number;
+
+  /** 🔁 Intentos realizados */
+  intentos: number;
+
+  /** ❌ Motivo del último fallo */
+  error?: string;
+
+  /** 📋 Resultado del OCR (si terminó bien) */
+  data?: INEData | ReversoData;
+}
+
+/**
+ * 📶 RequestFase
+ * ---------------------------------------------------------
+ * Fase de una petición al backend (OCR / mejora):
+ * - preparando: compresión local antes de subir
+ * - subiendo: subida de la imagen (con porcentaje)
+ * - procesando: subida terminada, el servidor trabaja
+ * - descargando: llegada de la respuesta (con porcentaje)
+ * - reintentando: falla transitoria, esperando el siguiente intento
+ * ---------------------------------------------------------
+ */
+export type RequestFase = 'preparando' | 'subiendo' | 'procesando' | 'descargando' | 'reintentando';
+
+/**
+ * 📶 RequestProgress
+ * ---------------------------------------------------------
+ * Progreso que reporta `ocrService` a la UI.
+ * ---------------------------------------------------------
+ */
+export interface RequestProgress {
+  fase: RequestFase;
+
+  /** 📊 0-100, o null si no se conoce el total */
+  porcentaje: number | null;
+
+  /** 🔁 Intento actual (desde 1) */
+  intento: number;
+
+  /** ⏱️ Espera antes del siguiente intento (solo `reintentando`) */
+  esperaMs?: number;
+}
+
+/**
+ * 👤 AuthUser
+ * ---------------------------------------------------------
+ * Usuario autenticado (`user` de `/loginjwt` y `/verify-token`).
+ * Se guarda en localStorage como `user_data`.
+ * ---------------------------------------------------------
+ */
+export interface AuthUser {
+  /** 🔑 Usuario con el que inició sesión */
+  username: string;
+
+  /** 🧑 Nombre para mostrar (si el backend lo manda) */
+  nombre?: string;
+}
+
+/**
+ * 🔑 LoginResponse
+ * ---------------------------------------------------------
+ * Respuesta de `POST /loginjwt`.
+ * ---------------------------------------------------------
+ */
+export interface LoginResponse {
+  /** 🔐 JWT de nuestro backend */
+  token: string;
+
+  /** 🔐 Token original de Laravel */
+  token_laravel: string;
+
+  user: AuthUser;
+
+  /** ⏰ Vigencia del JWT (segundos) */
+  expires_in: number;
+}
+
+/**
+ * 🔍 VerifyTokenResponse
+ * ---------------------------------------------------------
+ * Respuesta de `GET /verify-token`.
+ * ---------------------------------------------------------
+ */
+export interface VerifyTokenResponse {
+  user: AuthUser;
+  token_valid: boolean;
+
+  /** ⏰ Minutos restantes de sesión */
+  remaining_minutes: number;
+}
+
+/**
+ * 🔄 RefreshTokenResponse
+ * ---------------------------------------------------------
+ * Respuesta de `POST /refresh-token`: JWT nuevo con vigencia
+ * renovada (el usuario y el token de Laravel no cambian).
+ * ---------------------------------------------------------
+ */
+export interface RefreshTokenResponse {
+  token: string;
+
+  /** ⏰ Vigencia del JWT nuevo (segundos) */
+  expires_in: number;
+}
+
+/**
+ * 💾 WizardDraft
+ * ---------------------------------------------------------
+ * Trabajo en curso del wizard, guardado al vencer la sesión
+ * para restaurarlo después de volver a iniciar sesión.
+ * ---------------------------------------------------------
+ */
+export interface WizardDraft {
+  /** 👤 Dueño del borrador (solo él lo recupera) */
+  usuario: string;
+
+  /** 🕒 Fecha de guardado (ISO) */
+  guardado: string;
+
+  activeStep: number;
+  isReverso: boolean;
+  sessionMode: boolean;
+  session: INESession;
+
+  /** 🖼️ Imágenes (DataURL) */
+  imageSrc: string;
+  originalImage: string;
+  editedImage: string;
+  enhancedImage: string;
+
+  ocrData: INEData | ReversoData | null;
+  corrections: FieldCorrection[];
+  historyId: number | null;
+}
+
+/**
+ * 🧪 SchemaIssue
+ * ---------------------------------------------------------
+ * Campo de una respuesta del backend que no cumple su esquema
+ * (ver `utils/schema.ts`).
+ * ---------------------------------------------------------
+ */
+export interface SchemaIssue {
+  /** 🏷️ Ruta del campo (ej. "curp", "user.username") */
+  campo: string;
+
+  /** ✅ Tipo esperado ("string", "number", "objeto"...) */
+  esperado: string;
+
+  /** ❌ Tipo recibido ("null", "undefined", "arreglo"...) */
+  recibido: string;
+}
+
+/**
+ * 🚨 ApiErrorCode
+ * ---------------------------------------------------------
+ * Qué salió mal en una petición (ver `ApiError`):
+ * - timeout: el servidor no respondió a tiempo
+ * - network: sin respuesta (red caída, CORS, servidor apagado)
+ * - auth: 401/403 (sesión vencida o credenciales incorrectas)
+ * - validation: la respuesta no tiene la forma esperada
+ * - server: el servidor respondió con error (4xx / 5xx)
+ * - not_ine: el OCR indicó que la imagen no es una INE/IFE
+ * - unknown: cualquier otra cosa
+ * ---------------------------------------------------------
+ */
+export type ApiErrorCode = 'timeout' | 'network' | 'auth' | 'validation' | 'server' | 'not_ine' | 'unknown';
+
+/**
+ * 📦 UploadPreparation
+ * ---------------------------------------------------------
+ * Resultado de preparar una imagen para subirla
+ * (`uploadService.prepare`): reducida y comprimida a JPEG.
+ * ---------------------------------------------------------
+ */
+export interface UploadPreparation {
+  /** 📁 Archivo que se sube */
+  archivo: File;
+
+  /** 📦 Peso antes / después (bytes) */
+  bytesOriginales: number;
+  bytesFinales: number;
+
+  /** 💾 Bytes ahorrados (0 si se sube el original) */
+  ahorro: number;
+
+  /** 📐 Tamaño final (px); 0 si no se pudo leer */
+  ancho: number;
+  alto: number;
+
+  /** 🎚️ Calidad JPEG usada (null = se sube el original) */
+  calidad: number | null;
+}
+
+/**
+ * 📄 DocumentPage
+ * ---------------------------------------------------------
+ * Página de un PDF convertida a imagen en el navegador.
+ * Se elige en el selector de páginas de ImageUploader.
+ * ---------------------------------------------------------
+ */
+export interface DocumentPage {
+  /** 🔢 Número de página (desde 1) */
+  pagina: number;
+
+  /** 🖼️ Página convertida a JPEG (lista para el editor / lote) */
+  archivo: File;
+
+  /** 🔍 Miniatura (DataURL) para el selector */
+  miniatura: string;
+}
+
+/**
+ * 🧪 PreprocessCandidate
+ * ---------------------------------------------------------
+ * Imagen generada por un preset de preprocesamiento local,
+ * mostrada como candidata en PreviewPanel.
+ * ---------------------------------------------------------
+ */
+export interface PreprocessCandidate {
+  /** 🔑 Id del preset (`PREPROCESS_PRESETS`) */
+  preset: string;
+
+  /** 🏷️ Nombre visible del preset */
+  nombre: string;
+
+  /** 🖼️ Resultado (DataURL) */
+  imagen: string;
+}
+
+/**
+ * 🔎 QualityNivel
+ * ---------------------------------------------------------
+ * Veredicto del analizador de calidad de captura:
+ * - ok          -> se puede enviar al OCR
+ * - advertencia -> probablemente lea mal (el usuario decide)
+ * - bloqueo     -> casi seguro falla (no se envía)
+ * ---------------------------------------------------------
+ */
+export type QualityNivel = 'ok' | 'advertencia' | 'bloqueo';
+
+/** 🔎 Aspectos que revisa el analizador */
+export type QualityCheckClave = 'nitidez' | 'exposicion' | 'reflejos' | 'resolucion' | 'inclinacion';
+
+/**
+ * 🔎 QualityCheck
+ * ---------------------------------------------------------
+ * Resultado de un aspecto del analizador (`utils/quality.ts`).
+ * ---------------------------------------------------------
+ */
+export interface QualityCheck {
+  /** 🔑 Aspecto revisado */
+  clave: QualityCheckClave;
+
+  /** 🏷️ Nombre visible (con emoji) */
+  etiqueta: string;
+
+  /** 📏 Valor medido (unidad según el aspecto) */
+  valor: number;
+
+  /** 💯 Puntaje del aspecto (0-100) */
+  puntaje: number;
+
+  /** 🚦 Veredicto del aspecto */
+  nivel: QualityNivel;
+
+  /** 💬 Explicación / sugerencia para el usuario */
+  detalle: string;
+}
+
+/**
+ * 🔎 QualityReport
+ * ---------------------------------------------------------
+ * Reporte completo de calidad de una imagen.
+ *
+ * 🧠 `nivel` es el peor de los aspectos; `puntaje` el promedio.
+ * ---------------------------------------------------------
+ */
+export interface QualityReport {
+  /** 🚦 Veredicto general */
+  nivel: QualityNivel;
+
+  /** 💯 Puntaje general (0-100) */
+  puntaje: number;
+
+  /** 📋 Detalle por aspecto */
+  checks: QualityCheck[];
+}
+
+/**
+ * 🎞️ CaptureFrame
+ * ---------------------------------------------------------
+ * Una toma de la ráfaga de la cámara con su puntaje.
+ * La ráfaga se ordena de mejor a peor (`utils/burst.ts`).
+ * ---------------------------------------------------------
+ */
+export interface CaptureFrame {
+  /** 🖼️ Toma (DataURL) */
+  imagen: string;
+
+  /** 🔍 Varianza del laplaciano */
+  nitidez: number;
+
+  /** 🔆 Fracción con reflejo */
+  reflejos: number;
+
+  /** 💯 Puntaje relativo dentro de la ráfaga (0-100) */
+  puntaje: number;
+}
+
 /**
  * 🎛️ ImageAdjustments
  * ---------------------------------------------------------
@@ -187,33 +943,33 @@ export interface ReversoData {
  *
  * 🎯 Uso típico:
  * - Preprocesamiento antes de OCR (mejorar legibilidad)
- * - Ajustes manuales tipo editor (si se implementa)
+ * - Panel de ajustes del editor (`AdjustmentsPanel`)
  *
  * 🧠 Nota:
- * - Aunque el wizard principal usa crop/rotate,
- *   esta interfaz sirve para extender un editor más avanzado.
+ * - El pipeline vive en `utils/adjustments.ts`
+ * - `rotate` no lo usa el panel: la rotación tiene su propia herramienta
  * ---------------------------------------------------------
  */
 export interface ImageAdjustments {
-  /** ☀️ Brillo (brightness) */
+  /** ☀️ Brillo (brightness), % (100 = sin cambio) */
   brightness: number;
 
-  /** 🌓 Contraste (contrast) */
+  /** 🌓 Contraste (contrast), % (100 = sin cambio) */
   contrast: number;
 
-  /** 🌈 Saturación (saturation) */
+  /** 🌈 Saturación (saturation), % (100 = sin cambio) */
   saturation: number;
 
-  /** 🌫️ Desenfoque (blur) */
+  /** 🌫️ Desenfoque (blur), radio en px (0 = sin cambio) */
   blur: number;
 
-  /** 🔪 Nitidez (sharpen) */
+  /** 🔪 Nitidez (sharpen), % (0 = sin cambio) */
   sharpen: number;
 
   /** 🔄 Rotación en grados (rotate) */
   rotate: number;
 
-  /** 🔍 Escala / zoom (scale) */
+  /** 🔍 Escala / zoom (scale), % del tamaño original (100 = sin cambio) */
   scale: number;
 }
 
@@ -0,0 +1,229 @@
+/**
+ * 🎛️ adjustments.ts
+ * =========================================================
+ * 🧰 Pipeline de ajustes de imagen (`ImageAdjustments`).
+ *
+ * 🔁 Orden de aplicación:
+ * 1) ☀️ Brillo → 🌓 Contraste → 🌈 Saturación (por píxel)
+ * 2) 🌫️ Desenfoque (caja separable)
+ * 3) 🔪 Nitidez (máscara de enfoque 3×3)
+ * 4) 🔍 Escala (tamaño del canvas final)
+ *
+ * 🧠 Se calcula píxel por píxel (sin `ctx.filter`) para que el
+ * resultado sea igual en todos los navegadores y la vista previa
+ * coincida con la imagen final.
+ *
+ * ⚠️ `rotate` no se aplica aquí: la rotación tiene su propia
+ * herramienta en el editor.
+ * =========================================================
+ */
+
+import type { ImageAdjustments } from '../types';
+
+/** 🎛️ Ajustes neutros (no cambian la imagen) */
+export const DEFAULT_ADJUSTMENTS: ImageAdjustments = {
+  brightness: 100,
+  contrast: 100,
+  saturation: 100,
+  blur: 0,
+  sharpen: 0,
+  rotate: 0,
+  scale: 100
+};
+
+/**
+ * 🎚️ AdjustmentControl
+ * - Configuración de un slider del panel de ajustes.
+ */
+export interface AdjustmentControl {
+  campo: Exclude<keyof ImageAdjustments, 'rotate'>;
+  etiqueta: string;
+  min: number;
+  max: number;
+  step: number;
+  unidad: string;
+}
+
+/** 🎚️ Sliders del panel, en orden de aplicación */
+export const ADJUSTMENT_CONTROLS: AdjustmentControl[] = [
+  { campo: 'brightness', etiqueta: '☀️ Brillo', min: 0, max: 200, step: 1, unidad: '%' },
+  { campo: 'contrast', etiqueta: '🌓 Contraste', min: 0, max: 200, step: 1, unidad: '%' },
+  { campo: 'saturation', etiqueta: '🌈 Saturación', min: 0, max: 200, step: 1, unidad: '%' },
+  { campo: 'blur', etiqueta: '🌫️ Desenfoque', min: 0, max: 10, step: 0.5, unidad: 'px' },
+  { campo: 'sharpen', etiqueta: '🔪 Nitidez', min: 0, max: 200, step: 1, unidad: '%' },
+  { campo: 'scale', etiqueta: '🔍 Escala', min: 50, max: 200, step: 5, unidad: '%' }
+];
+
+/**
+ * 🧱 PixelBuffer
+ * - Subconjunto de `ImageData` que usa el pipeline.
+ */
+export type PixelBuffer = Pick<ImageData, 'data' | 'width' | 'height'>;
+
+/**
+ * ✅ isNeutralAdjustments
+ * - true si los ajustes no cambian la imagen.
+ */
+export const isNeutralAdjustments = (adjustments: ImageAdjustments): boolean =>
+  (Object.keys(DEFAULT_ADJUSTMENTS) as (keyof ImageAdjustments)[])
+    .every((key) => adjustments[key] === DEFAULT_ADJUSTMENTS[key]);
+
+/**
+ * 🌈 applyColor
+ * ---------------------------------------------------------
+ * Brillo, contraste y saturación (misma fórmula que los
+ * filtros CSS `brightness`, `contrast` y `saturate`).
+ * ---------------------------------------------------------
+ */
+const applyColor = ({ data }: PixelBuffer, { brightness, contrast, saturation }: ImageAdjustments) => {
+  const b = brightness / 100;
+  const c = contrast / 100;
+  const s = saturation / 100;
+
+  for (let i = 0; i < data.length; i += 4) {
+    let r = data[i] * b;
+    let g = data[i + 1] * b;
+    let bl = data[i + 2] * b;
+
+    r = (r - 128) * c + 128;
+    g = (g - 128) * c + 128;
+    bl = (bl - 128) * c + 128;
+
+    const luma = 0.2126 * r + 0.7152 * g + 0.0722 * bl;
+    data[i] = luma + (r - luma) * s;
+    data[i + 1] = luma + (g - luma) * s;
+    data[i + 2] = luma + (bl - luma) * s;
+  }
+};
+
+/**
+ * 🌫️ boxBlur
+ * ---------------------------------------------------------
+ * Desenfoque de caja separable (horizontal + vertical) con
+ * bordes replicados.
+ *
+ * @param radius Radio en píxeles (entero >= 1)
+ * ---------------------------------------------------------
+ */
+const boxBlur = ({ data, width, height }: PixelBuffer, radius: number) => {
+  const size = radius * 2 + 1;
+  const temp = new Float32Array(data.length);
+
+  // ↔️ Horizontal: data -> temp
+  for (let y = 0; y < height; y++) {
+    for (let ch = 0; ch < 3; ch++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) {
+        sum += data[(y * width + Math.min(Math.max(k, 0), width - 1)) * 4 + ch];
+      }
+      for (let x = 0; x < width; x++) {
+        temp[(y * width + x) * 4 + ch] = sum / size;
+        const out = Math.max(x - radius, 0);
+        const into = Math.min(x + radius + 1, width - 1);
+        sum += data[(y * width + into) * 4 + ch] - data[(y * width + out) * 4 + ch];
+      }
+    }
+  }
+
+  // ↕️ Vertical: temp -> data
+  for (let x = 0; x < width; x++) {
+    for (let ch = 0; ch < 3; ch++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) {
+        sum += temp[(Math.min(Math.max(k, 0), height - 1) * width + x) * 4 + ch];
+      }
+      for (let y = 0; y < height; y++) {
+        data[(y * width + x) * 4 + ch] = sum / size;
+        const out = Math.max(y - radius, 0);
+        const into = Math.min(y + radius + 1, height - 1);
+        sum += temp[(into * width + x) * 4 + ch] - temp[(out * width + x) * 4 + ch];
+      }
+    }
+  }
+};
+
+/**
+ * 🔪 sharpen
+ * ---------------------------------------------------------
+ * Máscara de enfoque: resalta la diferencia entre cada píxel
+ * y el promedio de sus 8 vecinos.
+ *
+ * @param amount Intensidad (1 = 100%)
+ * ---------------------------------------------------------
+ */
+const sharpen = ({ data, width, height }: PixelBuffer, amount: number) => {
+  const source = Uint8ClampedArray.from(data);
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = (y * width + x) * 4;
+      for (let ch = 0; ch < 3; ch++) {
+        let sum = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) sum += source[((y + dy) * width + x + dx) * 4 + ch];
+        }
+        data[i + ch] = source[i + ch] + amount * (source[i + ch] - sum / 9);
+      }
+    }
+  }
+};
+
+/**
+ * 🎛️ applyAdjustments
+ * ---------------------------------------------------------
+ * Aplica color, desenfoque y nitidez sobre los píxeles (in place).
+ *
+ * @param pixels      Píxeles RGBA a modificar
+ * @param adjustments Ajustes a aplicar
+ * @param pixelScale  Tamaño de estos píxeles respecto al original
+ *                    (vista previa reducida -> < 1) para que el
+ *                    desenfoque se vea igual
+ * ---------------------------------------------------------
+ */
+export const applyAdjustments = (pixels: PixelBuffer, adjustments: ImageAdjustments, pixelScale = 1): void => {
+  if (adjustments.brightness !== 100 || adjustments.contrast !== 100 || adjustments.saturation !== 100) {
+    applyColor(pixels, adjustments);
+  }
+
+  const radius = Math.round(adjustments.blur * pixelScale);
+  if (radius >= 1) boxBlur(pixels, radius);
+
+  if (adjustments.sharpen > 0) sharpen(pixels, adjustments.sharpen / 100);
+};
+
+/**
+ * 🖼️ renderAdjusted
+ * ---------------------------------------------------------
+ * Dibuja la imagen con los ajustes en un canvas nuevo.
+ *
+ * @param img         Imagen ya cargada
+ * @param adjustments Ajustes a aplicar
+ * @param maxSize     Lado mayor máximo (vista previa). Sin él se
+ *                    usa el tamaño natural × `scale`.
+ * @returns Canvas con la imagen ajustada
+ * ---------------------------------------------------------
+ */
+export const renderAdjusted = (img: HTMLImageElement, adjustments: ImageAdjustments, maxSize?: number): HTMLCanvasElement => {
+  const naturalWidth = img.naturalWidth || img.width;
+  const naturalHeight = img.naturalHeight || img.height;
+  const scale = maxSize
+    ? Math.min(1, maxSize / Math.max(naturalWidth, naturalHeight))
+    : adjustments.scale / 100;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(naturalHeight * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D no disponible');
+
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  if (!isNeutralAdjustments({ ...adjustments, scale: 100 })) {
+    const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    applyAdjustments(pixels, adjustments, scale);
+    ctx.putImageData(pixels, 0, 0);
+  }
+
+  return canvas;
+};
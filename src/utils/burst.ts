@@ -0,0 +1,59 @@
+/**
+ * 🎞️ burst.ts
+ * =========================================================
+ * 🧰 Ráfaga de la cámara: ordenar tomas de mejor a peor.
+ *
+ * ✅ Cada toma se califica por:
+ * - 🔍 Nitidez (varianza del laplaciano), relativa a la mejor
+ *   toma de la ráfaga (las tomas son de la misma escena)
+ * - 🔆 Reflejos: penalización por fracción quemada
+ * =========================================================
+ */
+
+import type { CaptureFrame } from '../types';
+import { loadImage, toGrayscale } from './image';
+import { glareFraction, laplacianVariance } from './quality';
+
+/** 🎞️ Tomas por ráfaga */
+export const BURST_FRAMES = 5;
+
+/** ⏱️ Pausa entre tomas (ms) */
+export const BURST_INTERVAL_MS = 150;
+
+/** 🔍 Lado mayor de la toma reducida para calificar */
+const FRAME_SCORE_SIZE = 640;
+
+/** 🔆 Puntos que se restan por cada 1% de reflejo (máx. 50) */
+const GLARE_PENALTY_PER_PERCENT = 10;
+
+/**
+ * 🏆 rankFrames
+ * ---------------------------------------------------------
+ * Califica y ordena las tomas de una ráfaga.
+ *
+ * @param frames Tomas (DataURL) en orden de captura
+ * @returns Tomas de mejor a peor, con su puntaje
+ * ---------------------------------------------------------
+ */
+export const rankFrames = async (frames: string[]): Promise<CaptureFrame[]> => {
+  const measured = await Promise.all(
+    frames.map(async (imagen) => {
+      const { gray, width, height } = toGrayscale(await loadImage(imagen), FRAME_SCORE_SIZE);
+      return {
+        imagen,
+        nitidez: laplacianVariance(gray, width, height),
+        reflejos: glareFraction(gray, width, height)
+      };
+    })
+  );
+
+  const sharpest = Math.max(...measured.map((frame) => frame.nitidez), 1e-6);
+
+  return measured
+    .map((frame) => {
+      const penalty = Math.min(50, frame.reflejos * 100 * GLARE_PENALTY_PER_PERCENT);
+      const puntaje = Math.round(Math.max(0, (frame.nitidez / sharpest) * 100 - penalty));
+      return { ...frame, puntaje };
+    })
+    .sort((a, b) => b.puntaje - a.puntaje);
+};
@@ -0,0 +1,224 @@
+/**
+ * 🔑 claveElector.ts
+ * =========================================================
+ * ✅ Validación estructural y decodificación de la clave de elector.
+ *
+ * 📐 Estructura (18 caracteres):
+ * - 1-6   Letras de apellido paterno, materno y nombre (2 c/u)
+ * - 7-12  Fecha de nacimiento (YYMMDD)
+ * - 13-14 Entidad de nacimiento (clave numérica, ej. "23")
+ * - 15    Sexo (H / M)
+ * - 16-18 Homoclave
+ *
+ * 🔤 Letras por parte del nombre:
+ * - Primera letra + primera consonante siguiente
+ *   (ej. GOMEZ -> "GM", OLIVERA -> "OL")
+ * - Sin apellido materno se usa "XX"
+ *
+ * 🧠 Uso:
+ * - `validateClaveElector(clave)` -> estructura + datos decodificados
+ * - `crossCheckClaveElector(validation, data)` -> diferencias contra el anverso
+ * =========================================================
+ */
+
+import type { ClaveElectorValidation, FieldMismatch, INEData } from '../types';
+import { findStateByInegiCode } from './states';
+import { normalizeSex, normalizeText } from './text';
+import { datesMatch, isRealDate, parseINEDate } from './dates';
+import type { DateParts } from './dates';
+import { splitFullName } from './identity';
+
+/** 🔠 Consonantes válidas (Ñ se escribe como X en la clave) */
+const CONSONANTS = 'BCDFGHJKLMNPQRSTVWXYZ';
+
+/** 👤 Nombres comunes que la clave puede omitir en nombres compuestos */
+const COMMON_NAMES = ['MARIA', 'MA', 'JOSE', 'J'];
+
+/**
+ * ✂️ withoutCentury
+ * - Deja solo los 2 últimos dígitos del año (la clave no trae siglo).
+ */
+const withoutCentury = (date: DateParts): DateParts => ({ ...date, year: date.year % 100 });
+
+/**
+ * 🔤 namePairs
+ * ---------------------------------------------------------
+ * Letras aceptables para una parte del nombre.
+ *
+ * 🧠 Para el nombre de pila se prueba cada palabra, porque en
+ * nombres compuestos ("MARIA GUADALUPE") la clave puede usar
+ * la segunda.
+ *
+ * @param part     Parte del nombre (ej. "DE LA CRUZ")
+ * @param anyWord  true para probar todas las palabras
+ * @returns Pares de letras esperados (ej. ["CR"])
+ * ---------------------------------------------------------
+ */
+const namePairs = (part: string, anyWord: boolean): string[] => {
+  const words = normalizeText(part)
+    .replace(/Ñ/g, 'X')
+    .split(' ')
+    .filter((w) => /^[A-Z]+$/.test(w));
+
+  // 🔗 En apellidos compuestos cuenta la última palabra ("DE LA CRUZ" -> "CRUZ")
+  const candidates = anyWord ? words : words.slice(-1);
+  if (!candidates.length) return ['XX'];
+
+  return candidates.map((word) => {
+    const consonant = word.slice(1).split('').find((c) => CONSONANTS.includes(c)) || 'X';
+    return word.charAt(0) + consonant;
+  });
+};
+
+/**
+ * ✅ validateClaveElector
+ * ---------------------------------------------------------
+ * Valida cada segmento de la clave de elector y decodifica:
+ * - Letras del nombre
+ * - Fecha de nacimiento (siglo inferido: nunca en el futuro)
+ * - Entidad de nacimiento
+ * - Sexo
+ *
+ * @param rawClave Clave tal como la leyó el OCR
+ * @returns Resultado con datos decodificados y errores
+ * ---------------------------------------------------------
+ */
+export const validateClaveElector = (rawClave: string): ClaveElectorValidation => {
+  const clave = (rawClave || '').toUpperCase().replace(/\s+/g, '');
+  const errores: string[] = [];
+  const result: ClaveElectorValidation = {
+    valida: false,
+    clave,
+    iniciales: '',
+    fecha_nacimiento: '',
+    estado_codigo: '',
+    estado_nombre: '',
+    sexo: '',
+    homoclave: '',
+    errores
+  };
+
+  if (!clave) {
+    errores.push('Clave de elector no detectada');
+    return result;
+  }
+
+  if (clave.length !== 18) {
+    errores.push(`La clave de elector tiene ${clave.length} caracteres (se esperan 18)`);
+    return result;
+  }
+
+  // 🔤 Letras del nombre
+  const iniciales = clave.slice(0, 6);
+  if (/^[A-Z]{6}$/.test(iniciales)) {
+    result.iniciales = iniciales;
+  } else {
+    errores.push('Las primeras 6 posiciones deben ser letras');
+  }
+
+  // 🎂 Fecha de nacimiento
+  const datePart = clave.slice(6, 12);
+  if (/^\d{6}$/.test(datePart)) {
+    const yy = Number(datePart.slice(0, 2));
+    const month = Number(datePart.slice(2, 4));
+    const day = Number(datePart.slice(4, 6));
+    const year = (yy <= new Date().getFullYear() % 100 ? 2000 : 1900) + yy;
+    if (isRealDate(year, month, day)) {
+      result.fecha_nacimiento = `${year}-${datePart.slice(2, 4)}-${datePart.slice(4, 6)}`;
+    } else {
+      errores.push('La fecha de nacimiento de la clave no es una fecha real');
+    }
+  } else {
+    errores.push('La fecha de nacimiento (posiciones 7-12) debe ser numérica');
+  }
+
+  // 🗺️ Entidad de nacimiento (87 = nacido en el extranjero)
+  const stateCode = clave.slice(12, 14);
+  const state = findStateByInegiCode(stateCode);
+  if (state) {
+    result.estado_codigo = state.inegi;
+    result.estado_nombre = state.nombre;
+  } else if (stateCode === '87') {
+    result.estado_codigo = stateCode;
+    result.estado_nombre = 'Nacido en el extranjero';
+  } else {
+    errores.push(`La clave de entidad "${stateCode}" no existe`);
+  }
+
+  // 🚻 Sexo
+  const sexo = clave.charAt(14);
+  if (['H', 'M'].includes(sexo)) {
+    result.sexo = sexo;
+  } else {
+    errores.push('El sexo (posición 15) debe ser H o M');
+  }
+
+  // 🔢 Homoclave
+  const homoclave = clave.slice(15, 18);
+  if (/^\d[0-9A-Z]{2}$/.test(homoclave)) {
+    result.homoclave = homoclave;
+  } else {
+    errores.push('La homoclave (posiciones 16-18) no tiene el formato esperado');
+  }
+
+  result.valida = errores.length === 0;
+  return result;
+};
+
+/**
+ * ⚖️ crossCheckClaveElector
+ * ---------------------------------------------------------
+ * Compara lo decodificado de la clave de elector con el anverso:
+ * - `nombre` (letras de paterno, materno y nombre)
+ * - `fecha_nacimiento` (solo YYMMDD: la clave no trae siglo)
+ * - `sexo`
+ *
+ * Solo se reportan campos que ambos lados tienen legibles.
+ *
+ * @param validation Resultado de `validateClaveElector`
+ * @param data       Datos del anverso
+ * @returns Lista de diferencias
+ * ---------------------------------------------------------
+ */
+export const crossCheckClaveElector = (validation: ClaveElectorValidation, data: INEData): FieldMismatch[] => {
+  const mismatches: FieldMismatch[] = [];
+
+  const parts = splitFullName(data.nombre);
+  if (validation.iniciales && parts.apellido_paterno) {
+    const expected = [
+      namePairs(parts.apellido_paterno, false),
+      namePairs(parts.apellido_materno, false),
+      namePairs(parts.nombres.split(' ').filter((w) => !COMMON_NAMES.includes(w)).join(' ') || parts.nombres, true)
+    ];
+    const matches = expected.every((pairs, index) =>
+      pairs.includes(validation.iniciales.slice(index * 2, index * 2 + 2))
+    );
+    if (!matches) {
+      mismatches.push({
+        campo: 'nombre',
+        fuente: 'Clave de elector',
+        esperado: validation.iniciales,
+        detectado: expected.map((pairs) => pairs[0]).join('')
+      });
+    }
+  }
+
+  // 🎂 Se compara sin siglo: la clave solo guarda YYMMDD
+  const claveDate = parseINEDate(validation.fecha_nacimiento);
+  const ineDate = parseINEDate(data.fecha_nacimiento);
+  if (claveDate && ineDate && !datesMatch(withoutCentury(claveDate), withoutCentury(ineDate))) {
+    mismatches.push({
+      campo: 'fecha_nacimiento',
+      fuente: 'Clave de elector',
+      esperado: validation.fecha_nacimiento,
+      detectado: data.fecha_nacimiento
+    });
+  }
+
+  const ineSex = normalizeSex(data.sexo);
+  if (validation.sexo && ineSex && validation.sexo !== ineSex) {
+    mismatches.push({ campo: 'sexo', fuente: 'Clave de elector', esperado: validation.sexo, detectado: data.sexo });
+  }
+
+  return mismatches;
+};
@@ -0,0 +1,81 @@
+/**
+ * ✏️ corrections.ts
+ * =========================================================
+ * 📝 Bitácora de correcciones manuales sobre el resultado OCR.
+ *
+ * Cuando el OCR lee mal un carácter, el operador lo corrige en
+ * OCRResults. Cada corrección guarda:
+ * - 🔍 El valor original del OCR
+ * - ✅ El valor corregido
+ * - 👤 Quién y cuándo lo cambió
+ *
+ * 🧠 Funciones puras: App guarda la lista en su estado.
+ * =========================================================
+ */
+
+import type { CorrectableField, FieldCorrection } from '../types';
+
+/**
+ * 🧩 CorrectionInput
+ * ---------------------------------------------------------
+ * Datos necesarios para registrar una corrección.
+ * ---------------------------------------------------------
+ */
+export interface CorrectionInput {
+  lado: FieldCorrection['lado'];
+  campo: CorrectableField;
+  /** Valor actual del campo ANTES de aplicar la corrección */
+  valorActual: string;
+  corregido: string;
+  usuario: string;
+}
+
+/**
+ * ✏️ applyCorrection
+ * ---------------------------------------------------------
+ * Agrega o actualiza la corrección de un campo.
+ *
+ * ✅ Reglas:
+ * - La primera corrección toma `valorActual` como original del OCR
+ * - Las siguientes conservan ese original y actualizan el resto
+ * - Si el valor regresa al original, se elimina la entrada
+ *
+ * @param corrections Lista actual
+ * @param input       Corrección a registrar
+ * @param fecha       Momento de la corrección (default: ahora)
+ * @returns Nueva lista (no muta la original)
+ * ---------------------------------------------------------
+ */
+export const applyCorrection = (
+  corrections: FieldCorrection[],
+  input: CorrectionInput,
+  fecha: Date = new Date()
+): FieldCorrection[] => {
+  const existing = corrections.find((c) => c.lado === input.lado && c.campo === input.campo);
+  const others = corrections.filter((c) => c !== existing);
+  const original = existing ? existing.original : input.valorActual;
+
+  if (input.corregido === original) return others;
+
+  return [
+    ...others,
+    {
+      lado: input.lado,
+      campo: input.campo,
+      original,
+      corregido: input.corregido,
+      usuario: input.usuario,
+      fecha: fecha.toISOString()
+    }
+  ];
+};
+
+/**
+ * 🔍 findCorrection
+ * - Corrección registrada para un lado + campo (si existe).
+ */
+export const findCorrection = (
+  corrections: FieldCorrection[],
+  lado: FieldCorrection['lado'],
+  campo: CorrectableField
+): FieldCorrection | undefined => corrections.find((c) => c.lado === lado && c.campo === campo);
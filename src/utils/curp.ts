@@ -0,0 +1,186 @@
+/**
+ * 🆔 curp.ts
+ * =========================================================
+ * ✅ Validación estructural y decodificación de la CURP.
+ *
+ * 📐 Estructura (18 caracteres):
+ * - 1-4   Letras del nombre (apellidos + nombre)
+ * - 5-10  Fecha de nacimiento (YYMMDD)
+ * - 11    Sexo (H / M / X)
+ * - 12-13 Entidad de registro (ej. "QR")
+ * - 14-16 Consonantes internas
+ * - 17    Diferenciador de homonimia (dígito <2000, letra >=2000)
+ * - 18    Dígito verificador
+ *
+ * 🧠 Uso:
+ * - `validateCurp(curp)` -> estructura + datos decodificados
+ * - `crossCheckCurp(validation, data)` -> diferencias contra el anverso
+ * =========================================================
+ */
+
+import type { CurpValidation, FieldMismatch, INEData } from '../types';
+import { findStateByCurpCode, resolveState } from './states';
+import { normalizeSex } from './text';
+import { datesMatch, isRealDate, parseINEDate, toISODate } from './dates';
+
+/** 🔤 Diccionario oficial para el dígito verificador */
+const CHECK_DICTIONARY = '0123456789ABCDEFGHIJKLMNÑOPQRSTUVWXYZ';
+
+/**
+ * 🧮 computeCurpCheckDigit
+ * ---------------------------------------------------------
+ * Calcula el dígito verificador (posición 18) de una CURP:
+ * - Cada uno de los 17 primeros caracteres vale su índice en
+ *   el diccionario y se multiplica por (18 - posición)
+ * - Dígito = (10 - suma mod 10) mod 10
+ *
+ * @param curp17 Primeros 17 caracteres de la CURP
+ * @returns Dígito calculado ('' si hay caracteres inválidos)
+ * ---------------------------------------------------------
+ */
+export const computeCurpCheckDigit = (curp17: string): string => {
+  let sum = 0;
+  for (let i = 0; i < 17; i++) {
+    const value = CHECK_DICTIONARY.indexOf(curp17.charAt(i));
+    if (value < 0) return '';
+    sum += value * (18 - i);
+  }
+  return String((10 - (sum % 10)) % 10);
+};
+
+/**
+ * ✅ validateCurp
+ * ---------------------------------------------------------
+ * Valida cada segmento de la CURP y decodifica:
+ * - Fecha de nacimiento (siglo según el diferenciador)
+ * - Sexo
+ * - Entidad de registro
+ *
+ * @param rawCurp CURP tal como la leyó el OCR
+ * @returns Resultado con datos decodificados y errores
+ * ---------------------------------------------------------
+ */
+export const validateCurp = (rawCurp: string): CurpValidation => {
+  const curp = (rawCurp || '').toUpperCase().replace(/\s+/g, '');
+  const errores: string[] = [];
+  const result: CurpValidation = {
+    valida: false,
+    curp,
+    fecha_nacimiento: '',
+    sexo: '',
+    estado_codigo: '',
+    estado_nombre: '',
+    digito_leido: curp.charAt(17),
+    digito_calculado: '',
+    errores
+  };
+
+  if (!curp) {
+    errores.push('CURP no detectada');
+    return result;
+  }
+
+  if (curp.length !== 18) {
+    errores.push(`La CURP tiene ${curp.length} caracteres (se esperan 18)`);
+    return result;
+  }
+
+  // 🔤 Letras iniciales
+  if (!/^[A-ZÑ][AEIOUX][A-ZÑ]{2}$/.test(curp.slice(0, 4))) {
+    errores.push('Las primeras 4 posiciones no tienen el formato esperado (letra, vocal, letra, letra)');
+  }
+
+  // 🎂 Fecha de nacimiento (el diferenciador define el siglo)
+  const diferenciador = curp.charAt(16);
+  if (!/^[0-9A-Z]$/.test(diferenciador)) {
+    errores.push('El diferenciador de homonimia (posición 17) no es válido');
+  }
+  const datePart = curp.slice(4, 10);
+  if (/^\d{6}$/.test(datePart)) {
+    const year = (/\d/.test(diferenciador) ? 1900 : 2000) + Number(datePart.slice(0, 2));
+    const month = Number(datePart.slice(2, 4));
+    const day = Number(datePart.slice(4, 6));
+    if (isRealDate(year, month, day)) {
+      result.fecha_nacimiento = toISODate({ year, month, day });
+    } else {
+      errores.push('La fecha de nacimiento de la CURP no es una fecha real');
+    }
+  } else {
+    errores.push('La fecha de nacimiento (posiciones 5-10) debe ser numérica');
+  }
+
+  // 🚻 Sexo
+  const sexo = curp.charAt(10);
+  if (['H', 'M', 'X'].includes(sexo)) {
+    result.sexo = sexo;
+  } else {
+    errores.push('El sexo (posición 11) debe ser H, M o X');
+  }
+
+  // 🗺️ Entidad de registro
+  const stateCode = curp.slice(11, 13);
+  const state = findStateByCurpCode(stateCode);
+  if (state) {
+    result.estado_codigo = state.curp;
+    result.estado_nombre = state.nombre;
+  } else {
+    errores.push(`El código de entidad "${stateCode}" no existe`);
+  }
+
+  // 🔠 Consonantes internas
+  if (!/^[B-DF-HJ-NP-TV-ZÑ]{3}$/.test(curp.slice(13, 16))) {
+    errores.push('Las posiciones 14-16 deben ser consonantes');
+  }
+
+  // 🔢 Dígito verificador
+  result.digito_calculado = computeCurpCheckDigit(curp.slice(0, 17));
+  if (result.digito_leido !== result.digito_calculado) {
+    errores.push(`Dígito verificador incorrecto (leído ${result.digito_leido}, calculado ${result.digito_calculado || '?'})`);
+  }
+
+  result.valida = errores.length === 0;
+  return result;
+};
+
+/**
+ * ⚖️ crossCheckCurp
+ * ---------------------------------------------------------
+ * Compara lo decodificado de la CURP con el anverso:
+ * - `fecha_nacimiento`
+ * - `sexo`
+ * - `estado` (la CURP guarda la entidad de REGISTRO; puede
+ *   diferir legítimamente del domicilio actual)
+ *
+ * Solo se reportan campos que ambos lados tienen legibles.
+ *
+ * @param validation Resultado de `validateCurp`
+ * @param data       Datos del anverso
+ * @returns Lista de diferencias
+ * ---------------------------------------------------------
+ */
+export const crossCheckCurp = (validation: CurpValidation, data: INEData): FieldMismatch[] => {
+  const mismatches: FieldMismatch[] = [];
+
+  const curpDate = parseINEDate(validation.fecha_nacimiento);
+  const ineDate = parseINEDate(data.fecha_nacimiento);
+  if (curpDate && ineDate && !datesMatch(curpDate, ineDate)) {
+    mismatches.push({
+      campo: 'fecha_nacimiento',
+      fuente: 'CURP',
+      esperado: validation.fecha_nacimiento,
+      detectado: data.fecha_nacimiento
+    });
+  }
+
+  const ineSex = normalizeSex(data.sexo);
+  if (validation.sexo && ineSex && validation.sexo !== ineSex) {
+    mismatches.push({ campo: 'sexo', fuente: 'CURP', esperado: validation.sexo, detectado: data.sexo });
+  }
+
+  const ineState = resolveState(data.estado);
+  if (validation.estado_codigo && ineState && ineState.curp !== validation.estado_codigo) {
+    mismatches.push({ campo: 'estado', fuente: 'CURP', esperado: validation.estado_nombre, detectado: data.estado });
+  }
+
+  return mismatches;
+};
@@ -0,0 +1,98 @@
+/**
+ * 📅 dates.ts
+ * =========================================================
+ * 🗓️ Lectura de fechas tal como las devuelve el backend OCR.
+ *
+ * El campo `fecha_nacimiento` del anverso puede venir como:
+ * - "01/02/1990" (DD/MM/YYYY)
+ * - "01-02-1990"
+ * - "1990-02-01" (ISO)
+ * - "1990" (solo año)
+ *
+ * Estas funciones lo convierten a partes numéricas para poder
+ * compararlo con lo decodificado de la CURP, la clave de elector
+ * o el MRZ.
+ * =========================================================
+ */
+
+/**
+ * 🧩 DateParts
+ * ---------------------------------------------------------
+ * Fecha descompuesta. `month` y `day` son opcionales porque
+ * algunas lecturas solo traen el año.
+ * ---------------------------------------------------------
+ */
+export interface DateParts {
+  year: number;
+  month?: number;
+  day?: number;
+}
+
+/**
+ * 🔍 parseINEDate
+ * ---------------------------------------------------------
+ * Interpreta una fecha del OCR.
+ *
+ * @param value Fecha cruda
+ * @returns Partes de la fecha o null si no se reconoce
+ * ---------------------------------------------------------
+ */
+export const parseINEDate = (value: string | null | undefined): DateParts | null => {
+  const text = (value || '').trim();
+  if (!text) return null;
+
+  // 📅 DD/MM/YYYY o DD-MM-YYYY
+  let match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (match) {
+    return { day: Number(match[1]), month: Number(match[2]), year: Number(match[3]) };
+  }
+
+  // 📅 YYYY-MM-DD
+  match = text.match(/^(\d{4})[/.-](\d{1,2})[/.-](\d{1,2})$/);
+  if (match) {
+    return { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+  }
+
+  // 📅 YYYY
+  match = text.match(/^(\d{4})$/);
+  if (match) {
+    return { year: Number(match[1]) };
+  }
+
+  return null;
+};
+
+/**
+ * 🧾 toISODate
+ * ---------------------------------------------------------
+ * Formatea partes completas como `YYYY-MM-DD`.
+ * Si faltan mes o día, solo devuelve el año.
+ * ---------------------------------------------------------
+ */
+export const toISODate = (parts: DateParts): string => {
+  if (!parts.month || !parts.day) return String(parts.year);
+  return `${parts.year}-${String(parts.month).padStart(2, '0')}-${String(parts.day).padStart(2, '0')}`;
+};
+
+/**
+ * ⚖️ datesMatch
+ * ---------------------------------------------------------
+ * Compara dos fechas usando solo las partes que ambas tienen.
+ * Ej. "1990" coincide con "1990-02-01".
+ * ---------------------------------------------------------
+ */
+export const datesMatch = (a: DateParts, b: DateParts): boolean => {
+  if (a.year !== b.year) return false;
+  if (a.month && b.month && a.month !== b.month) return false;
+  if (a.day && b.day && a.day !== b.day) return false;
+  return true;
+};
+
+/**
+ * ✅ isRealDate
+ * - true si año/mes/día forman una fecha real (ej. no 31/02).
+ */
+export const isRealDate = (year: number, month: number, day: number): boolean => {
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+};
@@ -0,0 +1,203 @@
+/**
+ * 📦 export.ts
+ * =========================================================
+ * ⬇️ Exportación del registro OCR en 3 formatos:
+ *
+ * - 🧾 JSON  -> esquema versionado (`ExportRecord`)
+ * - 📊 CSV   -> una fila, columnas en orden fijo (`CSV_COLUMNS`)
+ * - 👤 vCard -> nombre, domicilio, nacimiento y CURP (vCard 3.0)
+ *
+ * 🧠 Todas las funciones son puras excepto `downloadText`,
+ * que crea un enlace temporal para descargar el archivo.
+ * =========================================================
+ */
+
+import type { ExportRecord, FieldCorrection, INEData, ReversoData } from '../types';
+import { evaluateVigencia } from './vigencia';
+import { splitFullName } from './identity';
+import { parseINEDate, toISODate } from './dates';
+
+/** 🔢 Versión actual del esquema JSON */
+export const EXPORT_SCHEMA_VERSION = 1;
+
+/**
+ * 🧩 ExportInput
+ * ---------------------------------------------------------
+ * Datos disponibles en App al momento de exportar.
+ * ---------------------------------------------------------
+ */
+export interface ExportInput {
+  anverso: INEData | null;
+  reverso: ReversoData | null;
+  correcciones: FieldCorrection[];
+  referenceDate?: Date;
+}
+
+/**
+ * 🏗️ buildExportRecord
+ * ---------------------------------------------------------
+ * Construye el registro versionado que usan los 3 formatos.
+ *
+ * @param input Datos de anverso/reverso + correcciones
+ * @param now   Fecha de exportación (default: ahora)
+ * @returns Registro listo para serializar
+ * ---------------------------------------------------------
+ */
+export const buildExportRecord = (input: ExportInput, now: Date = new Date()): ExportRecord => ({
+  esquema: 'ine-ocr-record',
+  version: EXPORT_SCHEMA_VERSION,
+  exportado: now.toISOString(),
+  anverso: input.anverso,
+  reverso: input.reverso,
+  vigencia: input.anverso ? evaluateVigencia(input.anverso.vigencia, input.referenceDate) : null,
+  correcciones: input.correcciones
+});
+
+/**
+ * 🧾 toJSON
+ * - Serializa el registro con sangría de 2 espacios.
+ */
+export const toJSON = (record: ExportRecord): string => JSON.stringify(record, null, 2);
+
+/**
+ * 📊 CSV_COLUMNS
+ * ---------------------------------------------------------
+ * Columnas del CSV en orden FIJO.
+ *
+ * ⚠️ No reordenar ni renombrar: otros sistemas leen el CSV por
+ * posición. Las columnas nuevas se agregan siempre al final.
+ * ---------------------------------------------------------
+ */
+export const CSV_COLUMNS: Array<[string, (record: ExportRecord) => string | number | boolean | null | undefined]> = [
+  ['version', (r) => r.version],
+  ['exportado', (r) => r.exportado],
+  ['nombre', (r) => r.anverso?.nombre],
+  ['curp', (r) => r.anverso?.curp],
+  ['clave_elector', (r) => r.anverso?.clave_elector],
+  ['fecha_nacimiento', (r) => r.anverso?.fecha_nacimiento],
+  ['sexo', (r) => r.anverso?.sexo],
+  ['anio_registro', (r) => r.anverso?.anio_registro],
+  ['seccion', (r) => r.anverso?.seccion],
+  ['vigencia', (r) => r.anverso?.vigencia],
+  ['pais', (r) => r.anverso?.pais],
+  ['calle', (r) => r.anverso?.calle],
+  ['numero', (r) => r.anverso?.numero],
+  ['colonia', (r) => r.anverso?.colonia],
+  ['codigo_postal', (r) => r.anverso?.codigo_postal],
+  ['estado', (r) => r.anverso?.estado],
+  ['anverso_es_ine', (r) => r.anverso?.es_ine],
+  ['apellido_paterno', (r) => r.reverso?.apellido_paterno],
+  ['apellido_materno', (r) => r.reverso?.apellido_materno],
+  ['nombre_reverso', (r) => r.reverso?.nombre_reverso],
+  ['linea1', (r) => r.reverso?.linea1],
+  ['linea2', (r) => r.reverso?.linea2],
+  ['reverso_es_ine', (r) => r.reverso?.es_ine],
+  ['vigencia_estado', (r) => r.vigencia?.estado],
+  ['vigencia_vence', (r) => r.vigencia?.vence],
+  ['correcciones', (r) => r.correcciones.map((c) => `${c.lado}.${c.campo}`).join(' ')]
+];
+
+/**
+ * 🧼 csvCell
+ * - Escapa una celda según RFC 4180 (comillas dobles si hace falta).
+ */
+const csvCell = (value: string | number | boolean | null | undefined): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * 📊 toCSV
+ * ---------------------------------------------------------
+ * Genera un CSV de encabezado + una fila.
+ *
+ * ✅ Incluye BOM UTF-8 para que Excel respete acentos y Ñ.
+ * ---------------------------------------------------------
+ */
+export const toCSV = (record: ExportRecord): string => {
+  const header = CSV_COLUMNS.map(([name]) => name).join(',');
+  const row = CSV_COLUMNS.map(([, get]) => csvCell(get(record))).join(',');
+  return `\uFEFF${header}\r\n${row}\r\n`;
+};
+
+/**
+ * 🧼 vcardText
+ * - Escapa `\`, `,`, `;` y saltos de línea (vCard 3.0).
+ */
+const vcardText = (value: string | null | undefined): string =>
+  (value || '')
+    .trim()
+    .replace(/\\/g, '\\\\')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;')
+    .replace(/\r?\n/g, '\\n');
+
+/**
+ * 👤 toVCard
+ * ---------------------------------------------------------
+ * Genera una vCard 3.0 con:
+ * - N / FN: apellidos y nombre(s) (del reverso si existen,
+ *   si no, separados del `nombre` del anverso)
+ * - ADR: calle + número, colonia, estado, CP y país
+ * - BDAY: fecha de nacimiento (si es completa)
+ * - NOTE: CURP y clave de elector
+ * ---------------------------------------------------------
+ */
+export const toVCard = (record: ExportRecord): string => {
+  const { anverso, reverso } = record;
+  const fromFront = splitFullName(anverso?.nombre || '');
+  const paterno = reverso?.apellido_paterno || fromFront.apellido_paterno;
+  const materno = reverso?.apellido_materno || fromFront.apellido_materno;
+  const nombres = reverso?.nombre_reverso || fromFront.nombres;
+  const apellidos = [paterno, materno].filter(Boolean).join(' ');
+
+  const lines = [
+    'BEGIN:VCARD',
+    'VERSION:3.0',
+    `N:${vcardText(apellidos)};${vcardText(nombres)};;;`,
+    `FN:${vcardText([nombres, apellidos].filter(Boolean).join(' ') || anverso?.nombre)}`
+  ];
+
+  if (anverso) {
+    const street = [anverso.calle, anverso.numero].filter(Boolean).join(' ');
+    // ADR: apartado;extendida;calle;localidad;región;CP;país
+    lines.push(
+      `ADR;TYPE=HOME:;${vcardText(anverso.colonia)};${vcardText(street)};;${vcardText(anverso.estado)};${vcardText(anverso.codigo_postal)};${vcardText(anverso.pais || 'México')}`
+    );
+
+    const birth = parseINEDate(anverso.fecha_nacimiento);
+    if (birth?.month && birth.day) {
+      lines.push(`BDAY:${toISODate(birth)}`);
+    }
+
+    const notes = [
+      anverso.curp && `CURP: ${anverso.curp}`,
+      anverso.clave_elector && `Clave de elector: ${anverso.clave_elector}`
+    ].filter(Boolean).join('\n');
+    if (notes) lines.push(`NOTE:${vcardText(notes)}`);
+  }
+
+  lines.push('END:VCARD');
+  return `${lines.join('\r\n')}\r\n`;
+};
+
+/**
+ * ⬇️ downloadText
+ * ---------------------------------------------------------
+ * Descarga un texto como archivo usando un enlace temporal.
+ *
+ * @param content  Contenido del archivo
+ * @param filename Nombre sugerido
+ * @param mimeType Tipo MIME (ej. "text/csv")
+ * ---------------------------------------------------------
+ */
+export const downloadText = (content: string, filename: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
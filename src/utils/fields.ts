@@ -0,0 +1,78 @@
+/**
+ * 🏷️ fields.ts
+ * =========================================================
+ * 📋 Catálogo de campos de anverso y reverso.
+ *
+ * Define en un solo lugar:
+ * - El orden en que se muestran/exportan los campos
+ * - La etiqueta legible de cada uno
+ * - Si se muestra en fuente monoespaciada (líneas MRZ)
+ *
+ * 🧠 Uso:
+ * - Formulario de corrección (OCRResults)
+ * - Bitácora de correcciones
+ * =========================================================
+ */
+
+import type { CorrectableField, INEData, ReversoData } from '../types';
+
+/**
+ * 🧩 FieldDefinition
+ * ---------------------------------------------------------
+ * Campo + etiqueta + si se edita en fuente monoespaciada.
+ * ---------------------------------------------------------
+ */
+export interface FieldDefinition<K extends CorrectableField = CorrectableField> {
+  campo: K;
+  etiqueta: string;
+  monoespaciado?: boolean;
+}
+
+/** 🪪 Campos del anverso, en orden de la credencial */
+export const ANVERSO_FIELDS: FieldDefinition<Exclude<keyof INEData, 'es_ine'>>[] = [
+  { campo: 'nombre', etiqueta: 'Nombre' },
+  { campo: 'curp', etiqueta: 'CURP' },
+  { campo: 'clave_elector', etiqueta: 'Clave Elector' },
+  { campo: 'fecha_nacimiento', etiqueta: 'Fecha Nacimiento' },
+  { campo: 'sexo', etiqueta: 'Sexo' },
+  { campo: 'anio_registro', etiqueta: 'Año Registro' },
+  { campo: 'seccion', etiqueta: 'Sección' },
+  { campo: 'vigencia', etiqueta: 'Vigencia' },
+  { campo: 'pais', etiqueta: 'País' },
+  { campo: 'calle', etiqueta: 'Calle' },
+  { campo: 'numero', etiqueta: 'Número' },
+  { campo: 'colonia', etiqueta: 'Colonia' },
+  { campo: 'codigo_postal', etiqueta: 'Código Postal' },
+  { campo: 'estado', etiqueta: 'Estado' }
+];
+
+/** 🔙 Campos del reverso */
+export const REVERSO_FIELDS: FieldDefinition<Exclude<keyof ReversoData, 'es_ine'>>[] = [
+  { campo: 'apellido_paterno', etiqueta: 'Apellido Paterno' },
+  { campo: 'apellido_materno', etiqueta: 'Apellido Materno' },
+  { campo: 'nombre_reverso', etiqueta: 'Nombre(s)' },
+  { campo: 'linea1', etiqueta: 'Línea MRZ 1', monoespaciado: true },
+  { campo: 'linea2', etiqueta: 'Línea MRZ 2', monoespaciado: true }
+];
+
+/**
+ * 🏷️ fieldLabel
+ * - Etiqueta legible de un campo (o el nombre técnico si no existe).
+ */
+export const fieldLabel = (campo: CorrectableField): string =>
+  [...ANVERSO_FIELDS, ...REVERSO_FIELDS].find((f) => f.campo === campo)?.etiqueta || campo;
+
+/**
+ * 🔎 fieldValue
+ * - Valor de un campo como texto ('' si ese lado no lo tiene).
+ */
+export const fieldValue = (data: INEData | ReversoData, campo: CorrectableField): string => {
+  const record: Partial<Record<CorrectableField, string>> = data;
+  return record[campo] ?? '';
+};
+
+/**
+ * 🔀 isReversoData
+ * - ¿Los datos son del reverso? (solo el reverso trae líneas MRZ)
+ */
+export const isReversoData = (data: INEData | ReversoData): data is ReversoData => 'linea1' in data;
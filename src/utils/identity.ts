@@ -0,0 +1,146 @@
+/**
+ * 🧬 identity.ts
+ * =========================================================
+ * 🔗 Fusión de anverso + reverso en un solo registro de identidad.
+ *
+ * El anverso trae el nombre completo en un solo campo (`nombre`),
+ * mientras que el MRZ del reverso lo trae separado en:
+ * - `apellido_paterno`
+ * - `apellido_materno`
+ * - `nombre_reverso`
+ *
+ * Este módulo:
+ * - ✅ Construye un `MergedIdentity` con los datos de ambos lados
+ * - ⚠️ Señala qué partes del nombre no coinciden entre lados
+ * - ✂️ Separa el `nombre` del anverso cuando no hay reverso
+ *
+ * 🧠 Convención de la credencial:
+ * - El `nombre` del anverso viene como "PATERNO MATERNO NOMBRE(S)"
+ * =========================================================
+ */
+
+import type { INEData, MergedIdentity, NameDiscrepancy, ReversoData } from '../types';
+import { splitWords } from './text';
+import { evaluateVigencia } from './vigencia';
+
+/** 🔗 Partículas que forman parte de un apellido compuesto */
+const NAME_PARTICLES = ['DE', 'DEL', 'LA', 'LAS', 'LOS', 'Y', 'MC', 'MAC', 'VAN', 'VON'];
+
+/**
+ * ✂️ splitFullName
+ * ---------------------------------------------------------
+ * Separa "PATERNO MATERNO NOMBRE(S)" en sus partes.
+ *
+ * ✅ Las partículas ("DE", "LA", "DEL"...) se pegan a la
+ * palabra siguiente, así "DE LA CRUZ LOPEZ JUAN" produce
+ * paterno "DE LA CRUZ", materno "LOPEZ", nombres "JUAN".
+ *
+ * @param nombre Nombre completo del anverso
+ * @returns Apellidos y nombre(s) (cadenas vacías si faltan)
+ * ---------------------------------------------------------
+ */
+export const splitFullName = (nombre: string) => {
+  const groups: string[] = [];
+  let pending: string[] = [];
+
+  splitWords(nombre).forEach((word) => {
+    pending.push(word);
+    if (!NAME_PARTICLES.includes(word)) {
+      groups.push(pending.join(' '));
+      pending = [];
+    }
+  });
+  if (pending.length) groups.push(pending.join(' '));
+
+  return {
+    apellido_paterno: groups[0] || '',
+    apellido_materno: groups.length > 2 ? groups[1] : '',
+    nombres: groups.slice(groups.length > 2 ? 2 : 1).join(' ')
+  };
+};
+
+/**
+ * 🔍 compareNames
+ * ---------------------------------------------------------
+ * Recorre el nombre del anverso palabra por palabra y lo
+ * compara contra cada parte del reverso, en orden.
+ *
+ * ✅ Cada parte del reverso "consume" tantas palabras del anverso
+ * como palabras tenga (soporta apellidos compuestos como
+ * "DE LA CRUZ"). La última parte (nombre) toma el resto.
+ *
+ * @param nombre  Nombre completo del anverso
+ * @param reverso Datos del reverso
+ * @returns Partes del nombre según el anverso + discrepancias
+ * ---------------------------------------------------------
+ */
+export const compareNames = (nombre: string, reverso: ReversoData) => {
+  const frontWords = splitWords(nombre);
+  const parts: Array<[NameDiscrepancy['campo'], string]> = [
+    ['apellido_paterno', reverso.apellido_paterno],
+    ['apellido_materno', reverso.apellido_materno],
+    ['nombre', reverso.nombre_reverso]
+  ];
+
+  const frontParts: Record<NameDiscrepancy['campo'], string> = {
+    apellido_paterno: '',
+    apellido_materno: '',
+    nombre: ''
+  };
+  const discrepancias: NameDiscrepancy[] = [];
+  let cursor = 0;
+
+  parts.forEach(([campo, valorReverso], index) => {
+    const backWords = splitWords(valorReverso);
+    const isLast = index === parts.length - 1;
+    const take = isLast ? frontWords.length - cursor : Math.max(backWords.length, 1);
+    const segment = frontWords.slice(cursor, cursor + take);
+    cursor += segment.length;
+
+    const anverso = segment.join(' ');
+    const reversoValue = backWords.join(' ');
+    frontParts[campo] = anverso;
+
+    if (!anverso && !reversoValue) return;
+
+    if (anverso !== reversoValue) {
+      discrepancias.push({ campo, anverso, reverso: reversoValue });
+    }
+  });
+
+  return { frontParts, discrepancias };
+};
+
+/**
+ * 🔗 mergeIdentity
+ * ---------------------------------------------------------
+ * Une el resultado del anverso y del reverso en un solo registro.
+ *
+ * 🧠 Reglas:
+ * - Datos de domicilio, CURP, clave, etc. -> anverso
+ * - Apellidos y nombre(s) -> reverso (si los trae), si no,
+ *   se infieren del `nombre` del anverso
+ * - `es_ine` -> true solo si ambos lados lo son
+ * - `estado_vigencia` -> evaluado contra `referenceDate`
+ *
+ * @param anverso       Resultado de `POST /ocr`
+ * @param reverso       Resultado de `POST /ocrreverso`
+ * @param referenceDate Fecha para evaluar la vigencia (default: hoy)
+ * @returns Registro fusionado con sus discrepancias
+ * ---------------------------------------------------------
+ */
+export const mergeIdentity = (anverso: INEData, reverso: ReversoData, referenceDate?: Date): MergedIdentity => {
+  const { frontParts, discrepancias } = compareNames(anverso.nombre, reverso);
+
+  return {
+    ...anverso,
+    apellido_paterno: reverso.apellido_paterno || frontParts.apellido_paterno,
+    apellido_materno: reverso.apellido_materno || frontParts.apellido_materno,
+    nombres: reverso.nombre_reverso || frontParts.nombre,
+    linea1: reverso.linea1,
+    linea2: reverso.linea2,
+    es_ine: anverso.es_ine && reverso.es_ine,
+    discrepancias,
+    estado_vigencia: evaluateVigencia(anverso.vigencia, referenceDate)
+  };
+};
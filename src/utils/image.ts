@@ -0,0 +1,163 @@
+/**
+ * 🖼️ image.ts
+ * =========================================================
+ * 🧰 Utilidades de imagen en el navegador (canvas).
+ *
+ * 🧠 Trabajan con DataURL, igual que el resto del wizard
+ * (`imageSrc`, `originalImage`, `editedImage`...).
+ * =========================================================
+ */
+
+/**
+ * 📥 loadImage
+ * ---------------------------------------------------------
+ * Carga un DataURL/URL en un `HTMLImageElement`.
+ *
+ * @param src DataURL o URL de la imagen
+ * @returns Imagen ya decodificada
+ * ---------------------------------------------------------
+ */
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('No se pudo cargar la imagen'));
+    img.src = src;
+  });
+
+/**
+ * 🖼️ createThumbnail
+ * ---------------------------------------------------------
+ * Genera una miniatura JPEG conservando la proporción.
+ *
+ * @param src     Imagen de origen (DataURL) o canvas / imagen ya cargada
+ * @param maxSize Lado mayor de la miniatura en px
+ * @param quality Calidad JPEG (0-1)
+ * @returns DataURL de la miniatura
+ * ---------------------------------------------------------
+ */
+export const createThumbnail = async (src: string | PixelSource, maxSize = 240, quality = 0.7): Promise<string> => {
+  const img = typeof src === 'string' ? await loadImage(src) : src;
+  const { width, height } = sourceSize(img);
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D no disponible');
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  return canvas.toDataURL('image/jpeg', quality);
+};
+
+/**
+ * 📦 canvasToBlob
+ * ---------------------------------------------------------
+ * Versión con promesa de `canvas.toBlob`.
+ *
+ * @param canvas  Canvas de origen
+ * @param type    Tipo MIME (ej: 'image/jpeg')
+ * @param quality Calidad (0-1, solo JPEG / WEBP)
+ * ---------------------------------------------------------
+ */
+export const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) resolve(blob);
+      else reject(new Error('No se pudo convertir el canvas'));
+    }, type, quality);
+  });
+
+/**
+ * 📊 otsuThreshold
+ * ---------------------------------------------------------
+ * Umbral que mejor separa un histograma de 256 niveles en
+ * dos grupos (método de Otsu).
+ * ---------------------------------------------------------
+ */
+export const otsuThreshold = (histogram: number[], total: number): number => {
+  const sumAll = histogram.reduce((acc, count, level) => acc + count * level, 0);
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let best = 0;
+  let threshold = 0;
+
+  histogram.forEach((count, level) => {
+    weightBackground += count;
+    if (weightBackground === 0) return;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) return;
+
+    sumBackground += count * level;
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+
+    if (variance > best) {
+      best = variance;
+      threshold = level;
+    }
+  });
+
+  return threshold;
+};
+
+/**
+ * ⚫ GrayImage
+ * - Luminancia (0-255) fila por fila + tamaño y escala usada.
+ */
+export interface GrayImage {
+  gray: Float32Array;
+  width: number;
+  height: number;
+  /** 🔍 Tamaño reducido / tamaño natural (<= 1) */
+  scale: number;
+}
+
+/** 🖼️ Fuentes que se pueden analizar (imagen o cuadro de video) */
+export type PixelSource = HTMLImageElement | HTMLVideoElement | HTMLCanvasElement;
+
+/**
+ * 📐 sourceSize
+ * - Tamaño natural de una fuente (el video usa `videoWidth`).
+ */
+export const sourceSize = (source: PixelSource): { width: number; height: number } => {
+  if (source instanceof HTMLVideoElement) return { width: source.videoWidth, height: source.videoHeight };
+  if (source instanceof HTMLImageElement) {
+    return { width: source.naturalWidth || source.width, height: source.naturalHeight || source.height };
+  }
+  return { width: source.width, height: source.height };
+};
+
+/**
+ * ⚫ toGrayscale
+ * ---------------------------------------------------------
+ * Reduce la imagen (si hace falta) y la convierte a grises.
+ * Base de los análisis en el navegador (bordes, inclinación,
+ * retroalimentación en vivo de la cámara).
+ *
+ * @param img     Imagen ya cargada o cuadro de video
+ * @param maxSize Lado mayor de la imagen reducida en px
+ * ---------------------------------------------------------
+ */
+export const toGrayscale = (img: PixelSource, maxSize: number): GrayImage => {
+  const { width: naturalWidth, height: naturalHeight } = sourceSize(img);
+  const scale = Math.min(1, maxSize / Math.max(naturalWidth, naturalHeight));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(naturalHeight * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D no disponible');
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const gray = new Float32Array(canvas.width * canvas.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+
+  return { gray, width: canvas.width, height: canvas.height, scale: canvas.width / naturalWidth };
+};
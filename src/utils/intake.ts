@@ -0,0 +1,95 @@
+/**
+ * 📥 intake.ts
+ * =========================================================
+ * 🧰 Entrada de imágenes por portapapeles y arrastre.
+ *
+ * ✅ Lee un `DataTransfer` (de `paste` o `drop`) y obtiene:
+ * - 📁 Archivos (captura de pantalla copiada, archivo arrastrado)
+ * - 🌐 URL de imagen (enlace o `<img>` arrastrado desde otra página)
+ *
+ * 🧠 La validación (tipo / tamaño) NO se hace aquí: todo lo que
+ * sale de estas funciones pasa por `validateImageFile` en
+ * ImageUploader, igual que el selector de archivos.
+ * =========================================================
+ */
+
+/**
+ * 📁 filesFromTransfer
+ * ---------------------------------------------------------
+ * Archivos del portapapeles o del arrastre.
+ *
+ * ⚠️ Al pegar, algunos navegadores solo llenan `items` (no
+ * `files`), por eso se revisan ambos.
+ * ---------------------------------------------------------
+ */
+export const filesFromTransfer = (data: DataTransfer | null): File[] => {
+  if (!data) return [];
+  if (data.files && data.files.length > 0) return Array.from(data.files);
+
+  return Array.from(data.items ?? [])
+    .filter((item) => item.kind === 'file')
+    .map((item) => item.getAsFile())
+    .filter((file): file is File => !!file);
+};
+
+/**
+ * 🌐 isImageUrl
+ * - Solo http(s) y DataURL de imagen.
+ */
+const isImageUrl = (value: string): boolean =>
+  /^https?:\/\//i.test(value) || /^data:image\//i.test(value);
+
+/**
+ * 🌐 imageUrlFromTransfer
+ * ---------------------------------------------------------
+ * URL de imagen en un `DataTransfer`, en orden de preferencia:
+ * 1) `<img src>` del HTML (imagen arrastrada / copiada de una página)
+ * 2) `text/uri-list` (enlace arrastrado)
+ * 3) Texto plano que sea una URL (URL pegada)
+ *
+ * @returns URL absoluta, o null si no hay ninguna
+ * ---------------------------------------------------------
+ */
+export const imageUrlFromTransfer = (data: DataTransfer | null): string | null => {
+  if (!data) return null;
+
+  const html = data.getData('text/html');
+  if (html) {
+    const img = new DOMParser().parseFromString(html, 'text/html').querySelector('img[src]');
+    const src = img?.getAttribute('src')?.trim();
+    if (src && isImageUrl(src)) return src;
+  }
+
+  // 📝 uri-list: una URL por línea, '#' son comentarios
+  const uri = data
+    .getData('text/uri-list')
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .find((line) => line && !line.startsWith('#'));
+  if (uri && isImageUrl(uri)) return uri;
+
+  const text = data.getData('text/plain').trim();
+  if (text && !/\s/.test(text) && isImageUrl(text)) return text;
+
+  return null;
+};
+
+/**
+ * 🏷️ fileNameFromUrl
+ * ---------------------------------------------------------
+ * Nombre para el archivo descargado (último segmento de la
+ * ruta, o "imagen" si no hay uno útil).
+ * ---------------------------------------------------------
+ */
+export const fileNameFromUrl = (url: string, type: string): string => {
+  const extension = type.split('/')[1]?.replace('jpeg', 'jpg') || 'img';
+  if (url.startsWith('data:')) return `imagen-pegada.${extension}`;
+
+  try {
+    const last = decodeURIComponent(new URL(url).pathname.split('/').pop() || '');
+    if (last) return /\.[a-z0-9]+$/i.test(last) ? last : `${last}.${extension}`;
+  } catch {
+    // URL inválida: se usa el nombre genérico
+  }
+  return `imagen.${extension}`;
+};
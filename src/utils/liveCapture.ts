@@ -0,0 +1,195 @@
+/**
+ * 🎯 liveCapture.ts
+ * =========================================================
+ * 🧰 Análisis en vivo de los cuadros de la cámara.
+ *
+ * ✅ Incluye:
+ * - `guideRect`: marco con forma ID-1 donde se acomoda la credencial
+ * - `analyzeFrame`: detecta la tarjeta y revisa distancia,
+ *   inclinación, nitidez y reflejos de un cuadro
+ * - `isStableQuad`: compara dos detecciones seguidas para saber
+ *   si la credencial dejó de moverse (disparo automático)
+ *
+ * 🧠 Funciones puras sobre luminancia (ver `toGrayscale`).
+ * =========================================================
+ */
+
+import { findCorners, ID1_ASPECT, outputSize, type Quad } from './perspective';
+import { glareFraction, laplacianVariance } from './quality';
+
+/** 🔍 Lado mayor del cuadro reducido que se analiza */
+export const FRAME_ANALYSIS_SIZE = 480;
+
+/** 🖼️ Fracción del ancho del cuadro que ocupa el marco guía */
+const GUIDE_FILL = 0.8;
+
+/** 📏 Cobertura aceptable de la tarjeta respecto al marco (ancho) */
+const MIN_COVERAGE = 0.75;
+const MAX_COVERAGE = 1.1;
+
+/** 📐 Giro máximo (grados) y diferencia máxima entre lados opuestos */
+const MAX_ROTATION = 5;
+const MAX_SIDE_RATIO = 0.12;
+
+/**
+ * 🔍 Nitidez mínima en vivo (varianza del laplaciano dentro de la
+ * tarjeta). Menor que la de `QUALITY_THRESHOLDS`: el cuadro es chico
+ * y el video viene comprimido.
+ */
+const MIN_LIVE_SHARPNESS = 60;
+
+/** 🔆 Fracción máxima de reflejo dentro de la tarjeta */
+const MAX_LIVE_GLARE = 0.01;
+
+/** 🤝 Movimiento máximo entre cuadros (fracción del ancho) para considerarse quieta */
+const STABLE_TOLERANCE = 0.02;
+
+/** 📦 Rectángulo en píxeles */
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** 🚦 Estado del cuadro (en orden de prioridad) */
+export type FrameEstado = 'sin_tarjeta' | 'lejos' | 'cerca' | 'inclinada' | 'borrosa' | 'reflejo' | 'lista';
+
+/** 💬 Indicación para el usuario por estado */
+export const FRAME_MESSAGES: Record<FrameEstado, string> = {
+  sin_tarjeta: '🪪 Acomoda la credencial dentro del marco',
+  lejos: '🔍 Acércate un poco',
+  cerca: '↔️ Aléjate un poco',
+  inclinada: '📐 Pon la credencial derecha y paralela a la cámara',
+  borrosa: '🤚 Mantén quieta la cámara (imagen borrosa)',
+  reflejo: '🔆 Hay reflejos: inclina un poco la credencial',
+  lista: '✅ ¡Perfecto! No te muevas'
+};
+
+/**
+ * 🎯 FrameFeedback
+ * - Resultado del análisis de un cuadro.
+ */
+export interface FrameFeedback {
+  estado: FrameEstado;
+  /** 🔲 Esquinas detectadas (px del cuadro reducido) */
+  quad: Quad | null;
+  /** 📏 Ancho de la tarjeta / ancho del marco */
+  cobertura: number;
+  /** 📐 Giro del borde superior (grados) */
+  inclinacion: number;
+  /** 🔍 Varianza del laplaciano dentro de la tarjeta */
+  nitidez: number;
+  /** 🔆 Fracción de reflejo dentro de la tarjeta */
+  reflejos: number;
+}
+
+/**
+ * 🔲 guideRect
+ * ---------------------------------------------------------
+ * Marco ID-1 centrado: ocupa el 80% del ancho del cuadro (o
+ * menos si el cuadro es muy bajo).
+ * ---------------------------------------------------------
+ */
+export const guideRect = (width: number, height: number): Rect => {
+  let guideWidth = width * GUIDE_FILL;
+  let guideHeight = guideWidth / ID1_ASPECT;
+  if (guideHeight > height * GUIDE_FILL) {
+    guideHeight = height * GUIDE_FILL;
+    guideWidth = guideHeight * ID1_ASPECT;
+  }
+  return {
+    x: (width - guideWidth) / 2,
+    y: (height - guideHeight) / 2,
+    width: guideWidth,
+    height: guideHeight
+  };
+};
+
+/**
+ * ✂️ cropGray
+ * - Copia una región de la luminancia (recortada a los bordes).
+ */
+const cropGray = (gray: Float32Array, width: number, height: number, rect: Rect) => {
+  const x0 = Math.max(0, Math.floor(rect.x));
+  const y0 = Math.max(0, Math.floor(rect.y));
+  const x1 = Math.min(width, Math.ceil(rect.x + rect.width));
+  const y1 = Math.min(height, Math.ceil(rect.y + rect.height));
+  const w = Math.max(0, x1 - x0);
+  const h = Math.max(0, y1 - y0);
+
+  const out = new Float32Array(w * h);
+  for (let y = 0; y < h; y++) {
+    out.set(gray.subarray((y0 + y) * width + x0, (y0 + y) * width + x0 + w), y * w);
+  }
+  return { gray: out, width: w, height: h };
+};
+
+/** 📏 Distancia entre dos puntos */
+const distance = (a: { x: number; y: number }, b: { x: number; y: number }) => Math.hypot(b.x - a.x, b.y - a.y);
+
+/**
+ * 🎯 analyzeFrame
+ * ---------------------------------------------------------
+ * Revisa un cuadro de la cámara.
+ *
+ * 🔁 Orden de revisión (el primer problema gana):
+ * 1) ¿Hay tarjeta? 2) distancia 3) inclinación 4) nitidez 5) reflejos
+ *
+ * @param gray   Luminancia del cuadro reducido
+ * @param width  Ancho
+ * @param height Alto
+ * ---------------------------------------------------------
+ */
+export const analyzeFrame = (gray: Float32Array, width: number, height: number): FrameFeedback => {
+  const quad = findCorners(gray, width, height);
+  const empty: FrameFeedback = { estado: 'sin_tarjeta', quad: null, cobertura: 0, inclinacion: 0, nitidez: 0, reflejos: 0 };
+  if (!quad) return empty;
+
+  const [tl, tr, br, bl] = quad;
+  const guide = guideRect(width, height);
+  const card = outputSize(quad);
+  const cobertura = card.width / guide.width;
+  const inclinacion = (Math.atan2(tr.y - tl.y, tr.x - tl.x) * 180) / Math.PI;
+
+  const top = distance(tl, tr);
+  const bottom = distance(bl, br);
+  const left = distance(tl, bl);
+  const right = distance(tr, br);
+  const perspective = Math.max(
+    Math.abs(top - bottom) / Math.max(top, bottom),
+    Math.abs(left - right) / Math.max(left, right)
+  );
+
+  const xs = quad.map((p) => p.x);
+  const ys = quad.map((p) => p.y);
+  const region = cropGray(gray, width, height, {
+    x: Math.min(...xs),
+    y: Math.min(...ys),
+    width: Math.max(...xs) - Math.min(...xs),
+    height: Math.max(...ys) - Math.min(...ys)
+  });
+  const nitidez = laplacianVariance(region.gray, region.width, region.height);
+  const reflejos = glareFraction(region.gray, region.width, region.height);
+
+  let estado: FrameEstado = 'lista';
+  if (cobertura < MIN_COVERAGE) estado = 'lejos';
+  else if (cobertura > MAX_COVERAGE) estado = 'cerca';
+  else if (Math.abs(inclinacion) > MAX_ROTATION || perspective > MAX_SIDE_RATIO) estado = 'inclinada';
+  else if (nitidez < MIN_LIVE_SHARPNESS) estado = 'borrosa';
+  else if (reflejos > MAX_LIVE_GLARE) estado = 'reflejo';
+
+  return { estado, quad, cobertura, inclinacion, nitidez, reflejos };
+};
+
+/**
+ * 🤝 isStableQuad
+ * ---------------------------------------------------------
+ * true si ninguna esquina se movió más del 2% del ancho del
+ * cuadro entre dos detecciones.
+ * ---------------------------------------------------------
+ */
+export const isStableQuad = (previous: Quad | null, current: Quad | null, width: number): boolean => {
+  if (!previous || !current) return false;
+  return current.every((point, i) => distance(point, previous[i]) <= width * STABLE_TOLERANCE);
+};
@@ -0,0 +1,220 @@
+/**
+ * 🧾 mrz.ts
+ * =========================================================
+ * 🔍 Parser del MRZ TD1 (reverso de la INE) + dígitos de control.
+ *
+ * Formato TD1 (ICAO 9303, parte 5): 3 líneas de 30 caracteres.
+ *
+ * 📐 Línea 1:
+ * - 1-2   Código de documento ("ID")
+ * - 3-5   Estado emisor ("MEX")
+ * - 6-14  Número de documento (CIC)
+ * - 15    Dígito de control del número de documento
+ * - 16-30 Datos opcionales
+ *
+ * 📐 Línea 2:
+ * - 1-6   Fecha de nacimiento (YYMMDD)
+ * - 7     Dígito de control de nacimiento
+ * - 8     Sexo
+ * - 9-14  Fecha de expiración (YYMMDD)
+ * - 15    Dígito de control de expiración
+ * - 16-18 Nacionalidad
+ * - 19-29 Datos opcionales
+ * - 30    Dígito de control compuesto
+ *
+ * 📐 Línea 3:
+ * - PATERNO<MATERNO<<NOMBRE<NOMBRE
+ *
+ * 🎯 Objetivo:
+ * - Verificar en el cliente la lectura del backend, sin confiar
+ *   únicamente en su bandera `es_ine`.
+ * =========================================================
+ */
+
+import type { MRZCheckDigit, MRZData } from '../types';
+
+/** 📏 Longitud de cada línea TD1 */
+const TD1_LENGTH = 30;
+
+/** ⚖️ Pesos cíclicos del dígito de control ICAO */
+const WEIGHTS = [7, 3, 1];
+
+/**
+ * 🧮 charValue
+ * ---------------------------------------------------------
+ * Valor numérico de un carácter MRZ:
+ * - '0'-'9' -> 0-9
+ * - 'A'-'Z' -> 10-35
+ * - '<'     -> 0
+ * ---------------------------------------------------------
+ */
+const charValue = (char: string): number => {
+  if (char >= '0' && char <= '9') return char.charCodeAt(0) - 48;
+  if (char >= 'A' && char <= 'Z') return char.charCodeAt(0) - 55;
+  return 0;
+};
+
+/**
+ * 🔢 computeCheckDigit
+ * ---------------------------------------------------------
+ * Calcula el dígito de control ICAO 9303 (pesos 7-3-1, módulo 10).
+ *
+ * @param value Caracteres del campo
+ * @returns Dígito calculado como string ("0".."9")
+ * ---------------------------------------------------------
+ */
+export const computeCheckDigit = (value: string): string => {
+  const sum = value
+    .split('')
+    .reduce((acc, char, index) => acc + charValue(char) * WEIGHTS[index % 3], 0);
+  return String(sum % 10);
+};
+
+/**
+ * 🧼 normalizeLine
+ * ---------------------------------------------------------
+ * Limpia una línea MRZ leída por OCR:
+ * - Mayúsculas, sin espacios
+ * - Rellena con `<` o recorta a 30 caracteres
+ * ---------------------------------------------------------
+ */
+const normalizeLine = (line: string | undefined): string =>
+  (line || '').toUpperCase().replace(/\s+/g, '').padEnd(TD1_LENGTH, '<').slice(0, TD1_LENGTH);
+
+/**
+ * 🧹 stripFiller
+ * - Quita el relleno `<` y lo convierte en espacios simples.
+ */
+const stripFiller = (value: string): string => value.replace(/</g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * 📅 decodeDate
+ * ---------------------------------------------------------
+ * Convierte YYMMDD a ISO `YYYY-MM-DD`.
+ *
+ * 🧠 Siglo:
+ * - Expiración: siempre 20YY
+ * - Nacimiento: 20YY si no queda en el futuro, si no 19YY
+ *
+ * @param value    YYMMDD
+ * @param isExpiry true para fecha de expiración
+ * @returns Fecha ISO o '' si no es válida
+ * ---------------------------------------------------------
+ */
+export const decodeDate = (value: string, isExpiry: boolean): string => {
+  if (!/^\d{6}$/.test(value)) return '';
+
+  const yy = Number(value.slice(0, 2));
+  const mm = Number(value.slice(2, 4));
+  const dd = Number(value.slice(4, 6));
+  if (mm < 1 || mm > 12 || dd < 1 || dd > 31) return '';
+
+  const currentYY = new Date().getFullYear() % 100;
+  const century = isExpiry || yy <= currentYY ? 2000 : 1900;
+
+  return `${century + yy}-${value.slice(2, 4)}-${value.slice(4, 6)}`;
+};
+
+/**
+ * ✅ buildCheck
+ * - Construye el resultado de un dígito de control.
+ */
+const buildCheck = (campo: string, valor: string, leido: string): MRZCheckDigit => {
+  const calculado = computeCheckDigit(valor);
+  return { campo, valor, leido, calculado, valido: leido === calculado };
+};
+
+/**
+ * 🧾 parseMRZ
+ * ---------------------------------------------------------
+ * Decodifica el MRZ TD1 y verifica sus 4 dígitos de control:
+ * - Número de documento
+ * - Fecha de nacimiento
+ * - Fecha de expiración
+ * - Compuesto (línea 1 [6-30] + línea 2 [1-7, 9-15, 19-29])
+ *
+ * @param linea1 Línea 1 del MRZ (ej. "IDMEX1234567897<<...")
+ * @param linea2 Línea 2 del MRZ
+ * @param linea3 Línea 3 del MRZ (opcional, nombres)
+ * @returns MRZ decodificado con checks y errores
+ * ---------------------------------------------------------
+ */
+export const parseMRZ = (linea1: string, linea2: string, linea3?: string): MRZData => {
+  const errores: string[] = [];
+  const rawLengths = [linea1, linea2].map((l) => (l || '').replace(/\s+/g, '').length);
+
+  rawLengths.forEach((length, index) => {
+    if (length !== TD1_LENGTH) {
+      errores.push(`La línea ${index + 1} tiene ${length} caracteres (se esperan ${TD1_LENGTH})`);
+    }
+  });
+
+  const l1 = normalizeLine(linea1);
+  const l2 = normalizeLine(linea2);
+
+  const tipo_documento = stripFiller(l1.slice(0, 2));
+  const pais_emisor = stripFiller(l1.slice(2, 5));
+  const numeroRaw = l1.slice(5, 14);
+  const fechaNacRaw = l2.slice(0, 6);
+  const fechaExpRaw = l2.slice(8, 14);
+
+  const checks: MRZCheckDigit[] = [
+    buildCheck('Número de documento', numeroRaw, l1.charAt(14)),
+    buildCheck('Fecha de nacimiento', fechaNacRaw, l2.charAt(6)),
+    buildCheck('Fecha de expiración', fechaExpRaw, l2.charAt(14)),
+    buildCheck(
+      'Compuesto',
+      l1.slice(5, 30) + l2.slice(0, 7) + l2.slice(8, 15) + l2.slice(18, 29),
+      l2.charAt(29)
+    )
+  ];
+
+  const fecha_nacimiento = decodeDate(fechaNacRaw, false);
+  const fecha_expiracion = decodeDate(fechaExpRaw, true);
+  if (!fecha_nacimiento) errores.push('Fecha de nacimiento no válida en el MRZ');
+  if (!fecha_expiracion) errores.push('Fecha de expiración no válida en el MRZ');
+
+  const es_idmex = tipo_documento === 'ID' && pais_emisor === 'MEX';
+  if (!es_idmex) errores.push('El MRZ no inicia con "IDMEX"');
+
+  // 👤 Línea 3 (nombres): PATERNO<MATERNO<<NOMBRES
+  let apellido_paterno = '';
+  let apellido_materno = '';
+  let nombres = '';
+  if (linea3) {
+    const l3 = normalizeLine(linea3);
+    const [apellidos = ''] = l3.split('<<');
+    const [paterno = '', ...materno] = apellidos.split('<');
+    apellido_paterno = stripFiller(paterno);
+    apellido_materno = stripFiller(materno.join('<'));
+    nombres = stripFiller(l3.slice(apellidos.length + 2));
+  }
+
+  return {
+    tipo_documento,
+    pais_emisor,
+    numero_documento: stripFiller(numeroRaw),
+    datos_opcionales_1: stripFiller(l1.slice(15, 30)),
+    fecha_nacimiento,
+    sexo: stripFiller(l2.charAt(7)),
+    fecha_expiracion,
+    nacionalidad: stripFiller(l2.slice(15, 18)),
+    datos_opcionales_2: stripFiller(l2.slice(18, 29)),
+    apellido_paterno,
+    apellido_materno,
+    nombres,
+    es_idmex,
+    checks,
+    errores
+  };
+};
+
+/**
+ * ✅ isMRZValid
+ * ---------------------------------------------------------
+ * El MRZ es válido si es IDMEX, no tiene errores estructurales
+ * y todos sus dígitos de control coinciden.
+ * ---------------------------------------------------------
+ */
+export const isMRZValid = (mrz: MRZData): boolean =>
+  mrz.es_idmex && mrz.errores.length === 0 && mrz.checks.every((c) => c.valido);
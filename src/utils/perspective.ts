@@ -0,0 +1,354 @@
+/**
+ * 📐 perspective.ts
+ * =========================================================
+ * 🧰 Detección de bordes de la credencial y corrección de
+ * perspectiva (todo en el navegador, sin backend).
+ *
+ * 🔁 Flujo:
+ * 1) `detectDocumentCorners(img)` busca las 4 esquinas de la tarjeta
+ * 2) El usuario ajusta las esquinas en el editor
+ * 3) `warpPerspective(img, quad)` endereza la tarjeta a un
+ *    rectángulo ID-1 (85.6 × 53.98 mm)
+ *
+ * 🧠 Coordenadas siempre en píxeles NATURALES de la imagen.
+ * =========================================================
+ */
+
+import { otsuThreshold, toGrayscale } from './image';
+
+/** 📏 Proporción ID-1 (ancho / alto) de la credencial */
+export const ID1_ASPECT = 85.6 / 53.98;
+
+/** 🔍 Lado mayor de la imagen reducida usada para detectar */
+const DETECT_SIZE = 400;
+
+/** 🖼️ Lado mayor máximo de la imagen enderezada */
+const MAX_OUTPUT_SIZE = 2000;
+
+/** 📊 Área mínima (fracción de la imagen) para aceptar una detección */
+const MIN_AREA_RATIO = 0.15;
+
+/** 📍 Punto en píxeles */
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * 🔲 Quad
+ * - Esquinas en orden: superior izq., superior der.,
+ *   inferior der., inferior izq.
+ */
+export type Quad = [Point, Point, Point, Point];
+
+/**
+ * 🔲 defaultQuad
+ * ---------------------------------------------------------
+ * Cuadrilátero inicial cuando no se detectan bordes:
+ * la imagen completa con un margen del 5%.
+ * ---------------------------------------------------------
+ */
+export const defaultQuad = (width: number, height: number): Quad => {
+  const mx = width * 0.05;
+  const my = height * 0.05;
+  return [
+    { x: mx, y: my },
+    { x: width - mx, y: my },
+    { x: width - mx, y: height - my },
+    { x: mx, y: height - my }
+  ];
+};
+
+/**
+ * 📐 quadArea
+ * - Área del cuadrilátero (fórmula del zapatero).
+ */
+export const quadArea = (quad: Quad): number => {
+  let sum = 0;
+  quad.forEach((p, i) => {
+    const q = quad[(i + 1) % 4];
+    sum += p.x * q.y - q.x * p.y;
+  });
+  return Math.abs(sum) / 2;
+};
+
+/**
+ * ✅ isConvexQuad
+ * - true si las 4 esquinas forman un cuadrilátero convexo
+ *   (todas las vueltas hacia el mismo lado).
+ */
+export const isConvexQuad = (quad: Quad): boolean => {
+  const signs = quad.map((p, i) => {
+    const q = quad[(i + 1) % 4];
+    const r = quad[(i + 2) % 4];
+    return Math.sign((q.x - p.x) * (r.y - q.y) - (q.y - p.y) * (r.x - q.x));
+  });
+  return signs.every((s) => s !== 0 && s === signs[0]);
+};
+
+/** 📏 Distancia entre dos puntos */
+const distance = (a: Point, b: Point): number => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * 🖼️ outputSize
+ * ---------------------------------------------------------
+ * Tamaño del rectángulo ID-1 de salida según el cuadrilátero.
+ * Si la tarjeta está en vertical, la salida también lo está.
+ * ---------------------------------------------------------
+ */
+export const outputSize = ([tl, tr, br, bl]: Quad): { width: number; height: number } => {
+  const width = Math.max(distance(tl, tr), distance(bl, br));
+  const height = Math.max(distance(tl, bl), distance(tr, br));
+
+  if (width >= height) {
+    const w = Math.round(Math.min(width, MAX_OUTPUT_SIZE));
+    return { width: w, height: Math.round(w / ID1_ASPECT) };
+  }
+  const h = Math.round(Math.min(height, MAX_OUTPUT_SIZE));
+  return { width: Math.round(h / ID1_ASPECT), height: h };
+};
+
+/**
+ * 🧮 solveHomography
+ * ---------------------------------------------------------
+ * Calcula la homografía que lleva cada punto de `from` a `to`.
+ *
+ * Resuelve el sistema lineal 8×8 con eliminación gaussiana.
+ *
+ * @returns Coeficientes [a, b, c, d, e, f, g, h] tales que:
+ *   x' = (a·x + b·y + c) / (g·x + h·y + 1)
+ *   y' = (d·x + e·y + f) / (g·x + h·y + 1)
+ * ---------------------------------------------------------
+ */
+export const solveHomography = (from: Quad, to: Quad): number[] => {
+  const rows: number[][] = [];
+  from.forEach(({ x, y }, i) => {
+    const { x: u, y: v } = to[i];
+    rows.push([x, y, 1, 0, 0, 0, -x * u, -y * u, u]);
+    rows.push([0, 0, 0, x, y, 1, -x * v, -y * v, v]);
+  });
+
+  for (let col = 0; col < 8; col++) {
+    // 🎯 Pivote parcial
+    let pivot = col;
+    for (let r = col + 1; r < 8; r++) {
+      if (Math.abs(rows[r][col]) > Math.abs(rows[pivot][col])) pivot = r;
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-10) {
+      throw new Error('Las esquinas no forman un cuadrilátero válido');
+    }
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+
+    for (let r = 0; r < 8; r++) {
+      if (r === col) continue;
+      const factor = rows[r][col] / rows[col][col];
+      for (let c = col; c < 9; c++) rows[r][c] -= factor * rows[col][c];
+    }
+  }
+
+  return rows.map((row, i) => row[8] / row[i]);
+};
+
+/**
+ * 📍 applyHomography
+ * - Transforma un punto con los coeficientes de `solveHomography`.
+ */
+export const applyHomography = (h: number[], { x, y }: Point): Point => {
+  const w = h[6] * x + h[7] * y + 1;
+  return {
+    x: (h[0] * x + h[1] * y + h[2]) / w,
+    y: (h[3] * x + h[4] * y + h[5]) / w
+  };
+};
+
+/**
+ * 🔍 findCorners
+ * ---------------------------------------------------------
+ * Detecta las esquinas de la tarjeta en una imagen en grises.
+ *
+ * 🔁 Pasos:
+ * 1) Suavizado 3×3 para quitar ruido
+ * 2) Gradiente Sobel + umbral de Otsu -> mapa de bordes
+ * 3) Componente conectado de bordes con la caja más grande
+ *    (el contorno de la tarjeta; el texto forma manchas chicas)
+ * 4) Esquinas = puntos extremos en las diagonales (x±y)
+ *
+ * @param gray   Luminancia (0-255), fila por fila
+ * @param width  Ancho de la imagen
+ * @param height Alto de la imagen
+ * @returns Esquinas, o `null` si no hay un contorno convincente
+ * ---------------------------------------------------------
+ */
+export const findCorners = (gray: Float32Array, width: number, height: number): Quad | null => {
+  const index = (x: number, y: number) => y * width + x;
+
+  // 1) 🌫️ Suavizado
+  const blurred = new Float32Array(gray.length);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      let sum = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) sum += gray[index(x + dx, y + dy)];
+      }
+      blurred[index(x, y)] = sum / 9;
+    }
+  }
+
+  // 2) 🧭 Sobel
+  const magnitude = new Float32Array(gray.length);
+  let maxMagnitude = 0;
+  for (let y = 2; y < height - 2; y++) {
+    for (let x = 2; x < width - 2; x++) {
+      const gx =
+        blurred[index(x + 1, y - 1)] + 2 * blurred[index(x + 1, y)] + blurred[index(x + 1, y + 1)] -
+        blurred[index(x - 1, y - 1)] - 2 * blurred[index(x - 1, y)] - blurred[index(x - 1, y + 1)];
+      const gy =
+        blurred[index(x - 1, y + 1)] + 2 * blurred[index(x, y + 1)] + blurred[index(x + 1, y + 1)] -
+        blurred[index(x - 1, y - 1)] - 2 * blurred[index(x, y - 1)] - blurred[index(x + 1, y - 1)];
+      const value = Math.hypot(gx, gy);
+      magnitude[index(x, y)] = value;
+      if (value > maxMagnitude) maxMagnitude = value;
+    }
+  }
+  if (maxMagnitude === 0) return null;
+
+  const histogram = new Array<number>(256).fill(0);
+  magnitude.forEach((value) => histogram[Math.round((value / maxMagnitude) * 255)]++);
+  const threshold = (otsuThreshold(histogram, magnitude.length) / 255) * maxMagnitude;
+
+  // 3) 🧩 Componentes conectados (8 vecinos)
+  const visited = new Uint8Array(gray.length);
+  const stack: number[] = [];
+  let best: { area: number; quad: Quad } | null = null;
+
+  for (let start = 0; start < magnitude.length; start++) {
+    if (visited[start] || magnitude[start] <= threshold) continue;
+
+    visited[start] = 1;
+    stack.push(start);
+    let minX = width, maxX = 0, minY = height, maxY = 0;
+    // 4) 📍 Extremos en diagonales: tl=min(x+y) tr=max(x-y) br=max(x+y) bl=min(x-y)
+    const sx = start % width;
+    const sy = Math.floor(start / width);
+    const quad: Quad = [{ x: sx, y: sy }, { x: sx, y: sy }, { x: sx, y: sy }, { x: sx, y: sy }];
+
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      const x = current % width;
+      const y = Math.floor(current / width);
+
+      minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+      if (x + y < quad[0].x + quad[0].y) quad[0] = { x, y };
+      if (x - y > quad[1].x - quad[1].y) quad[1] = { x, y };
+      if (x + y > quad[2].x + quad[2].y) quad[2] = { x, y };
+      if (x - y < quad[3].x - quad[3].y) quad[3] = { x, y };
+
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const next = index(nx, ny);
+          if (visited[next] || magnitude[next] <= threshold) continue;
+          visited[next] = 1;
+          stack.push(next);
+        }
+      }
+    }
+
+    const area = (maxX - minX) * (maxY - minY);
+    if (!best || area > best.area) best = { area, quad };
+  }
+
+  if (!best) return null;
+  if (!isConvexQuad(best.quad)) return null;
+  if (quadArea(best.quad) < width * height * MIN_AREA_RATIO) return null;
+  return best.quad;
+};
+
+/**
+ * 🔍 detectDocumentCorners
+ * ---------------------------------------------------------
+ * Reduce la imagen, la pasa a grises y busca las esquinas.
+ *
+ * @param img Imagen ya cargada
+ * @returns Esquinas en píxeles naturales, o `null` si no se detectan
+ * ---------------------------------------------------------
+ */
+export const detectDocumentCorners = (img: HTMLImageElement): Quad | null => {
+  const { gray, width, height, scale } = toGrayscale(img, DETECT_SIZE);
+
+  const quad = findCorners(gray, width, height);
+  if (!quad) return null;
+
+  return quad.map(({ x, y }) => ({ x: x / scale, y: y / scale })) as Quad;
+};
+
+/**
+ * 🪄 warpPerspective
+ * ---------------------------------------------------------
+ * Endereza el cuadrilátero `quad` a un rectángulo ID-1.
+ *
+ * 🧠 Mapeo inverso: por cada píxel de salida se calcula su
+ * posición en la imagen original y se interpola (bilineal).
+ *
+ * @param img  Imagen original ya cargada
+ * @param quad Esquinas de la tarjeta en píxeles naturales
+ * @returns Canvas con la tarjeta enderezada
+ * ---------------------------------------------------------
+ */
+export const warpPerspective = (img: HTMLImageElement, quad: Quad): HTMLCanvasElement => {
+  const srcWidth = img.naturalWidth || img.width;
+  const srcHeight = img.naturalHeight || img.height;
+
+  const source = document.createElement('canvas');
+  source.width = srcWidth;
+  source.height = srcHeight;
+  const srcCtx = source.getContext('2d');
+  if (!srcCtx) throw new Error('Canvas 2D no disponible');
+  srcCtx.drawImage(img, 0, 0);
+  const src = srcCtx.getImageData(0, 0, srcWidth, srcHeight).data;
+
+  const { width, height } = outputSize(quad);
+  const target: Quad = [
+    { x: 0, y: 0 },
+    { x: width - 1, y: 0 },
+    { x: width - 1, y: height - 1 },
+    { x: 0, y: height - 1 }
+  ];
+  const h = solveHomography(target, quad);
+
+  const output = document.createElement('canvas');
+  output.width = width;
+  output.height = height;
+  const outCtx = output.getContext('2d');
+  if (!outCtx) throw new Error('Canvas 2D no disponible');
+  const result = outCtx.createImageData(width, height);
+  const out = result.data;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = applyHomography(h, { x, y });
+      const sx = Math.min(Math.max(p.x, 0), srcWidth - 1);
+      const sy = Math.min(Math.max(p.y, 0), srcHeight - 1);
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const x1 = Math.min(x0 + 1, srcWidth - 1);
+      const y1 = Math.min(y0 + 1, srcHeight - 1);
+      const fx = sx - x0;
+      const fy = sy - y0;
+
+      const o = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        const top = src[(y0 * srcWidth + x0) * 4 + c] * (1 - fx) + src[(y0 * srcWidth + x1) * 4 + c] * fx;
+        const bottom = src[(y1 * srcWidth + x0) * 4 + c] * (1 - fx) + src[(y1 * srcWidth + x1) * 4 + c] * fx;
+        out[o + c] = top * (1 - fy) + bottom * fy;
+      }
+      out[o + 3] = 255;
+    }
+  }
+
+  outCtx.putImageData(result, 0, 0);
+  return output;
+};
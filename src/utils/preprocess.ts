@@ -0,0 +1,265 @@
+/**
+ * 🧪 preprocess.ts
+ * =========================================================
+ * 🧰 Filtros locales orientados a OCR + presets con nombre.
+ *
+ * ✅ Filtros (sobre píxeles RGBA, in place):
+ * - 🌑 grayscale: escala de grises (luminancia)
+ * - ⚫ adaptiveThreshold: binarización por vecindario (Bradley)
+ * - 🧽 medianDenoise: mediana 3×3 (quita “sal y pimienta”)
+ * - 🔆 suppressGlare: rellena reflejos especulares con su entorno
+ *
+ * 🧠 Son funciones puras (sin DOM) para poder correrlas dentro
+ * de un Web Worker (`workers/preprocess.worker.ts`).
+ * =========================================================
+ */
+
+import type { PixelBuffer } from './adjustments';
+
+/** 🧩 Paso de preprocesamiento */
+export type PreprocessStep = 'grayscale' | 'threshold' | 'denoise' | 'glare';
+
+/**
+ * 🧪 PreprocessPreset
+ * - Combinación de pasos con nombre, seleccionable en PreviewPanel.
+ */
+export interface PreprocessPreset {
+  id: string;
+  nombre: string;
+  descripcion: string;
+  pasos: PreprocessStep[];
+}
+
+/** 🧪 Presets disponibles (en orden de menor a mayor agresividad) */
+export const PREPROCESS_PRESETS: PreprocessPreset[] = [
+  { id: 'grises', nombre: '🌑 Escala de grises', descripcion: 'Quita el color de fondo de la credencial', pasos: ['grayscale'] },
+  { id: 'sin_ruido', nombre: '🧽 Sin ruido', descripcion: 'Mediana 3×3 para fotos con grano', pasos: ['denoise'] },
+  { id: 'sin_reflejos', nombre: '🔆 Sin reflejos', descripcion: 'Rellena brillos del holograma o la mica', pasos: ['glare'] },
+  { id: 'binarizada', nombre: '⚫ Binarizada', descripcion: 'Texto negro sobre blanco (umbral adaptativo)', pasos: ['grayscale', 'denoise', 'threshold'] },
+  { id: 'ocr', nombre: '🧪 OCR completo', descripcion: 'Sin reflejos + sin ruido + binarizada', pasos: ['glare', 'denoise', 'grayscale', 'threshold'] }
+];
+
+/** ⚫ Ventana del umbral adaptativo (fracción del lado menor) */
+const THRESHOLD_WINDOW_RATIO = 1 / 16;
+
+/** ⚫ Qué tan por debajo del promedio local debe estar un píxel para ser tinta (%) */
+const THRESHOLD_SENSITIVITY = 0.15;
+
+/** 🔆 Brillo mínimo (0-255) y saturación máxima (0-1) de un reflejo */
+const GLARE_MIN_VALUE = 235;
+const GLARE_MAX_SATURATION = 0.18;
+
+/**
+ * 🌑 grayscale
+ * - Convierte a grises (luminancia Rec. 601).
+ */
+export const grayscale = ({ data }: PixelBuffer): void => {
+  for (let i = 0; i < data.length; i += 4) {
+    const luma = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    data[i] = data[i + 1] = data[i + 2] = luma;
+  }
+};
+
+/**
+ * 🧮 integral
+ * ---------------------------------------------------------
+ * Imagen integral (sumas acumuladas) de `values`, con una fila
+ * y columna extra en cero. Permite sumar cualquier rectángulo
+ * en O(1).
+ *
+ * 🧠 Uint32 alcanza para imágenes de hasta ~16 MP con valores
+ * de 8 bits y ocupa la mitad que Float64.
+ * ---------------------------------------------------------
+ */
+const integral = (values: Uint8Array | Uint8ClampedArray, width: number, height: number): Uint32Array => {
+  const sums = new Uint32Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let row = 0;
+    for (let x = 0; x < width; x++) {
+      row += values[y * width + x];
+      sums[(y + 1) * (width + 1) + x + 1] = sums[y * (width + 1) + x + 1] + row;
+    }
+  }
+  return sums;
+};
+
+/**
+ * 📦 boxSum
+ * - Suma de un rectángulo [x0, x1) × [y0, y1) usando la integral.
+ */
+const boxSum = (sums: Uint32Array, width: number, x0: number, y0: number, x1: number, y1: number): number => {
+  const w = width + 1;
+  return sums[y1 * w + x1] - sums[y0 * w + x1] - sums[y1 * w + x0] + sums[y0 * w + x0];
+};
+
+/**
+ * ⚫ adaptiveThreshold
+ * ---------------------------------------------------------
+ * Binarización de Bradley: un píxel es tinta si es más oscuro
+ * que el promedio de su vecindario menos un porcentaje.
+ * Tolera iluminación desigual (sombras, degradados de la INE).
+ * ---------------------------------------------------------
+ */
+export const adaptiveThreshold = ({ data, width, height }: PixelBuffer): void => {
+  const luma = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  const sums = integral(luma, width, height);
+  const half = Math.max(4, Math.round(Math.min(width, height) * THRESHOLD_WINDOW_RATIO));
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half);
+    const y1 = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half);
+      const x1 = Math.min(width, x + half + 1);
+      const mean = boxSum(sums, width, x0, y0, x1, y1) / ((x1 - x0) * (y1 - y0));
+      const value = luma[y * width + x] < mean * (1 - THRESHOLD_SENSITIVITY) ? 0 : 255;
+      const i = (y * width + x) * 4;
+      data[i] = data[i + 1] = data[i + 2] = value;
+    }
+  }
+};
+
+/**
+ * 🧽 medianDenoise
+ * ---------------------------------------------------------
+ * Mediana 3×3 por canal. Elimina puntos aislados sin
+ * difuminar tanto los bordes de las letras como un blur.
+ * ---------------------------------------------------------
+ */
+export const medianDenoise = ({ data, width, height }: PixelBuffer): void => {
+  const source = Uint8ClampedArray.from(data);
+  const sorted = new Uint8Array(9);
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = (y * width + x) * 4;
+      for (let ch = 0; ch < 3; ch++) {
+        let n = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            // 🔢 Inserción ordenada (9 valores)
+            const value = source[((y + dy) * width + x + dx) * 4 + ch];
+            let j = n++;
+            while (j > 0 && sorted[j - 1] > value) {
+              sorted[j] = sorted[j - 1];
+              j--;
+            }
+            sorted[j] = value;
+          }
+        }
+        data[i + ch] = sorted[4];
+      }
+    }
+  }
+};
+
+/**
+ * 🔆 suppressGlare
+ * ---------------------------------------------------------
+ * Quita reflejos especulares (zonas casi blancas y sin color).
+ *
+ * 🔁 Pasos:
+ * 1) Máscara de reflejo: brillo alto + saturación baja
+ * 2) Se ensancha la máscara para cubrir el halo
+ * 3) Cada píxel enmascarado toma el promedio de los píxeles
+ *    NO enmascarados de su alrededor (ventana creciente)
+ *
+ * @returns Fracción de la imagen que se consideró reflejo
+ * ---------------------------------------------------------
+ */
+export const suppressGlare = ({ data, width, height }: PixelBuffer): number => {
+  const total = width * height;
+  const raw = new Uint8Array(total);
+
+  for (let p = 0; p < total; p++) {
+    const r = data[p * 4];
+    const g = data[p * 4 + 1];
+    const b = data[p * 4 + 2];
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const saturation = max === 0 ? 0 : (max - min) / max;
+    raw[p] = max >= GLARE_MIN_VALUE && saturation <= GLARE_MAX_SATURATION ? 1 : 0;
+  }
+
+  // 2) ➕ Ensanchar (dilatar) la máscara
+  const grow = Math.max(2, Math.round(Math.min(width, height) / 200));
+  const rawSums = integral(raw, width, height);
+  const mask = new Uint8Array(total);
+  let masked = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const inside = boxSum(
+        rawSums, width,
+        Math.max(0, x - grow), Math.max(0, y - grow),
+        Math.min(width, x + grow + 1), Math.min(height, y + grow + 1)
+      );
+      if (inside > 0) {
+        mask[y * width + x] = 1;
+        masked++;
+      }
+    }
+  }
+  if (masked === 0 || masked === total) return masked / total;
+
+  // 3) 🩹 Rellenar con el promedio de los vecinos válidos
+  const valid = new Uint8Array(total);
+  const channels = [0, 1, 2].map(() => new Uint8Array(total));
+  for (let p = 0; p < total; p++) {
+    if (mask[p]) continue;
+    valid[p] = 1;
+    channels.forEach((channel, ch) => { channel[p] = data[p * 4 + ch]; });
+  }
+  const validSums = integral(valid, width, height);
+  const channelSums = channels.map((channel) => integral(channel, width, height));
+
+  const baseRadius = Math.max(4, Math.round(Math.min(width, height) / 40));
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      if (!mask[p]) continue;
+
+      for (let radius = baseRadius; radius <= baseRadius * 8; radius *= 2) {
+        const x0 = Math.max(0, x - radius);
+        const y0 = Math.max(0, y - radius);
+        const x1 = Math.min(width, x + radius + 1);
+        const y1 = Math.min(height, y + radius + 1);
+        const count = boxSum(validSums, width, x0, y0, x1, y1);
+        if (count === 0) continue;
+        channelSums.forEach((sums, ch) => {
+          data[p * 4 + ch] = boxSum(sums, width, x0, y0, x1, y1) / count;
+        });
+        break;
+      }
+    }
+  }
+
+  return masked / total;
+};
+
+/**
+ * 🧪 runPreprocess
+ * ---------------------------------------------------------
+ * Aplica los pasos en orden sobre los píxeles (in place).
+ *
+ * @param pixels Píxeles RGBA
+ * @param steps  Pasos del preset
+ * ---------------------------------------------------------
+ */
+export const runPreprocess = (pixels: PixelBuffer, steps: PreprocessStep[]): void => {
+  steps.forEach((step) => {
+    if (step === 'grayscale') grayscale(pixels);
+    if (step === 'threshold') adaptiveThreshold(pixels);
+    if (step === 'denoise') medianDenoise(pixels);
+    if (step === 'glare') suppressGlare(pixels);
+  });
+};
+
+/**
+ * 🔎 findPreset
+ * - Busca un preset por id.
+ */
+export const findPreset = (id: string): PreprocessPreset | undefined =>
+  PREPROCESS_PRESETS.find((preset) => preset.id === id);
@@ -0,0 +1,271 @@
+/**
+ * 🔎 quality.ts
+ * =========================================================
+ * 🧰 Analizador de calidad de captura (antes de mandar al OCR).
+ *
+ * ✅ Revisa:
+ * - 🔍 Nitidez: varianza del laplaciano (foto movida / desenfocada)
+ * - ☀️ Exposición: brillo promedio (muy oscura / muy clara)
+ * - 🔆 Reflejos: zonas quemadas dentro de la credencial
+ * - 📏 Resolución: tamaño efectivo de la tarjeta en píxeles
+ * - 📐 Inclinación: ángulo estimado de las líneas de texto
+ *
+ * 🧠 `measureQuality` mide y `assessQuality` decide; así los
+ * umbrales (`QUALITY_THRESHOLDS`) se ajustan en un solo lugar.
+ * =========================================================
+ */
+
+import type { QualityCheck, QualityNivel, QualityReport } from '../types';
+import { loadImage, toGrayscale } from './image';
+import { detectDocumentCorners, outputSize } from './perspective';
+import { estimateSkew } from './rotation';
+
+/** 🔍 Lado mayor de la imagen reducida para el análisis */
+const ANALYSIS_SIZE = 800;
+
+/** ⚫ Luminancia a partir de la cual un píxel se considera quemado */
+const CLIPPED_LUMA = 250;
+
+/**
+ * 🎚️ QUALITY_THRESHOLDS
+ * ---------------------------------------------------------
+ * Umbrales por aspecto. `ok` = puntaje 100; `bloqueo` = no se
+ * envía al OCR. Los aspectos sin `bloqueo` solo advierten.
+ * ---------------------------------------------------------
+ */
+export const QUALITY_THRESHOLDS = {
+  /** 🔍 Varianza del laplaciano (imagen a 800px) */
+  nitidez: { ok: 100, bloqueo: 20 },
+  /** ☀️ Brillo promedio (0-255) aceptable y extremos */
+  exposicion: { min: 70, max: 200, bloqueoMin: 35, bloqueoMax: 235 },
+  /** 🔆 Fracción de la imagen con reflejo */
+  reflejos: { ok: 0.005, advertencia: 0.02, peor: 0.15 },
+  /** 📏 Lado mayor de la credencial en px */
+  resolucion: { ok: 900, bloqueo: 400 },
+  /** 📐 Grados de inclinación */
+  inclinacion: { ok: 1, advertencia: 2, peor: 10 }
+};
+
+/**
+ * 📊 QualityMetrics
+ * - Mediciones crudas de una imagen (sin veredicto).
+ */
+export interface QualityMetrics {
+  /** 🔍 Varianza del laplaciano */
+  nitidez: number;
+  /** ☀️ Brillo promedio (0-255) */
+  brillo: number;
+  /** 🔆 Fracción de píxeles quemados que no tocan el borde */
+  reflejos: number;
+  /** 📏 Lado mayor de la credencial (px naturales) */
+  resolucion: number;
+  /** 📐 Inclinación estimada (grados) */
+  inclinacion: number;
+}
+
+/**
+ * 🔍 laplacianVariance
+ * ---------------------------------------------------------
+ * Varianza de la respuesta al laplaciano (4 vecinos).
+ * Bordes nítidos -> respuesta fuerte -> varianza alta.
+ * ---------------------------------------------------------
+ */
+export const laplacianVariance = (gray: Float32Array, width: number, height: number): number => {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = gray[i - 1] + gray[i + 1] + gray[i - width] + gray[i + width] - 4 * gray[i];
+      sum += value;
+      sumSquares += value * value;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+};
+
+/**
+ * 🔆 glareFraction
+ * ---------------------------------------------------------
+ * Fracción de píxeles quemados (>= 250) que NO están conectados
+ * con el borde de la imagen.
+ *
+ * 🧠 Así no cuentan el fondo blanco ni el relleno blanco de la
+ * rotación; solo los brillos rodeados de credencial.
+ * ---------------------------------------------------------
+ */
+export const glareFraction = (gray: Float32Array, width: number, height: number): number => {
+  const total = width * height;
+  const outside = new Uint8Array(total);
+  const stack: number[] = [];
+
+  const seed = (x: number, y: number) => {
+    const i = y * width + x;
+    if (!outside[i] && gray[i] >= CLIPPED_LUMA) {
+      outside[i] = 1;
+      stack.push(i);
+    }
+  };
+  for (let x = 0; x < width; x++) { seed(x, 0); seed(x, height - 1); }
+  for (let y = 0; y < height; y++) { seed(0, y); seed(width - 1, y); }
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    const x = current % width;
+    const y = Math.floor(current / width);
+    if (x > 0) seed(x - 1, y);
+    if (x < width - 1) seed(x + 1, y);
+    if (y > 0) seed(x, y - 1);
+    if (y < height - 1) seed(x, y + 1);
+  }
+
+  let glare = 0;
+  for (let i = 0; i < total; i++) {
+    if (gray[i] >= CLIPPED_LUMA && !outside[i]) glare++;
+  }
+  return total === 0 ? 0 : glare / total;
+};
+
+/**
+ * 📊 measureQuality
+ * ---------------------------------------------------------
+ * Mide todos los aspectos de una imagen ya cargada.
+ *
+ * 📏 La resolución usa las esquinas detectadas de la tarjeta;
+ * si no se detectan, se asume que la imagen ES la tarjeta.
+ * ---------------------------------------------------------
+ */
+export const measureQuality = (img: HTMLImageElement): QualityMetrics => {
+  const { gray, width, height } = toGrayscale(img, ANALYSIS_SIZE);
+
+  let brillo = 0;
+  gray.forEach((value) => { brillo += value; });
+  brillo = gray.length === 0 ? 0 : brillo / gray.length;
+
+  const quad = detectDocumentCorners(img);
+  const card = quad ? outputSize(quad) : { width: img.naturalWidth || img.width, height: img.naturalHeight || img.height };
+
+  return {
+    nitidez: laplacianVariance(gray, width, height),
+    brillo,
+    reflejos: glareFraction(gray, width, height),
+    resolucion: Math.max(card.width, card.height),
+    inclinacion: estimateSkew(gray, width, height)
+  };
+};
+
+/**
+ * 💯 scoreBetween
+ * - 0 en `bad`, 100 en `good` (lineal, en cualquier dirección).
+ */
+const scoreBetween = (value: number, bad: number, good: number): number =>
+  Math.round(Math.min(100, Math.max(0, ((value - bad) / (good - bad)) * 100)));
+
+/** 🚦 Orden de gravedad de los niveles */
+const SEVERITY: Record<QualityNivel, number> = { ok: 0, advertencia: 1, bloqueo: 2 };
+
+/**
+ * 🚦 assessQuality
+ * ---------------------------------------------------------
+ * Convierte las mediciones en un reporte con veredicto.
+ *
+ * @param metrics Mediciones de `measureQuality`
+ * @returns Reporte con nivel general, puntaje y detalle
+ * ---------------------------------------------------------
+ */
+export const assessQuality = (metrics: QualityMetrics): QualityReport => {
+  const t = QUALITY_THRESHOLDS;
+  const checks: QualityCheck[] = [];
+
+  // 🔍 Nitidez
+  const nitidez = metrics.nitidez;
+  checks.push({
+    clave: 'nitidez',
+    etiqueta: '🔍 Nitidez',
+    valor: Math.round(nitidez),
+    puntaje: scoreBetween(nitidez, t.nitidez.bloqueo, t.nitidez.ok),
+    nivel: nitidez < t.nitidez.bloqueo ? 'bloqueo' : nitidez < t.nitidez.ok ? 'advertencia' : 'ok',
+    detalle: nitidez < t.nitidez.ok ? 'La foto se ve borrosa: enfoca y no muevas la cámara' : 'Texto nítido'
+  });
+
+  // ☀️ Exposición
+  const brillo = metrics.brillo;
+  const oscura = brillo < t.exposicion.min;
+  const clara = brillo > t.exposicion.max;
+  checks.push({
+    clave: 'exposicion',
+    etiqueta: '☀️ Exposición',
+    valor: Math.round(brillo),
+    puntaje: brillo < 128
+      ? scoreBetween(brillo, t.exposicion.bloqueoMin, t.exposicion.min)
+      : scoreBetween(brillo, t.exposicion.bloqueoMax, t.exposicion.max),
+    nivel: brillo < t.exposicion.bloqueoMin || brillo > t.exposicion.bloqueoMax ? 'bloqueo' : oscura || clara ? 'advertencia' : 'ok',
+    detalle: oscura ? 'Muy oscura: busca más luz' : clara ? 'Muy clara: baja la luz o aléjate de la lámpara' : 'Iluminación correcta'
+  });
+
+  // 🔆 Reflejos
+  const reflejos = metrics.reflejos;
+  checks.push({
+    clave: 'reflejos',
+    etiqueta: '🔆 Reflejos',
+    valor: Math.round(reflejos * 1000) / 10,
+    puntaje: scoreBetween(reflejos, t.reflejos.peor, t.reflejos.ok),
+    nivel: reflejos >= t.reflejos.advertencia ? 'advertencia' : 'ok',
+    detalle: reflejos >= t.reflejos.advertencia
+      ? `Brillos en ${(reflejos * 100).toFixed(1)}% de la imagen: inclina un poco la credencial`
+      : 'Sin reflejos importantes'
+  });
+
+  // 📏 Resolución
+  const resolucion = metrics.resolucion;
+  checks.push({
+    clave: 'resolucion',
+    etiqueta: '📏 Resolución',
+    valor: Math.round(resolucion),
+    puntaje: scoreBetween(resolucion, t.resolucion.bloqueo, t.resolucion.ok),
+    nivel: resolucion < t.resolucion.bloqueo ? 'bloqueo' : resolucion < t.resolucion.ok ? 'advertencia' : 'ok',
+    detalle: resolucion < t.resolucion.ok
+      ? `La credencial mide ${Math.round(resolucion)}px: acércate o usa más resolución`
+      : `${Math.round(resolucion)}px de credencial`
+  });
+
+  // 📐 Inclinación
+  const inclinacion = Math.abs(metrics.inclinacion);
+  checks.push({
+    clave: 'inclinacion',
+    etiqueta: '📐 Inclinación',
+    valor: metrics.inclinacion,
+    puntaje: scoreBetween(inclinacion, t.inclinacion.peor, t.inclinacion.ok),
+    nivel: inclinacion > t.inclinacion.advertencia ? 'advertencia' : 'ok',
+    detalle: inclinacion > t.inclinacion.advertencia
+      ? `Inclinada ${inclinacion}°: usa “Enderezar” en el editor`
+      : 'Derecha'
+  });
+
+  const nivel = checks.reduce<QualityNivel>(
+    (worst, check) => (SEVERITY[check.nivel] > SEVERITY[worst] ? check.nivel : worst),
+    'ok'
+  );
+  const puntaje = Math.round(checks.reduce((sum, check) => sum + check.puntaje, 0) / checks.length);
+
+  return { nivel, puntaje, checks };
+};
+
+/**
+ * 🔎 analyzeImageQuality
+ * ---------------------------------------------------------
+ * Carga un DataURL / URL y regresa su reporte de calidad.
+ *
+ * @param src Imagen a revisar
+ * ---------------------------------------------------------
+ */
+export const analyzeImageQuality = async (src: string): Promise<QualityReport> => {
+  const img = await loadImage(src);
+  return assessQuality(measureQuality(img));
+};
@@ -0,0 +1,179 @@
+/**
+ * 🔄 rotation.ts
+ * =========================================================
+ * 🧰 Rotación a cualquier ángulo y enderezado automático.
+ *
+ * ✅ Incluye:
+ * - `rotateImage`: rota y agranda el canvas para que no se
+ *   recorten las esquinas
+ * - `detectSkew`: estima la inclinación de las líneas de texto
+ *   para enderezar la credencial
+ *
+ * 🧠 Convención de ángulos (igual que CSS `rotate()`):
+ * - Grados, positivo = sentido horario en pantalla
+ * =========================================================
+ */
+
+import { otsuThreshold, toGrayscale } from './image';
+
+/** 🔍 Lado mayor de la imagen reducida para estimar inclinación */
+const SKEW_DETECT_SIZE = 800;
+
+/** 📐 Inclinación máxima que se busca (±grados) */
+const MAX_SKEW = 15;
+
+/**
+ * 🧭 normalizeAngle
+ * ---------------------------------------------------------
+ * Lleva un ángulo al rango (-180, 180] y lo redondea a 0.1°
+ * para evitar arrastre de decimales al sumar pasos.
+ * ---------------------------------------------------------
+ */
+export const normalizeAngle = (degrees: number): number => {
+  let angle = Math.round(degrees * 10) / 10;
+  angle = ((angle % 360) + 360) % 360;
+  if (angle > 180) angle -= 360;
+  return Math.round(angle * 10) / 10;
+};
+
+/**
+ * 📐 rotatedSize
+ * ---------------------------------------------------------
+ * Tamaño de la caja que contiene una imagen rotada.
+ * ---------------------------------------------------------
+ */
+export const rotatedSize = (width: number, height: number, degrees: number): { width: number; height: number } => {
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+  return {
+    width: Math.round(width * cos + height * sin),
+    height: Math.round(width * sin + height * cos)
+  };
+};
+
+/**
+ * 🔄 rotateImage
+ * ---------------------------------------------------------
+ * Rota la imagen sobre un canvas que crece hasta contenerla.
+ * Las esquinas nuevas se rellenan de blanco (mejor para OCR
+ * que el negro del JPEG sin transparencia).
+ *
+ * @param img     Imagen ya cargada
+ * @param degrees Ángulo en grados (horario)
+ * @returns Canvas con la imagen rotada
+ * ---------------------------------------------------------
+ */
+export const rotateImage = (img: HTMLImageElement, degrees: number): HTMLCanvasElement => {
+  const width = img.naturalWidth || img.width;
+  const height = img.naturalHeight || img.height;
+  const size = rotatedSize(width, height, degrees);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D no disponible');
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate((degrees * Math.PI) / 180);
+  ctx.drawImage(img, -width / 2, -height / 2, width, height);
+
+  return canvas;
+};
+
+/**
+ * 📊 profileScore
+ * ---------------------------------------------------------
+ * Qué tan “marcadas” quedan las líneas de texto si se rota la
+ * imagen `degrees`: proyecta los píxeles oscuros sobre el eje Y
+ * y suma los saltos al cuadrado entre filas vecinas.
+ * Texto derecho -> filas llenas y huecos vacíos -> puntaje alto.
+ * ---------------------------------------------------------
+ */
+const profileScore = (points: Int32Array, count: number, height: number, degrees: number): number => {
+  const radians = (degrees * Math.PI) / 180;
+  const sin = Math.sin(radians);
+  const cos = Math.cos(radians);
+  const margin = Math.ceil(height * 0.5);
+  const bins = new Float32Array(height + margin * 2);
+
+  for (let i = 0; i < count; i++) {
+    const x = points[i * 2];
+    const y = points[i * 2 + 1];
+    const row = Math.round(x * sin + y * cos) + margin;
+    if (row >= 0 && row < bins.length) bins[row]++;
+  }
+
+  let score = 0;
+  for (let i = 1; i < bins.length; i++) score += (bins[i] - bins[i - 1]) ** 2;
+  return score;
+};
+
+/**
+ * 📐 estimateSkew
+ * ---------------------------------------------------------
+ * Busca el ángulo que mejor alinea las líneas de texto.
+ *
+ * 🔁 Pasos:
+ * 1) Píxeles oscuros (umbral de Otsu) = tinta
+ * 2) Búsqueda gruesa cada 0.5° en ±15°
+ * 3) Búsqueda fina cada 0.1° alrededor del mejor
+ *
+ * @param gray   Luminancia (0-255), fila por fila
+ * @param width  Ancho
+ * @param height Alto
+ * @returns Ángulo a rotar (grados, horario) para enderezar
+ * ---------------------------------------------------------
+ */
+export const estimateSkew = (gray: Float32Array, width: number, height: number): number => {
+  const histogram = new Array<number>(256).fill(0);
+  gray.forEach((value) => histogram[Math.min(255, Math.max(0, Math.round(value)))]++);
+  const threshold = otsuThreshold(histogram, gray.length);
+
+  const points = new Int32Array(gray.length * 2);
+  let count = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (gray[y * width + x] <= threshold) {
+        points[count * 2] = x;
+        points[count * 2 + 1] = y;
+        count++;
+      }
+    }
+  }
+  if (count === 0) return 0;
+
+  const search = (from: number, to: number, step: number): number => {
+    let bestAngle = 0;
+    let bestScore = -1;
+    for (let angle = from; angle <= to + 1e-9; angle += step) {
+      const score = profileScore(points, count, height, angle);
+      if (score > bestScore) {
+        bestScore = score;
+        bestAngle = angle;
+      }
+    }
+    return bestAngle;
+  };
+
+  const coarse = search(-MAX_SKEW, MAX_SKEW, 0.5);
+  return normalizeAngle(search(coarse - 0.5, coarse + 0.5, 0.1));
+};
+
+/**
+ * 📐 detectSkew
+ * ---------------------------------------------------------
+ * Estima el ángulo para enderezar la credencial de una imagen.
+ *
+ * @param img Imagen ya cargada
+ * @returns Ángulo a rotar (grados, horario)
+ * ---------------------------------------------------------
+ */
+export const detectSkew = (img: HTMLImageElement): number => {
+  const { gray, width, height } = toGrayscale(img, SKEW_DETECT_SIZE);
+  return estimateSkew(gray, width, height);
+};
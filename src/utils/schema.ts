@@ -0,0 +1,97 @@
+/**
+ * 🧪 schema.ts
+ * =========================================================
+ * 🧰 Validación en runtime de las respuestas del backend.
+ *
+ * ✅ Un esquema describe el tipo de cada campo:
+ * - 'string' | 'number' | 'boolean'
+ * - 'string?' (etc.): opcional, puede faltar
+ * - Un objeto anidado con su propio esquema
+ *
+ * 🧠 `ObjectSchema<T>` se deriva de la interfaz de `types/`:
+ * si se agrega, quita o cambia un campo en la interfaz y no en
+ * el esquema, TypeScript marca el error al compilar.
+ *
+ * ⚠️ Los campos extra que mande el backend se ignoran (no son
+ * error): solo se revisa lo que la UI usa.
+ * =========================================================
+ */
+
+import type { SchemaIssue } from '../types';
+
+/** 🔤 Tipos primitivos soportados */
+type PrimitiveSchema = 'string' | 'number' | 'boolean';
+
+/** 🧩 Esquema de un campo */
+export type FieldSchema = PrimitiveSchema | `${PrimitiveSchema}?` | SchemaShape;
+
+/** 🧩 Esquema de un objeto (forma genérica) */
+export interface SchemaShape {
+  [campo: string]: FieldSchema;
+}
+
+/** 🔁 Esquema de un valor según su tipo en TypeScript */
+type SchemaFor<V> =
+  V extends string ? 'string'
+  : V extends number ? 'number'
+  : V extends boolean ? 'boolean'
+  : V extends object ? ObjectSchema<V>
+  : never;
+
+/** 🔁 Esquema de un campo opcional (solo primitivos) */
+type OptionalSchemaFor<V> = SchemaFor<V> extends PrimitiveSchema ? `${SchemaFor<V>}?` : never;
+
+/**
+ * 🧩 ObjectSchema
+ * ---------------------------------------------------------
+ * Esquema exacto de la interfaz `T`: todos sus campos, con el
+ * tipo que les corresponde.
+ * ---------------------------------------------------------
+ */
+export type ObjectSchema<T> = {
+  [K in keyof T]-?: undefined extends T[K] ? OptionalSchemaFor<NonNullable<T[K]>> : SchemaFor<T[K]>;
+};
+
+/**
+ * 🏷️ describeValue
+ * - Tipo legible de un valor ("null" y "arreglo" aparte de "object").
+ */
+const describeValue = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'arreglo';
+  return typeof value;
+};
+
+/** 📦 ¿Objeto "plano" (no null, no arreglo)? */
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * 🧪 validateSchema
+ * ---------------------------------------------------------
+ * Revisa `value` contra `schema` y regresa TODOS los campos que
+ * no cumplen (no se detiene en el primero).
+ *
+ * @param value  Valor recibido (JSON ya parseado)
+ * @param schema Esquema esperado
+ * @param path   Ruta del valor (para los mensajes; "" = raíz)
+ * @returns Lista vacía si es válido
+ * ---------------------------------------------------------
+ */
+export const validateSchema = (value: unknown, schema: FieldSchema, path = ''): SchemaIssue[] => {
+  const campo = path || '(respuesta)';
+
+  if (typeof schema === 'string') {
+    const optional = schema.endsWith('?');
+    const esperado = optional ? schema.slice(0, -1) : schema;
+    if (optional && value === undefined) return [];
+    return typeof value === esperado ? [] : [{ campo, esperado, recibido: describeValue(value) }];
+  }
+
+  if (!isRecord(value)) return [{ campo, esperado: 'objeto', recibido: describeValue(value) }];
+
+  return Object.entries(schema).flatMap(([key, child]) =>
+    validateSchema(value[key], child, path ? `${path}.${key}` : key)
+  );
+};
+
@@ -0,0 +1,121 @@
+/**
+ * 🗺️ states.ts
+ * =========================================================
+ * 📋 Catálogo de entidades federativas de México.
+ *
+ * Cada entidad tiene:
+ * - `curp`: código de 2 letras usado en la CURP (ej. "QR")
+ * - `inegi`: clave numérica de 2 dígitos (ej. "23")
+ * - `nombre`: nombre oficial corto
+ * - `aliases`: variantes con las que el OCR/backend suele escribirla
+ *
+ * 🧠 Uso:
+ * - Validar el código de estado de la CURP
+ * - Validar la entidad de la clave de elector
+ * - Resolver el `estado` del anverso a una entidad para compararla
+ * =========================================================
+ */
+
+import { normalizeText } from './text';
+
+/**
+ * 🏛️ MexicanState
+ * ---------------------------------------------------------
+ * Entrada del catálogo de entidades.
+ * ---------------------------------------------------------
+ */
+export interface MexicanState {
+  curp: string;
+  inegi: string;
+  nombre: string;
+  aliases: string[];
+}
+
+/**
+ * 📋 MEXICAN_STATES
+ * ---------------------------------------------------------
+ * Catálogo completo (32 entidades + nacido en el extranjero).
+ * ---------------------------------------------------------
+ */
+export const MEXICAN_STATES: MexicanState[] = [
+  { curp: 'AS', inegi: '01', nombre: 'Aguascalientes', aliases: ['AGUASCALIENTES', 'AGS'] },
+  { curp: 'BC', inegi: '02', nombre: 'Baja California', aliases: ['BAJA CALIFORNIA', 'BC'] },
+  { curp: 'BS', inegi: '03', nombre: 'Baja California Sur', aliases: ['BAJA CALIFORNIA SUR', 'BCS'] },
+  { curp: 'CC', inegi: '04', nombre: 'Campeche', aliases: ['CAMPECHE', 'CAMP'] },
+  { curp: 'CL', inegi: '05', nombre: 'Coahuila', aliases: ['COAHUILA', 'COAHUILA DE ZARAGOZA', 'COAH'] },
+  { curp: 'CM', inegi: '06', nombre: 'Colima', aliases: ['COLIMA', 'COL'] },
+  { curp: 'CS', inegi: '07', nombre: 'Chiapas', aliases: ['CHIAPAS', 'CHIS'] },
+  { curp: 'CH', inegi: '08', nombre: 'Chihuahua', aliases: ['CHIHUAHUA', 'CHIH'] },
+  { curp: 'DF', inegi: '09', nombre: 'Ciudad de México', aliases: ['CIUDAD DE MEXICO', 'DISTRITO FEDERAL', 'CDMX', 'D.F.', 'DF'] },
+  { curp: 'DG', inegi: '10', nombre: 'Durango', aliases: ['DURANGO', 'DGO'] },
+  { curp: 'GT', inegi: '11', nombre: 'Guanajuato', aliases: ['GUANAJUATO', 'GTO'] },
+  { curp: 'GR', inegi: '12', nombre: 'Guerrero', aliases: ['GUERRERO', 'GRO'] },
+  { curp: 'HG', inegi: '13', nombre: 'Hidalgo', aliases: ['HIDALGO', 'HGO'] },
+  { curp: 'JC', inegi: '14', nombre: 'Jalisco', aliases: ['JALISCO', 'JAL'] },
+  { curp: 'MC', inegi: '15', nombre: 'Estado de México', aliases: ['ESTADO DE MEXICO', 'EDO MEX', 'EDO. MEX.', 'MEXICO', 'MEX'] },
+  { curp: 'MN', inegi: '16', nombre: 'Michoacán', aliases: ['MICHOACAN', 'MICHOACAN DE OCAMPO', 'MICH'] },
+  { curp: 'MS', inegi: '17', nombre: 'Morelos', aliases: ['MORELOS', 'MOR'] },
+  { curp: 'NT', inegi: '18', nombre: 'Nayarit', aliases: ['NAYARIT', 'NAY'] },
+  { curp: 'NL', inegi: '19', nombre: 'Nuevo León', aliases: ['NUEVO LEON', 'NL'] },
+  { curp: 'OC', inegi: '20', nombre: 'Oaxaca', aliases: ['OAXACA', 'OAX'] },
+  { curp: 'PL', inegi: '21', nombre: 'Puebla', aliases: ['PUEBLA', 'PUE'] },
+  { curp: 'QT', inegi: '22', nombre: 'Querétaro', aliases: ['QUERETARO', 'QUERETARO DE ARTEAGA', 'QRO'] },
+  { curp: 'QR', inegi: '23', nombre: 'Quintana Roo', aliases: ['QUINTANA ROO', 'Q ROO', 'Q. ROO', 'QROO'] },
+  { curp: 'SP', inegi: '24', nombre: 'San Luis Potosí', aliases: ['SAN LUIS POTOSI', 'SLP'] },
+  { curp: 'SL', inegi: '25', nombre: 'Sinaloa', aliases: ['SINALOA', 'SIN'] },
+  { curp: 'SR', inegi: '26', nombre: 'Sonora', aliases: ['SONORA', 'SON'] },
+  { curp: 'TC', inegi: '27', nombre: 'Tabasco', aliases: ['TABASCO', 'TAB'] },
+  { curp: 'TS', inegi: '28', nombre: 'Tamaulipas', aliases: ['TAMAULIPAS', 'TAMPS'] },
+  { curp: 'TL', inegi: '29', nombre: 'Tlaxcala', aliases: ['TLAXCALA', 'TLAX'] },
+  { curp: 'VZ', inegi: '30', nombre: 'Veracruz', aliases: ['VERACRUZ', 'VERACRUZ DE IGNACIO DE LA LLAVE', 'VER'] },
+  { curp: 'YN', inegi: '31', nombre: 'Yucatán', aliases: ['YUCATAN', 'YUC'] },
+  { curp: 'ZS', inegi: '32', nombre: 'Zacatecas', aliases: ['ZACATECAS', 'ZAC'] },
+  { curp: 'NE', inegi: '', nombre: 'Nacido en el extranjero', aliases: ['NACIDO EN EL EXTRANJERO', 'EXTRANJERO'] }
+];
+
+/**
+ * 🔍 findStateByCurpCode
+ * - Busca una entidad por su código CURP (ej. "QR").
+ */
+export const findStateByCurpCode = (code: string): MexicanState | undefined =>
+  MEXICAN_STATES.find((s) => s.curp === code);
+
+/**
+ * 🔍 findStateByInegiCode
+ * - Busca una entidad por su clave numérica (ej. "23").
+ */
+export const findStateByInegiCode = (code: string): MexicanState | undefined =>
+  MEXICAN_STATES.find((s) => s.inegi && s.inegi === code);
+
+/**
+ * 🧭 resolveState
+ * ---------------------------------------------------------
+ * Resuelve el texto libre de `estado` (anverso) a una entidad.
+ *
+ * 🧠 Estrategia:
+ * - Normaliza el texto (mayúsculas, sin acentos)
+ * - Gana el alias MÁS LARGO contenido en el texto, para que
+ *   "CIUDAD DE MEXICO" no se resuelva como "MEXICO"
+ *
+ * @param estado Texto del estado detectado por OCR
+ * @returns Entidad encontrada o undefined
+ * ---------------------------------------------------------
+ */
+export const resolveState = (estado: string): MexicanState | undefined => {
+  const normalized = normalizeText(estado);
+  if (!normalized) return undefined;
+
+  const words = ` ${normalized.replace(/[.,]/g, ' ').replace(/\s+/g, ' ')} `;
+  let best: { state: MexicanState; length: number } | undefined;
+
+  MEXICAN_STATES.forEach((state) => {
+    state.aliases.forEach((alias) => {
+      const cleanAlias = alias.replace(/[.,]/g, ' ').replace(/\s+/g, ' ').trim();
+      if (words.includes(` ${cleanAlias} `) && (!best || cleanAlias.length > best.length)) {
+        best = { state, length: cleanAlias.length };
+      }
+    });
+  });
+
+  return best?.state;
+};
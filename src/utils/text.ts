@@ -0,0 +1,76 @@
+/**
+ * 🔤 text.ts
+ * =========================================================
+ * 🧰 Utilidades de texto compartidas por los validadores.
+ *
+ * El OCR devuelve nombres y claves con variaciones que no
+ * cambian su significado:
+ * - Acentos (JOSÉ vs JOSE)
+ * - Espacios dobles o saltos de línea
+ * - Relleno MRZ con `<`
+ *
+ * Estas funciones dejan el texto en una forma canónica para
+ * poder compararlo sin falsos positivos.
+ * =========================================================
+ */
+
+/**
+ * 🧼 normalizeText
+ * ---------------------------------------------------------
+ * Convierte un texto a su forma canónica:
+ * - Mayúsculas
+ * - Sin acentos ni diéresis (Ñ se conserva)
+ * - `<` del MRZ convertido en espacio
+ * - Espacios colapsados y recortados
+ *
+ * @param value Texto crudo (puede venir vacío o undefined)
+ * @returns Texto normalizado ('' si no hay valor)
+ * ---------------------------------------------------------
+ */
+export const normalizeText = (value: string | null | undefined): string => {
+  if (!value) return '';
+
+  return value
+    .toUpperCase()
+    .normalize('NFD')
+    .replace(/N\u0303/g, 'Ñ')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/</g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+/**
+ * ✂️ splitWords
+ * ---------------------------------------------------------
+ * Divide un texto normalizado en palabras.
+ *
+ * @param value Texto crudo
+ * @returns Lista de palabras (vacía si no hay texto)
+ * ---------------------------------------------------------
+ */
+export const splitWords = (value: string | null | undefined): string[] => {
+  const normalized = normalizeText(value);
+  return normalized ? normalized.split(' ') : [];
+};
+
+/**
+ * 🚻 normalizeSex
+ * ---------------------------------------------------------
+ * Lleva las distintas formas de escribir el sexo a una letra:
+ * - "H", "HOMBRE", "MASCULINO" -> "H"
+ * - "M", "MUJER", "FEMENINO", "F" -> "M"
+ * - "X", "NO BINARIO" -> "X"
+ *
+ * @param value Sexo tal como lo detectó el OCR
+ * @returns "H" | "M" | "X" | '' si no se reconoce
+ * ---------------------------------------------------------
+ */
+export const normalizeSex = (value: string | null | undefined): string => {
+  const normalized = normalizeText(value);
+  if (!normalized) return '';
+  if (['H', 'HOMBRE', 'MASCULINO'].includes(normalized)) return 'H';
+  if (['M', 'MUJER', 'FEMENINO', 'F'].includes(normalized)) return 'M';
+  if (['X', 'NO BINARIO'].includes(normalized)) return 'X';
+  return '';
+};
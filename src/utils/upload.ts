@@ -0,0 +1,131 @@
+/**
+ * 📦 upload.ts
+ * =========================================================
+ * 🧰 Reducción y compresión de la imagen antes de subirla.
+ *
+ * ✅ Dos pasos:
+ * 1) 📐 Reducir al tamaño objetivo (lado mayor `maxSide`):
+ *    suficiente para leer la credencial, mucho menos que una
+ *    foto de celular de 12 MP
+ * 2) 🎚️ Codificar JPEG bajando la calidad (y si no alcanza, el
+ *    tamaño, sin bajar de `minSide`) hasta caber en `maxBytes`
+ *
+ * 🧠 No depende del canvas: recibe una función `encode` para
+ * correr igual en el Web Worker (`OffscreenCanvas`) y en el hilo
+ * principal (`HTMLCanvasElement`).
+ * =========================================================
+ */
+
+/**
+ * 🎯 UploadBudget
+ * - Límites de la imagen que se sube.
+ */
+export interface UploadBudget {
+  /** 📐 Lado mayor objetivo (px) */
+  maxSide: number;
+
+  /** 📐 Lado mayor mínimo al reducir por peso (px) */
+  minSide: number;
+
+  /** 📦 Peso máximo (bytes) */
+  maxBytes: number;
+
+  /** 🎚️ Calidades JPEG que se prueban, de mayor a menor */
+  qualities: number[];
+}
+
+/**
+ * 🎯 UPLOAD_BUDGET
+ * ---------------------------------------------------------
+ * Una credencial ID-1 (85.6 mm) a 1600 px de ancho queda en
+ * ~475 DPI si está recortada, y ~240 DPI si ocupa la mitad de
+ * la foto: de sobra para el OCR. 800 KB sube rápido en 3G.
+ * ---------------------------------------------------------
+ */
+export const UPLOAD_BUDGET: UploadBudget = {
+  maxSide: 1600,
+  minSide: 1000,
+  maxBytes: 800 * 1024,
+  qualities: [0.9, 0.82, 0.74, 0.66]
+};
+
+/** 📉 Factor de reducción por intento cuando la calidad no alcanza */
+const SHRINK_STEP = 0.85;
+
+/** 🎨 Codifica la imagen a `width` x `height` con calidad JPEG `quality` */
+export type UploadEncoder = (width: number, height: number, quality: number) => Promise<Blob>;
+
+/**
+ * 📦 EncodedUpload
+ * - Resultado de `encodeWithinBudget`.
+ */
+export interface EncodedUpload {
+  blob: Blob;
+  width: number;
+  height: number;
+  quality: number;
+}
+
+/**
+ * 📐 fitSize
+ * ---------------------------------------------------------
+ * Tamaño con el lado mayor en `maxSide` como máximo (nunca
+ * agranda), conservando la proporción.
+ * ---------------------------------------------------------
+ */
+export const fitSize = (width: number, height: number, maxSide: number): { width: number; height: number } => {
+  const scale = Math.min(1, maxSide / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale))
+  };
+};
+
+/**
+ * 🎚️ encodeWithinBudget
+ * ---------------------------------------------------------
+ * Reduce y codifica hasta caber en `budget.maxBytes`.
+ *
+ * ⚠️ Si ni con la menor calidad y `minSide` cabe, regresa ese
+ * último intento (el más ligero) en lugar de fallar.
+ *
+ * @param width  Ancho original
+ * @param height Alto original
+ * @param encode Codificador (worker o hilo principal)
+ * @param budget Límites (por defecto `UPLOAD_BUDGET`)
+ * ---------------------------------------------------------
+ */
+export const encodeWithinBudget = async (
+  width: number,
+  height: number,
+  encode: UploadEncoder,
+  budget: UploadBudget = UPLOAD_BUDGET
+): Promise<EncodedUpload> => {
+  let size = fitSize(width, height, budget.maxSide);
+  let last: EncodedUpload | null = null;
+
+  for (;;) {
+    for (const quality of budget.qualities) {
+      const blob = await encode(size.width, size.height, quality);
+      last = { blob, width: size.width, height: size.height, quality };
+      if (blob.size <= budget.maxBytes) return last;
+    }
+
+    const longSide = Math.max(size.width, size.height);
+    if (longSide * SHRINK_STEP < budget.minSide) {
+      if (!last) throw new Error('El presupuesto no tiene calidades JPEG');
+      return last;
+    }
+    size = fitSize(size.width, size.height, Math.round(longSide * SHRINK_STEP));
+  }
+};
+
+/**
+ * 🏷️ formatBytes
+ * - 1536 -> "1.5 KB", 3_400_000 -> "3.2 MB"
+ */
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
@@ -0,0 +1,134 @@
+/**
+ * 📆 vigencia.ts
+ * =========================================================
+ * ⏳ Evaluación de la vigencia de la credencial.
+ *
+ * El backend devuelve `vigencia` en distintos formatos:
+ * - "2024-2034" (emisión - fin)
+ * - "2024 2034" (el OCR a veces pierde el guion)
+ * - "2034" (solo el año final, credenciales anteriores)
+ *
+ * 🧠 Regla:
+ * - La INE es válida hasta el **31 de diciembre** del año final.
+ * - Se avisa "por vencer" cuando faltan menos de
+ *   `VIGENCIA_WARNING_MONTHS` meses.
+ *
+ * 🧭 Fecha de referencia:
+ * - Por defecto es "hoy"; puede fijarse con
+ *   `VITE_VIGENCIA_FECHA_REFERENCIA` (YYYY-MM-DD) para auditorías
+ *   o revisiones de credenciales capturadas en otra fecha.
+ * =========================================================
+ */
+
+import type { VigenciaStatus } from '../types';
+import { toISODate } from './dates';
+
+/** ⚠️ Meses antes del vencimiento en los que se muestra aviso */
+export const VIGENCIA_WARNING_MONTHS = 6;
+
+/**
+ * 🔍 parseVigencia
+ * ---------------------------------------------------------
+ * Extrae los años de la vigencia.
+ *
+ * ✅ Con dos años -> inicio y fin; con uno -> solo fin.
+ *
+ * @param vigencia Texto del OCR
+ * @returns Años detectados o null si no hay ninguno
+ * ---------------------------------------------------------
+ */
+export const parseVigencia = (vigencia: string | null | undefined): { inicio: number | null; fin: number } | null => {
+  const years = ((vigencia || '').match(/(?:19|20)\d{2}/g) || []).map(Number);
+  if (!years.length) return null;
+
+  if (years.length === 1) return { inicio: null, fin: years[0] };
+  return { inicio: years[0], fin: years[years.length - 1] };
+};
+
+/**
+ * 🧭 resolveReferenceDate
+ * ---------------------------------------------------------
+ * Convierte la fecha configurada (YYYY-MM-DD) en `Date`.
+ *
+ * @param value Valor configurado (ej. variable de entorno)
+ * @returns Fecha configurada o la fecha actual si no es válida
+ * ---------------------------------------------------------
+ */
+export const resolveReferenceDate = (value?: string): Date => {
+  const match = (value || '').trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return new Date();
+
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return isNaN(date.getTime()) ? new Date() : date;
+};
+
+/**
+ * 📅 formatDay
+ * - Formatea una fecha como DD/MM/YYYY (formato de la credencial).
+ */
+const formatDay = (date: Date): string =>
+  `${String(date.getDate()).padStart(2, '0')}/${String(date.getMonth() + 1).padStart(2, '0')}/${date.getFullYear()}`;
+
+/**
+ * ⏳ evaluateVigencia
+ * ---------------------------------------------------------
+ * Calcula el estado de la vigencia contra una fecha de referencia.
+ *
+ * @param vigencia      Texto del OCR (ej. "2024-2034")
+ * @param referenceDate Fecha contra la que se evalúa (default: hoy)
+ * @returns Estado, fechas y etiqueta lista para mostrar
+ * ---------------------------------------------------------
+ */
+export const evaluateVigencia = (
+  vigencia: string | null | undefined,
+  referenceDate: Date = new Date()
+): VigenciaStatus => {
+  const fecha_referencia = toISODate({
+    year: referenceDate.getFullYear(),
+    month: referenceDate.getMonth() + 1,
+    day: referenceDate.getDate()
+  });
+  const parsed = parseVigencia(vigencia);
+
+  if (!parsed) {
+    return {
+      estado: 'desconocida',
+      vigencia: vigencia || '',
+      anio_inicio: null,
+      anio_fin: null,
+      vence: '',
+      fecha_referencia,
+      meses_restantes: null,
+      etiqueta: 'Vigencia no detectada'
+    };
+  }
+
+  const end = new Date(parsed.fin, 11, 31);
+  const meses_restantes =
+    (end.getFullYear() - referenceDate.getFullYear()) * 12 + (end.getMonth() - referenceDate.getMonth());
+  const expired = referenceDate.getTime() > new Date(parsed.fin, 11, 31, 23, 59, 59, 999).getTime();
+
+  let estado: VigenciaStatus['estado'] = 'vigente';
+  let etiqueta = `Vigente hasta el ${formatDay(end)}`;
+
+  if (expired) {
+    estado = 'vencida';
+    etiqueta = `Vencida desde el ${formatDay(end)}`;
+  } else if (meses_restantes < VIGENCIA_WARNING_MONTHS) {
+    estado = 'por_vencer';
+    etiqueta = meses_restantes === 0
+      ? 'Vence este mes'
+      : `Vence en ${meses_restantes} ${meses_restantes === 1 ? 'mes' : 'meses'}`;
+  }
+
+  return {
+    estado,
+    vigencia: vigencia || '',
+    anio_inicio: parsed.inicio,
+    anio_fin: parsed.fin,
+    vence: toISODate({ year: parsed.fin, month: 12, day: 31 }),
+    fecha_referencia,
+    meses_restantes,
+    etiqueta
+  };
+};
@@ -0,0 +1,44 @@
+/**
+ * 🧵 preprocess.worker.ts
+ * =========================================================
+ * 🧪 Web Worker que corre los filtros de `utils/preprocess.ts`
+ * fuera del hilo principal (la UI no se congela).
+ *
+ * 📨 Mensaje de entrada: `PreprocessRequest`
+ * 📤 Respuesta: `PreprocessResponse` (el buffer se transfiere,
+ *    no se copia)
+ *
+ * 🧠 Lo crea `preprocessService` (services/preprocess.ts).
+ * =========================================================
+ */
+
+import { runPreprocess, type PreprocessStep } from '../utils/preprocess';
+
+/** 📨 Petición al worker */
+export interface PreprocessRequest {
+  id: number;
+  width: number;
+  height: number;
+  data: Uint8ClampedArray<ArrayBuffer>;
+  steps: PreprocessStep[];
+}
+
+/** 📤 Respuesta del worker */
+export interface PreprocessResponse {
+  id: number;
+  data?: Uint8ClampedArray<ArrayBuffer>;
+  error?: string;
+}
+
+self.onmessage = (event: MessageEvent<PreprocessRequest>) => {
+  const { id, width, height, data, steps } = event.data;
+
+  try {
+    runPreprocess({ data, width, height }, steps);
+    const response: PreprocessResponse = { id, data };
+    self.postMessage(response, { transfer: [data.buffer] });
+  } catch (error) {
+    const response: PreprocessResponse = { id, error: error instanceof Error ? error.message : 'Error en preprocesamiento' };
+    self.postMessage(response);
+  }
+};
@@ -0,0 +1,57 @@
+/**
+ * 🧵 upload.worker.ts
+ * =========================================================
+ * 📦 Web Worker que reduce y comprime la imagen antes de
+ * subirla (`utils/upload.ts`) con `OffscreenCanvas`: decodificar
+ * y codificar una foto de 10 MB no congela la UI.
+ *
+ * 📨 Mensaje de entrada: `UploadRequest`
+ * 📤 Respuesta: `UploadResponse`
+ *
+ * 🧠 Lo crea `uploadService` (services/upload.ts).
+ * =========================================================
+ */
+
+import { encodeWithinBudget, type EncodedUpload, type UploadBudget } from '../utils/upload';
+
+/** 📨 Petición al worker */
+export interface UploadRequest {
+  id: number;
+  file: Blob;
+  budget: UploadBudget;
+}
+
+/** 📤 Respuesta del worker */
+export interface UploadResponse {
+  id: number;
+  result?: EncodedUpload & { originalWidth: number; originalHeight: number };
+  error?: string;
+}
+
+self.onmessage = async (event: MessageEvent<UploadRequest>) => {
+  const { id, file, budget } = event.data;
+
+  try {
+    const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    const canvas = new OffscreenCanvas(1, 1);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('OffscreenCanvas 2D no disponible');
+
+    const encoded = await encodeWithinBudget(bitmap.width, bitmap.height, (width, height, quality) => {
+      canvas.width = width;
+      canvas.height = height;
+      ctx.drawImage(bitmap, 0, 0, width, height);
+      return canvas.convertToBlob({ type: 'image/jpeg', quality });
+    }, budget);
+
+    const response: UploadResponse = {
+      id,
+      result: { ...encoded, originalWidth: bitmap.width, originalHeight: bitmap.height }
+    };
+    bitmap.close();
+    self.postMessage(response);
+  } catch (error) {
+    const response: UploadResponse = { id, error: error instanceof Error ? error.message : 'Error al preparar la imagen' };
+    self.postMessage(response);
+  }
+};